@@ -1,5 +1,10 @@
 import { describe, it, beforeEach, afterEach } from "node:test";
 import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as http from "node:http";
+import { PassThrough } from "node:stream";
 
 // Dynamic import of the compiled modules
 const mod = await import("../../dist/index.js");
@@ -136,6 +141,879 @@ describe("detectProviderModel", () => {
   });
 });
 
+// ============================================================================
+// Provider options + project config
+// ============================================================================
+
+describe("provider options", () => {
+  let originalEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GOOGLE_AI_API_KEY;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it("should honor a pinned provider and model", () => {
+    process.env.GEMINI_API_KEY = "test";
+    process.env.ANTHROPIC_API_KEY = "test";
+    assert.equal(mod.detectProviderName({ provider: "anthropic" }), "anthropic");
+    assert.equal(mod.detectProviderModel({ provider: "anthropic" }), "claude-sonnet-4-5-20250929");
+    assert.equal(mod.detectProviderModel({ model: "gemini-2.5-pro" }), "gemini-2.5-pro");
+    assert.equal(mod.detectProviderModel({ models: { gemini: "gemini-2.5-flash" } }), "gemini-2.5-flash");
+  });
+
+  it("should fail clearly when the pinned provider has no key", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    await assert.rejects(mod.callLlm("sys", "hi", { provider: "openai" }), /OPENAI_API_KEY is not set/);
+    assert.equal(mod.detectProviderName({ provider: "openai" }), null);
+  });
+
+  it("should apply scoped options to calls inside withLlmOptions", async () => {
+    process.env.OPENAI_API_KEY = "test";
+    const model = await mod.withLlmOptions({ model: "gpt-5-mini" }, async () => mod.detectProviderModel());
+    assert.equal(model, "gpt-5-mini");
+    assert.equal(mod.detectProviderModel(), "gpt-5");
+  });
+
+  it("should drop a lower layer's model when a higher layer switches provider", () => {
+    const merged = mod.mergeLlmOptions({ provider: "openai", model: "gpt-5", temperature: 0.1 }, { provider: "anthropic" });
+    assert.deepEqual(merged, { provider: "anthropic", temperature: 0.1 });
+  });
+});
+
+describe("openai-compatible provider", () => {
+  let originalEnv;
+  let server;
+  let requests;
+
+  beforeEach(async () => {
+    originalEnv = { ...process.env };
+    delete process.env.OPENAI_COMPATIBLE_API_KEY;
+    delete process.env.OPENAI_COMPATIBLE_MODEL;
+    requests = [];
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (c) => (body += c));
+      req.on("end", () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ choices: [{ message: { content: "local reply" } }] }));
+      });
+    });
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    process.env.OPENAI_COMPATIBLE_BASE_URL = `http://127.0.0.1:${server.address().port}/v1/`;
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should take priority once an endpoint is configured", () => {
+    process.env.GEMINI_API_KEY = "test";
+    process.env.OPENAI_COMPATIBLE_MODEL = "llama3.1";
+    assert.equal(mod.detectProviderName(), "openai-compatible");
+    assert.equal(mod.detectProviderModel(), "llama3.1");
+  });
+
+  it("should call the configured endpoint without a key", async () => {
+    const r = await mod.callLlm("sys", "hello", { model: "qwen2.5:14b" });
+    assert.deepEqual([r.text, r.provider, r.model], ["local reply", "openai-compatible", "qwen2.5:14b"]);
+    assert.equal(requests[0].url, "/v1/chat/completions");
+    assert.equal(requests[0].headers.authorization, undefined);
+    assert.equal(requests[0].body.model, "qwen2.5:14b");
+    assert.deepEqual(requests[0].body.messages[0], { role: "system", content: "sys" });
+  });
+
+  it("should send the optional key as a bearer token", async () => {
+    process.env.OPENAI_COMPATIBLE_API_KEY = "gateway-token";
+    await mod.callLlm("sys", "hello", { model: "m" });
+    assert.equal(requests[0].headers.authorization, "Bearer gateway-token");
+  });
+
+  it("should require a model", async () => {
+    await assert.rejects(mod.callLlm("sys", "hello"), /needs a model/);
+  });
+});
+
+describe("retry and failover", () => {
+  let originalEnv;
+  let originalFetch;
+  let calls;
+
+  const json = (body, status = 200, headers = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+  const geminiOk = () => json({ candidates: [{ content: { parts: [{ text: "gemini reply" }] } }] });
+  const openaiOk = () => json({ choices: [{ message: { content: "openai reply" } }] });
+
+  /** Route stubbed fetch calls by host; each handler gets the call count for that host. */
+  function stubFetch(handlers) {
+    globalThis.fetch = async (url, init) => {
+      const host = new URL(url).host;
+      calls.push(host);
+      const handler = handlers[host];
+      if (!handler) throw new TypeError("fetch failed");
+      return handler(calls.filter((h) => h === host).length, init);
+    };
+  }
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    originalFetch = globalThis.fetch;
+    for (const key of ["GEMINI_API_KEY", "GOOGLE_AI_API_KEY", "OPENAI_API_KEY", "ANTHROPIC_API_KEY", "OPENAI_COMPATIBLE_BASE_URL"]) {
+      delete process.env[key];
+    }
+    process.env.GEMINI_API_KEY = "g";
+    process.env.OPENAI_API_KEY = "o";
+    calls = [];
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should retry 503 and 429 responses, honoring Retry-After", async () => {
+    stubFetch({
+      "generativelanguage.googleapis.com": (n) =>
+        n === 1 ? json({ error: "busy" }, 503) : n === 2 ? json({}, 429, { "Retry-After": "0" }) : geminiOk(),
+    });
+    const r = await mod.callLlm("sys", "hi", { retryDelayMs: 1 });
+    assert.equal(r.text, "gemini reply");
+    assert.equal(r.failovers, undefined);
+    assert.equal(calls.length, 3);
+  });
+
+  it("should not retry client errors", async () => {
+    stubFetch({ "generativelanguage.googleapis.com": () => json({ error: "bad key" }, 401) });
+    await assert.rejects(mod.callLlm("sys", "hi", { provider: "gemini", retryDelayMs: 1 }), /Gemini API error \(401\)/);
+    assert.equal(calls.length, 1);
+  });
+
+  it("should abort requests that exceed the timeout", async () => {
+    globalThis.fetch = (url, init) => {
+      calls.push(url);
+      return new Promise((_, reject) => init.signal.addEventListener("abort", () => reject(new Error("aborted"))));
+    };
+    await assert.rejects(
+      mod.callLlm("sys", "hi", { provider: "gemini", timeoutMs: 20, retries: 1, retryDelayMs: 1 }),
+      /Gemini API request timed out after 20ms/,
+    );
+    assert.equal(calls.length, 2);
+  });
+
+  it("should fail over to the next configured provider and record the switch", async () => {
+    stubFetch({
+      "generativelanguage.googleapis.com": () => json({ error: "down" }, 500),
+      "api.openai.com": openaiOk,
+    });
+    const r = await mod.callLlm("sys", "hi", { retries: 0 });
+    assert.deepEqual([r.text, r.provider, r.model], ["openai reply", "openai", "gpt-5"]);
+    assert.equal(r.failovers.length, 1);
+    assert.equal(r.failovers[0].provider, "gemini");
+    assert.match(r.failovers[0].error, /\(500\)/);
+  });
+
+  it("should not fail over from a pinned provider unless asked", async () => {
+    stubFetch({
+      "generativelanguage.googleapis.com": () => json({ error: "down" }, 500),
+      "api.openai.com": openaiOk,
+    });
+    await assert.rejects(mod.callLlm("sys", "hi", { provider: "gemini", retries: 0 }), /\(500\)/);
+    const r = await mod.callLlm("sys", "hi", { provider: "gemini", fallback: ["openai"], retries: 0 });
+    assert.equal(r.provider, "openai");
+  });
+
+  it("should keep a self-hosted primary off cloud providers by default", async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://127.0.0.1:9/v1";
+    stubFetch({ "api.openai.com": openaiOk });
+    await assert.rejects(mod.callLlm("sys", "hi", { model: "llama", retries: 0 }), /OpenAI-compatible endpoint/);
+    assert.ok(!calls.includes("api.openai.com"));
+  });
+
+  it("should report every provider when all fail", async () => {
+    stubFetch({});
+    await assert.rejects(mod.callLlm("sys", "hi", { retries: 0 }), /All providers failed:[\s\S]*gemini[\s\S]*openai/);
+  });
+
+  it("should surface failovers in the agent trace", async () => {
+    stubFetch({
+      "generativelanguage.googleapis.com": () => json({ error: "down" }, 503),
+      "api.openai.com": () => json({ choices: [{ message: { content: "Thought: done\nFinal Answer: ok" } }] }),
+    });
+    const result = await mod.runAgent({ goal: "g", tools: [], llm: { retries: 0 } });
+    assert.equal(result.finalAnswer, "ok");
+    assert.equal(result.provider, "openai");
+    assert.deepEqual(result.failovers.map((f) => [f.step, f.provider]), [[1, "gemini"]]);
+    assert.match(mod.formatAgentResult(result), /Provider Failovers:\n    Step 1: gemini/);
+  });
+
+  it("should parse retries, timeout and fallback settings", () => {
+    assert.deepEqual(
+      mod.resolveLlmOptions({ fallback: ["anthropic"], timeoutMs: 5000 }, "polish", { retries: "4", timeout: "30" }),
+      { fallback: ["anthropic"], timeoutMs: 30000, retries: 4 },
+    );
+    assert.deepEqual(mod.resolveLlmOptions({}, "polish", { fallback: "none" }), { fallback: [] });
+    assert.throws(() => mod.resolveLlmOptions({}, "polish", { fallback: "gemini,bogus" }), /unknown fallback provider bogus/);
+    assert.throws(() => mod.validateConfig({ retries: -1 }), /retries/);
+  });
+});
+
+describe("usage and cost", () => {
+  let originalEnv;
+  let originalFetch;
+  let replies;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    originalFetch = globalThis.fetch;
+    for (const key of ["GOOGLE_AI_API_KEY", "OPENAI_API_KEY", "ANTHROPIC_API_KEY", "OPENAI_COMPATIBLE_BASE_URL"]) {
+      delete process.env[key];
+    }
+    process.env.GEMINI_API_KEY = "g";
+    // Gemini replies (text or a part object) in order, each reporting 1000 input and 100 output tokens.
+    replies = [];
+    globalThis.fetch = async () => new Response(JSON.stringify({
+      candidates: [{ content: { parts: [((r) => (typeof r === "object" ? r : { text: r }))(replies.shift() ?? "done")] } }],
+      usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 80, thoughtsTokenCount: 20 },
+    }));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should report usage and estimated cost per call", async () => {
+    const r = await mod.callLlm("sys", "hi");
+    assert.deepEqual(r.usage, { inputTokens: 1000, outputTokens: 100 });
+    // gemini-3-flash-preview: $0.50 in / $3 out per million tokens
+    assert.equal(r.cost, (1000 * 0.5 + 100 * 3) / 1e6);
+  });
+
+  it("should price dated snapshots by prefix and honor overrides", () => {
+    assert.deepEqual(mod.findPrice("claude-sonnet-4-5-20250929"), { input: 3, output: 15 });
+    assert.deepEqual(mod.findPrice("gpt-5-mini"), { input: 0.25, output: 2 });
+    assert.equal(mod.findPrice("llama3.1:70b"), null);
+    assert.deepEqual(mod.findPrice("llama3.1:70b", { llama: { input: 0, output: 0 } }), { input: 0, output: 0 });
+  });
+
+  it("should total usage across the loop and tool sub-calls", async () => {
+    replies.push({ functionCall: { name: "ask", args: { input: "x" } } }, "tool reply", "done");
+    const tools = [{ name: "ask", description: "d", execute: async (input) => (await mod.callLlm("s", input)).text }];
+    const result = await mod.runAgent({ goal: "g", tools });
+    assert.deepEqual(result.usage, { inputTokens: 3000, outputTokens: 300 });
+    assert.ok(Math.abs(result.cost - 3 * 0.0008) < 1e-12);
+    assert.match(mod.formatAgentResult(result), /Tokens: 3000 in \/ 300 out \| Cost: ~\$0\.0024/);
+  });
+
+  it("should stop before a call that would exceed the budget", async () => {
+    replies.push({ functionCall: { name: "none", args: { input: "x" } } });
+    await assert.rejects(
+      // The goal alone is ~1000 tokens ($0.0005) of input per call.
+      mod.runAgent({ goal: "x".repeat(4000), tools: [], llm: { budget: 0.001 } }),
+      /Budget of \$0\.0010 reached: \$0\.0008 spent, the next gemini-3-flash-preview call/,
+    );
+  });
+
+  it("should require a price to enforce a budget", async () => {
+    await assert.rejects(
+      mod.runAgent({ goal: "g", tools: [], llm: { model: "gemini-unpriced", budget: 1 } }),
+      /No price known for model "gemini-unpriced"/,
+    );
+  });
+
+  it("should read budget and prices from config and flags", () => {
+    const config = mod.validateConfig({ budget: 2, prices: { "my-model": { input: 1, output: 2 } } });
+    assert.deepEqual(mod.resolveLlmOptions(config, "polish", { budget: "$0.25" }), {
+      budget: 0.25, prices: { "my-model": { input: 1, output: 2 } },
+    });
+    assert.throws(() => mod.validateConfig({ prices: { m: { input: "1" } } }), /"prices" must map/);
+    assert.throws(() => mod.resolveLlmOptions({}, "polish", { budget: "0" }), /budget must be a positive/);
+  });
+});
+
+describe("streaming", () => {
+  let originalEnv;
+  let originalFetch;
+  let bodies;
+
+  /** Serve `events` as an SSE stream, split mid-event to exercise buffering. */
+  function stubSse(events) {
+    globalThis.fetch = async (url, init) => {
+      bodies.push({ url, body: JSON.parse(init.body) });
+      const raw = events.map((e) => `data: ${typeof e === "string" ? e : JSON.stringify(e)}\n\n`).join("");
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream({
+        start(controller) {
+          for (let i = 0; i < raw.length; i += 7) controller.enqueue(encoder.encode(raw.slice(i, i + 7)));
+          controller.close();
+        },
+      });
+      return new Response(stream, { headers: { "Content-Type": "text/event-stream" } });
+    };
+  }
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    originalFetch = globalThis.fetch;
+    for (const key of ["GEMINI_API_KEY", "GOOGLE_AI_API_KEY", "OPENAI_API_KEY", "ANTHROPIC_API_KEY", "OPENAI_COMPATIBLE_BASE_URL"]) {
+      delete process.env[key];
+    }
+    bodies = [];
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should stream OpenAI deltas and usage", async () => {
+    process.env.OPENAI_API_KEY = "o";
+    stubSse([
+      { choices: [{ delta: { content: "Hel" } }] },
+      { choices: [{ delta: { content: "lo" } }] },
+      { choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } },
+      "[DONE]",
+    ]);
+    const deltas = [];
+    const r = await mod.callLlm("sys", "hi", { onToken: (d) => deltas.push(d) });
+    assert.deepEqual(deltas, ["Hel", "lo"]);
+    assert.equal(r.text, "Hello");
+    assert.deepEqual(r.usage, { inputTokens: 5, outputTokens: 2 });
+    assert.equal(bodies[0].body.stream, true);
+  });
+
+  it("should stream Anthropic text deltas", async () => {
+    process.env.ANTHROPIC_API_KEY = "a";
+    stubSse([
+      { type: "message_start", message: { usage: { input_tokens: 7 } } },
+      { type: "content_block_delta", delta: { type: "text_delta", text: "Hi " } },
+      { type: "content_block_delta", delta: { type: "text_delta", text: "there" } },
+      { type: "message_delta", usage: { output_tokens: 3 } },
+      { type: "message_stop" },
+    ]);
+    const r = await mod.callLlm("sys", "hi", { onToken: () => {} });
+    assert.equal(r.text, "Hi there");
+    assert.deepEqual(r.usage, { inputTokens: 7, outputTokens: 3 });
+  });
+
+  it("should use streamGenerateContent for Gemini", async () => {
+    process.env.GEMINI_API_KEY = "g";
+    stubSse([
+      { candidates: [{ content: { parts: [{ text: "Gem" }] } }] },
+      { candidates: [{ content: { parts: [{ text: "ini" }] } }], usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2 } },
+    ]);
+    const r = await mod.callLlm("sys", "hi", { onToken: () => {} });
+    assert.equal(r.text, "Gemini");
+    assert.match(bodies[0].url, /:streamGenerateContent\?alt=sse&/);
+    assert.deepEqual(r.usage, { inputTokens: 4, outputTokens: 2 });
+  });
+
+  it("should emit step, token, action and observation events from runAgent", async () => {
+    process.env.OPENAI_API_KEY = "o";
+    // A streamed tool call whose JSON arguments are split across chunks, then the answer.
+    const replies = [
+      [
+        { choices: [{ delta: { content: "look", tool_calls: [{ index: 0, id: "c1", function: { name: "echo", arguments: '{"inp' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ut":"x"}' } }] } }] },
+      ],
+      [{ choices: [{ delta: { content: "done" } }] }],
+    ];
+    globalThis.fetch = async () => {
+      const raw = replies.shift().map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") + "data: [DONE]\n\n";
+      return new Response(raw);
+    };
+    const events = [];
+    const tools = [{ name: "echo", description: "d", execute: async (input) => `got ${input}` }];
+    const result = await mod.runAgent({ goal: "g", tools, onEvent: (e) => events.push(e) });
+    assert.equal(result.finalAnswer, "done");
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ["step_start", "token", "thought", "action", "observation", "step_start", "token", "final_answer"],
+    );
+    assert.deepEqual(events[4], { type: "observation", step: 1, action: "echo", observation: "got x" });
+    assert.equal(events[5].step, 2);
+  });
+
+  it("should announce a stream reset when a reply fails partway and fails over", async () => {
+    process.env.OPENAI_API_KEY = "o";
+    process.env.ANTHROPIC_API_KEY = "a";
+    const encoder = new TextEncoder();
+    globalThis.fetch = async (url) => {
+      if (String(url).includes("anthropic")) {
+        const raw = [
+          { type: "content_block_delta", delta: { type: "text_delta", text: "Whole answer" } },
+          { type: "message_stop" },
+        ].map((e) => `data: ${JSON.stringify(e)}\n\n`).join("");
+        return new Response(raw);
+      }
+      let pulls = 0;
+      const stream = new ReadableStream({
+        pull(controller) {
+          if (pulls++ === 0) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: "Half an" } }] })}\n\n`));
+          } else {
+            controller.error(new Error("connection reset"));
+          }
+        },
+      });
+      return new Response(stream);
+    };
+    const events = [];
+    const result = await mod.runAgent({ goal: "g", tools: [], llm: { retries: 0 }, onEvent: (e) => events.push(e) });
+    assert.equal(result.finalAnswer, "Whole answer");
+    const streamed = events.filter((e) => e.type === "token" || e.type === "stream_reset");
+    assert.deepEqual(streamed.map((e) => e.delta ?? e.type), ["Half an", "stream_reset", "Whole answer"]);
+    assert.equal(streamed[1].provider, "openai");
+
+    let out = "";
+    const report = mod.createProgressReporter({ write: (s) => (out += s) }, { tokens: true });
+    streamed.forEach(report);
+    assert.match(out, /^Half an\n\n  \[openai failed mid-reply \(.*connection reset.*\); the reply restarts from the next provider\]\nWhole answer$/);
+  });
+
+  it("should render progress lines", () => {
+    let out = "";
+    const report = mod.createProgressReporter({ write: (s) => (out += s) }, { tokens: true });
+    report({ type: "step_start", step: 1 });
+    report({ type: "token", step: 1, delta: "Thought: hm" });
+    report({ type: "observation", step: 1, action: "word_count", observation: "12" });
+    assert.equal(out, "  Step 1: thinking...\nThought: hm\n    word_count returned 2 chars\n");
+  });
+});
+
+describe("native tool calling", () => {
+  let originalEnv;
+  let originalFetch;
+  let requests;
+  let responses;
+
+  const echo = { name: "echo", description: "Echo the input", execute: async (input) => `got ${input}` };
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    originalFetch = globalThis.fetch;
+    for (const key of ["GEMINI_API_KEY", "GOOGLE_AI_API_KEY", "OPENAI_API_KEY", "ANTHROPIC_API_KEY", "OPENAI_COMPATIBLE_BASE_URL"]) {
+      delete process.env[key];
+    }
+    requests = [];
+    responses = [];
+    globalThis.fetch = async (url, init) => {
+      requests.push({ url, body: JSON.parse(init.body) });
+      return new Response(JSON.stringify(responses.shift()));
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should send OpenAI tools and replay calls as tool messages", async () => {
+    process.env.OPENAI_API_KEY = "o";
+    responses.push(
+      { choices: [{ message: { content: null, tool_calls: [{ id: "c1", type: "function", function: { name: "echo", arguments: '{"input":"hi"}' } }] } }] },
+      { choices: [{ message: { content: "all done" } }] },
+    );
+    const result = await mod.runAgent({ goal: "g", tools: [echo] });
+    assert.equal(result.finalAnswer, "all done");
+    assert.deepEqual(result.steps.map((s) => [s.action, s.actionInput, s.observation]), [["echo", "hi", "got hi"]]);
+    assert.deepEqual(requests[0].body.tools[0].function.parameters.required, ["input"]);
+    assert.doesNotMatch(requests[0].body.messages[0].content, /Action Input:/);
+    assert.deepEqual(requests[1].body.messages.slice(2), [
+      { role: "assistant", content: null, tool_calls: [{ id: "c1", type: "function", function: { name: "echo", arguments: '{"input":"hi"}' } }] },
+      { role: "tool", tool_call_id: "c1", content: "got hi" },
+    ]);
+  });
+
+  it("should map Anthropic tool_use and tool_result blocks", async () => {
+    process.env.ANTHROPIC_API_KEY = "a";
+    responses.push(
+      { content: [{ type: "text", text: "Checking." }, { type: "tool_use", id: "tu1", name: "echo", input: { input: "x" } }] },
+      { content: [{ type: "text", text: "Final Answer: done" }] },
+    );
+    const result = await mod.runAgent({ goal: "g", tools: [echo] });
+    assert.equal(result.finalAnswer, "done");
+    assert.equal(result.steps[0].thought, "Checking.");
+    assert.equal(requests[0].body.tools[0].input_schema.type, "object");
+    assert.deepEqual(requests[1].body.messages.slice(1), [
+      { role: "assistant", content: [{ type: "text", text: "Checking." }, { type: "tool_use", id: "tu1", name: "echo", input: { input: "x" } }] },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "tu1", content: "got x" }] },
+    ]);
+  });
+
+  it("should round-trip Gemini function calls with their thought signature", async () => {
+    process.env.GEMINI_API_KEY = "g";
+    responses.push(
+      { candidates: [{ content: { parts: [{ functionCall: { name: "echo", args: { input: "x" } }, thoughtSignature: "sig" }] } }] },
+      { candidates: [{ content: { parts: [{ text: "done" }] } }] },
+    );
+    await mod.runAgent({ goal: "g", tools: [echo] });
+    assert.equal(requests[0].body.tools[0].functionDeclarations[0].name, "echo");
+    assert.deepEqual(requests[1].body.contents.slice(1), [
+      { role: "model", parts: [{ functionCall: { name: "echo", args: { input: "x" } }, thoughtSignature: "sig" }] },
+      { role: "user", parts: [{ functionResponse: { name: "echo", response: { content: "got x" } } }] },
+    ]);
+  });
+
+  it("should pass all arguments to tools with their own schema", async () => {
+    process.env.OPENAI_API_KEY = "o";
+    let received;
+    const tool = {
+      name: "count",
+      description: "Count words",
+      inputSchema: { type: "object", properties: { text: { type: "string" }, limit: { type: "number" } } },
+      execute: async (input, args) => { received = [input, args]; return "ok"; },
+    };
+    responses.push(
+      { choices: [{ message: { tool_calls: [{ id: "c1", function: { name: "count", arguments: '{"text":"a b","limit":3}' } }] } }] },
+      { choices: [{ message: { content: "done" } }] },
+    );
+    await mod.runAgent({ goal: "g", tools: [tool] });
+    assert.deepEqual(received, ['{"text":"a b","limit":3}', { text: "a b", limit: 3 }]);
+    assert.deepEqual(requests[0].body.tools[0].function.parameters, tool.inputSchema);
+  });
+
+  it("should declare typed schemas for the structured tools and deliver typed arguments", async () => {
+    process.env.OPENAI_API_KEY = "o";
+    const paper = "\\section{Method}\nWe use a gate.\n\n\\section{Experiments}\nThe ablation removes the gate.\n";
+    const tools = [...mod.createRebuttalTools(paper, 100), ...mod.createPolishTools()];
+    const call = (id, name, args) => ({ id, function: { name, arguments: JSON.stringify(args) } });
+    responses.push(
+      { choices: [{ message: { tool_calls: [
+        call("c1", "find_evidence", { concern: "Is there an ablation of the gate?", max: 1 }),
+        call("c2", "word_count", { text: "one two three" }),
+      ] } }] },
+      { choices: [{ message: { content: "done" } }] },
+    );
+    const result = await mod.runAgent({ goal: "g", tools });
+    assert.deepEqual(JSON.parse(result.steps[0].observation).passages.map((p) => p.line), [5]);
+    assert.equal(result.steps[1].observation, "Word count: 3");
+
+    const declared = Object.fromEntries(requests[0].body.tools.map((t) => [t.function.name, t.function.parameters]));
+    assert.deepEqual(declared.find_evidence.required, ["concern"]);
+    assert.equal(declared.classify_concerns.properties.concerns.type, "array");
+    assert.deepEqual(declared.draft_response.properties.concerns.items.properties.category.enum, mod.CONCERN_CATEGORIES);
+    const review = mod.createReviewTools({ venue: "ICML" }).find((t) => t.name === "draft_review");
+    assert.deepEqual(review.inputSchema.required, ["summary", "weaknesses"]);
+    const numbers = mod.createLogicTools().find((t) => t.name === "check_numbers");
+    assert.deepEqual(numbers.inputSchema.required, ["text"]);
+    // The text format still passes plain text, LaTeX braces and all.
+    const count = mod.createPolishTools().find((t) => t.name === "word_count");
+    assert.equal(await count.execute("{Two} words"), "Word count: 2");
+    assert.equal(await count.execute('{"text": "a b c"}'), "Word count: 3");
+  });
+
+  it("should forbid further calls when forcing the final answer", async () => {
+    process.env.OPENAI_API_KEY = "o";
+    const call = { choices: [{ message: { tool_calls: [{ id: "c1", function: { name: "echo", arguments: '{"input":"x"}' } }] } }] };
+    responses.push(call, { choices: [{ message: { content: "forced" } }] });
+    const result = await mod.runAgent({ goal: "g", tools: [echo], maxSteps: 1 });
+    assert.equal(result.finalAnswer, "forced");
+    assert.equal(requests[1].body.tool_choice, "none");
+  });
+
+  it("should fall back to the text format for openai-compatible servers", async () => {
+    process.env.OPENAI_COMPATIBLE_BASE_URL = "http://127.0.0.1:1/v1";
+    responses.push({ choices: [{ message: { content: "Final Answer: plain" } }] });
+    const result = await mod.runAgent({ goal: "g", tools: [echo], llm: { model: "llama" } });
+    assert.equal(result.finalAnswer, "plain");
+    assert.equal(requests[0].body.tools, undefined);
+    assert.match(requests[0].body.messages[0].content, /Action Input:/);
+    assert.equal(mod.supportsNativeTools({ model: "llama" }), false);
+    assert.equal(mod.supportsNativeTools({ model: "llama", nativeTools: true }), true);
+  });
+});
+
+/**
+ * Run every test of the calling suite offline: provider keys and the mock
+ * and record settings are cleared, fetch throws, and `env.tmpDir` is a fresh
+ * scratch directory. The environment and fetch are restored after each test.
+ */
+function useOfflineEnv() {
+  const env = { tmpDir: "" };
+  let originalEnv;
+  let originalFetch;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    originalFetch = globalThis.fetch;
+    for (const key of ["GEMINI_API_KEY", "GOOGLE_AI_API_KEY", "OPENAI_API_KEY", "ANTHROPIC_API_KEY", "OPENAI_COMPATIBLE_BASE_URL", "AIRWRITER_MOCK", "AIRWRITER_RECORD"]) {
+      delete process.env[key];
+    }
+    globalThis.fetch = async () => { throw new Error("network disabled in offline tests"); };
+    env.tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "airwriter-mock-"));
+    mod.resetMockReplay();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    globalThis.fetch = originalFetch;
+    fs.rmSync(env.tmpDir, { recursive: true, force: true });
+  });
+
+  return env;
+}
+
+describe("mock provider", () => {
+  const env = useOfflineEnv();
+
+  it("should be selected by AIRWRITER_MOCK and run the full polish pipeline offline", async () => {
+    process.env.AIRWRITER_MOCK = "echo";
+    const text = "We prove $x^2 \\geq 0$ as in \\cite{knuth}.\n";
+    const result = await mod.polish(text);
+    assert.equal(result.provider, "mock");
+    assert.equal(result.finalAnswer, text.trim());
+    assert.equal(result.steps[0].action, "analyze_issues");
+    assert.equal(result.cost, 0);
+  });
+
+  it("should round-trip an unchanged multi-chunk document byte for byte", async () => {
+    process.env.AIRWRITER_MOCK = "echo";
+    const text = `\\section{A}\n${"Alpha $x$ beta.  \n".repeat(800)}\n\\section{B}\n${"Gamma delta.\n".repeat(900)}\n`;
+    for (const protectLatex of [true, false]) {
+      const result = await mod.polish(text, { protectLatex });
+      assert.ok(result.chunks > 1);
+      assert.equal(result.text, text);
+      assert.equal(mod.toJsonResult(result).finalText, text);
+    }
+  });
+
+  it("should be selectable with --provider mock and drive the text format too", async () => {
+    const result = await mod.runAgent({
+      goal: "Check this.\n\nText:\nHello world.",
+      tools: [{ name: "word_count", description: "Count", execute: async (input) => String(input.split(/\s+/).length) }],
+      llm: { provider: "mock", nativeTools: false },
+    });
+    assert.deepEqual(result.steps.map((s) => [s.action, s.observation]), [["word_count", "2"]]);
+    assert.equal(result.finalAnswer, "Hello world.");
+  });
+
+  it("should replay scripted fixture responses in order", async () => {
+    const fixture = path.join(env.tmpDir, "script.json");
+    fs.writeFileSync(fixture, JSON.stringify({ responses: [{ text: "first" }, { text: "second" }] }));
+    process.env.AIRWRITER_MOCK = fixture;
+    assert.equal((await mod.callLlm("s", "a")).text, "first");
+    assert.equal((await mod.callLlm("s", "b")).text, "second");
+    await assert.rejects(mod.callLlm("s", "c"), /no response left/);
+  });
+
+  it("should never fail over from the mock to a cloud provider", async () => {
+    const fixture = path.join(env.tmpDir, "empty.json");
+    fs.writeFileSync(fixture, JSON.stringify({ responses: [] }));
+    process.env.AIRWRITER_MOCK = fixture;
+    process.env.ANTHROPIC_API_KEY = "a";
+    let fetched = 0;
+    globalThis.fetch = async () => { fetched++; throw new Error("network disabled in mock tests"); };
+    await assert.rejects(mod.callLlm("s", "manuscript"), /no response left/);
+    assert.equal(fetched, 0);
+  });
+
+  it("should draft one review from the findings on every part of a long paper", async () => {
+    const calls = [];
+    globalThis.fetch = async (_url, init) => {
+      const body = JSON.parse(init.body);
+      calls.push({ goal: body.messages.find((m) => m.role === "user").content, tools: body.tools.map((t) => t.function.name) });
+      const content = calls.length === 1 ? "Findings A." : calls.length === 2 ? "Findings B." : "Overall: 6/10. One review.";
+      return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+    };
+    process.env.OPENAI_API_KEY = "o";
+    const text = `\\title{Trees}\n\\section{A}\n${"Alpha beta gamma. ".repeat(500)}\n\\section{B}\n${"Delta epsilon. ".repeat(500)}\n`;
+    const result = await mod.review(text, { venue: "NeurIPS", llm: { provider: "openai" } });
+    assert.equal(result.chunks, calls.length - 1);
+    assert.ok(calls.slice(0, -1).every((c) => !c.tools.includes("draft_review")));
+    assert.deepEqual(calls.at(-1).tools, ["draft_review"]);
+    assert.match(calls.at(-1).goal, /^Goal: Paper title: Trees\n[\s\S]*Findings:\nFindings A\.\n\nFindings B\.\n/);
+    assert.equal(result.finalAnswer, "Overall: 6/10. One review.");
+    assert.equal(result.text, undefined);
+
+    calls.length = 0;
+    const analysis = await mod.analyze(text, { venue: "NeurIPS", llm: { provider: "openai" } });
+    assert.equal(analysis.chunks, calls.length - 1);
+    assert.ok(calls.slice(0, -1).every((c) => !c.tools.includes("score_paper") && !c.tools.includes("check_venue")));
+    assert.deepEqual(calls.at(-1).tools, ["score_paper", "check_venue"]);
+    assert.equal(analysis.finalAnswer, "Overall: 6/10. One review.");
+  });
+
+  it("should record a real session and replay it by request fingerprint", async () => {
+    const fixture = path.join(env.tmpDir, "session.json");
+    const replies = [
+      { choices: [{ message: { tool_calls: [{ id: "c1", function: { name: "echo", arguments: '{"input":"x"}' } }] } }] },
+      { choices: [{ message: { content: "recorded answer" } }] },
+    ];
+    globalThis.fetch = async () => new Response(JSON.stringify(replies.shift()));
+    process.env.OPENAI_API_KEY = "o";
+    process.env.AIRWRITER_RECORD = fixture;
+    const echo = { name: "echo", description: "Echo", execute: async (input) => `got ${input}` };
+    const live = await mod.runAgent({ goal: "g", tools: [echo] });
+
+    const saved = JSON.parse(fs.readFileSync(fixture, "utf-8"));
+    assert.equal(saved.responses.length, 2);
+    assert.equal(saved.responses[0].provider, "openai");
+    assert.match(saved.responses[0].match, /^[0-9a-f]{16}$/);
+
+    delete process.env.AIRWRITER_RECORD;
+    globalThis.fetch = async () => { throw new Error("network disabled"); };
+    process.env.AIRWRITER_MOCK = fixture;
+    const replayed = await mod.runAgent({ goal: "g", tools: [echo] });
+    assert.equal(replayed.provider, "mock");
+    assert.equal(replayed.finalAnswer, live.finalAnswer);
+    assert.deepEqual(replayed.steps, live.steps);
+  });
+});
+
+// ============================================================================
+// Length targets (compress / expand)
+// ============================================================================
+
+describe("length targets", () => {
+  const env = useOfflineEnv();
+
+  it("should re-run compress on its own output until the word count is within tolerance", async () => {
+    const fixture = path.join(env.tmpDir, "compress.json");
+    const rounds = ["one two three four five six seven eight nine ten eleven twelve.", "one two three four five six seven eight."];
+    fs.writeFileSync(fixture, JSON.stringify({ responses: rounds.map((text) => ({ text: `Part 1 [Compressed Text]:\n${text}\nPart 2 [Compression Stats]: -` })) }));
+    process.env.AIRWRITER_MOCK = fixture;
+    const text = "a1 a2 a3 a4 a5 a6 a7 a8 a9 a10 a11 a12 a13 a14 a15 $x$ a16.";
+    const events = [];
+    const result = await mod.compress(text, { targetWords: 8, tolerance: 0.1, protectLatex: false, onEvent: (e) => events.push(e) });
+    assert.deepEqual(result.wordCount, { before: 16, after: 8, target: 8, min: 8, max: 8, rounds: 2, converged: true });
+    assert.equal(mod.extractFinalText(result.finalAnswer), rounds[1]);
+    assert.deepEqual(events.filter((e) => e.type === "round"), [{ type: "round", round: 2, words: 12, target: 8 }]);
+    assert.match(mod.formatResult(result), /Words: 16 -> 8 \(target 8, accepted 8-8\)/);
+  });
+
+  it("should reject contradictory or already-met length targets", async () => {
+    process.env.AIRWRITER_MOCK = "echo";
+    const text = "one two three four five six seven eight nine ten.";
+    await assert.rejects(mod.compress(text, { words: 2, percent: 10 }), /only one of/);
+    await assert.rejects(mod.compress(text, { maxWords: 20 }), /already within the 20-word target/);
+    await assert.rejects(mod.expand(text, { targetWords: 5 }), /nothing to expand/);
+    const capped = await mod.compress(text, { percent: 50, maxWords: 4, maxRounds: 1 });
+    assert.deepEqual([capped.wordCount.target, capped.wordCount.max, capped.wordCount.converged], [4, 4, false]);
+  });
+
+  it("should split a --max-words cap between chunks in proportion to their length", async () => {
+    const goals = [];
+    globalThis.fetch = async (_url, init) => {
+      const user = JSON.parse(init.body).messages.find((m) => m.role === "user");
+      goals.push(user.content);
+      return new Response(JSON.stringify({ choices: [{ message: { content: "Final Answer: short." } }] }));
+    };
+    process.env.OPENAI_API_KEY = "o";
+    const text = `\\section{A}\n${"alpha beta gamma delta. ".repeat(2000)}\n\\section{B}\n${"epsilon zeta. ".repeat(2000)}\n`;
+    await mod.compress(text, { maxWords: 6000, maxRounds: 1, protectLatex: false, llm: { provider: "openai", nativeTools: false } });
+    const caps = goals
+      .map((g) => [Number(g.match(/from (\d+) to/)[1]), g.match(/Never exceed (\d+) words\./)])
+      .filter(([words]) => words > 0)
+      .map(([words, cap]) => [words, Number(cap[1])]);
+    assert.ok(caps.length > 1);
+    const before = mod.wordCount(text);
+    for (const [words, cap] of caps) assert.equal(cap, Math.max(1, Math.floor((words * 6000) / before)));
+    assert.ok(caps.reduce((sum, [, cap]) => sum + cap, 0) <= 6000);
+  });
+});
+
+// ============================================================================
+// Saved runs (--resume)
+// ============================================================================
+
+describe("saved runs", () => {
+  const env = useOfflineEnv();
+
+  it("should save a failed run and resume it from the last completed step", async () => {
+    const fixture = path.join(env.tmpDir, "fixture.json");
+    const runsDir = path.join(env.tmpDir, "runs");
+    fs.writeFileSync(fixture, JSON.stringify({
+      responses: [{ text: "Thought: Count first.\nAction: word_count\nAction Input: Hello world." }],
+    }));
+    process.env.AIRWRITER_MOCK = fixture;
+    let counted = 0;
+    const options = {
+      goal: "Check this.",
+      tools: [{ name: "word_count", description: "Count", execute: async () => String(++counted) }],
+      llm: { nativeTools: false },
+    };
+
+    const run = mod.createRun("check-logic", ["paper.tex"]);
+    await assert.rejects(
+      mod.recordTranscripts(mod.createRunRecorder(run, runsDir), () => mod.runAgent(options)),
+      /no response left/,
+    );
+    const saved = mod.loadRun(run.id.slice(0, 18), runsDir);
+    assert.equal(saved.agents.length, 1);
+    assert.equal(saved.agents[0].steps.length, 1);
+    assert.equal(saved.agents[0].provider, "mock");
+    assert.match(saved.agents[0].error, /no response left/);
+
+    fs.writeFileSync(fixture, JSON.stringify({ responses: [{ text: "Final Answer: Fine." }] }));
+    mod.resetMockReplay();
+    const resumed = await mod.recordTranscripts(mod.createRunRecorder(saved, runsDir), () => mod.runAgent(options));
+    assert.equal(resumed.finalAnswer, "Fine.");
+    assert.deepEqual(resumed.steps.map((s) => s.observation), ["1"]);
+    assert.equal(counted, 1);
+
+    // A finished loop is replayed from the record without calling the model.
+    const replayed = await mod.recordTranscripts(
+      mod.createRunRecorder(mod.loadRun(run.id, runsDir), runsDir),
+      () => mod.runAgent(options),
+    );
+    assert.equal(replayed.finalAnswer, "Fine.");
+    assert.equal(mod.listRuns(runsDir).length, 1);
+    assert.match(mod.formatRunList(mod.listRuns(runsDir)), /check-logic paper\.tex$/);
+    assert.throws(() => mod.createRunRecorder(saved, runsDir).start({ ...saved.agents[0], goal: "Other." }), /has changed/);
+  });
+});
+
+describe("project config", () => {
+  const config = {
+    provider: "gemini",
+    temperature: 0.2,
+    commands: {
+      analyze: { model: "gemini-3-flash-preview" },
+      review: { provider: "anthropic", maxTokens: 8192 },
+    },
+  };
+
+  it("should layer flags over command over global settings", () => {
+    assert.deepEqual(mod.resolveLlmOptions(config, "analyze"), {
+      provider: "gemini", temperature: 0.2, model: "gemini-3-flash-preview",
+    });
+    assert.deepEqual(mod.resolveLlmOptions(config, "review", { temperature: "0.7" }), {
+      provider: "anthropic", temperature: 0.7, maxTokens: 8192,
+    });
+    assert.equal(mod.resolveLlmOptions(config, "polish", { "max-tokens": "2048" }).maxTokens, 2048);
+  });
+
+  it("should reject invalid values", () => {
+    assert.throws(() => mod.validateConfig({ provider: "cohere" }), /provider/);
+    assert.throws(() => mod.validateConfig({ commands: { review: { temperature: 5 } } }), /commands\.review: temperature/);
+    assert.throws(() => mod.resolveLlmOptions({}, "polish", { "max-tokens": "lots" }), /--max-tokens/);
+  });
+
+  it("should find the nearest .airwriterrc.json walking up", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "airw-config-"));
+    const nested = path.join(root, "paper", "sections");
+    fs.mkdirSync(nested, { recursive: true });
+    fs.writeFileSync(path.join(root, mod.CONFIG_FILENAME), JSON.stringify(config));
+    try {
+      assert.equal(mod.findConfigFile(nested), path.join(root, mod.CONFIG_FILENAME));
+      const loaded = mod.loadConfig(path.join(root, mod.CONFIG_FILENAME));
+      assert.equal(loaded.config.commands.review.provider, "anthropic");
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
 // ============================================================================
 // Prompt template validation tests
 // ============================================================================
@@ -306,6 +1184,968 @@ describe("Programmatic API exports", () => {
   });
 });
 
+// ============================================================================
+// Template rendering + template-driven tools
+// ============================================================================
+
+describe("renderPrompt", () => {
+  it("should return the template unchanged when no parameters are given", () => {
+    assert.equal(mod.renderPrompt("de-ai"), PROMPTS["de-ai"].systemPrompt);
+  });
+
+  it("should append provided parameters to the system prompt", () => {
+    const prompt = mod.renderPrompt("polish", { venue: "NeurIPS 2026", lang: "en" });
+    assert.ok(prompt.startsWith(PROMPTS.polish.systemPrompt));
+    assert.ok(prompt.includes("- venue: NeurIPS 2026"));
+    assert.ok(prompt.includes("- lang: en"));
+  });
+
+  it("should reject missing required fields", () => {
+    assert.throws(() => mod.renderPrompt("translate", { from: "zh" }), /missing required field\(s\): to/);
+  });
+
+  it("should reject fields the template does not accept", () => {
+    assert.throws(() => mod.renderPrompt("de-ai", { venue: "ICML" }), /does not accept field\(s\): venue/);
+  });
+
+  it("should throw for an unknown template", () => {
+    assert.throws(() => mod.renderPrompt("summarize"), /Unknown prompt template/);
+  });
+});
+
+describe("template-driven tool factories", () => {
+  it("should validate template fields when tools are created", () => {
+    assert.throws(() => mod.createReviewTools(), /missing required field\(s\): venue/);
+    assert.throws(() => mod.createTranslateTools({ to: "en" }), /from/);
+    assert.equal(mod.createReviewTools({ venue: "ICML 2026" }).length, 4);
+  });
+
+  it("should build caption tools from the caption template", () => {
+    const names = mod.createCaptionTools({ type: "figure" }).map((t) => t.name);
+    assert.deepEqual(names, ["generate_caption", "word_count"]);
+  });
+});
+
+// ============================================================================
+// Section-aware chunking tests
+// ============================================================================
+
+describe("chunkDocument", () => {
+  const doc = [
+    "\\title{Sparse Attention at Scale}",
+    "\\begin{abstract}We study large language models (LLMs).\\end{abstract}",
+    "\\section{Introduction}",
+    "Intro paragraph one.\n\nIntro paragraph two.",
+    "\\section{Methods}",
+    "Methods text.",
+    "# Results",
+    "Results text.",
+  ].join("\n");
+
+  it("should reproduce the document exactly when chunks are joined", () => {
+    const chunks = mod.chunkDocument(doc, { maxChars: 60 });
+    assert.ok(chunks.length > 1, "expected several chunks");
+    assert.equal(chunks.map((c) => c.text).join(""), doc);
+  });
+
+  it("should split at LaTeX and Markdown headings", () => {
+    const headings = mod.splitSections(doc).map((s) => s.heading);
+    assert.deepEqual(headings, [undefined, "Introduction", "Methods", "Results"]);
+  });
+
+  it("should keep a short document in one chunk", () => {
+    const chunks = mod.chunkDocument(doc);
+    assert.equal(chunks.length, 1);
+    assert.equal(chunks[0].text, doc);
+  });
+
+  it("should fall back to paragraph boundaries inside a long section", () => {
+    const long = "\\section{Long}\n" + Array.from({ length: 10 }, (_, i) => `Paragraph ${i} text.`).join("\n\n");
+    const chunks = mod.chunkDocument(long, { maxChars: 50 });
+    assert.ok(chunks.every((c) => c.text.length <= 50));
+    assert.ok(chunks.every((c) => c.heading === "Long"));
+    assert.equal(chunks.map((c) => c.text).join(""), long);
+  });
+
+  it("should extract title, abstract, and acronyms as shared context", () => {
+    const ctx = mod.extractDocumentContext(doc);
+    assert.equal(ctx.title, "Sparse Attention at Scale");
+    assert.equal(ctx.abstract, "We study large language models (LLMs).");
+    assert.equal(ctx.glossary.LLMs, "large language models");
+  });
+});
+
+// ============================================================================
+// Write-back: final text extraction + unified diff
+// ============================================================================
+
+describe("extractFinalText", () => {
+  it("should keep Part 1 and drop the modification log", () => {
+    const answer = "Part 1 [Polished Text]:\nWe use \\cite{a}.\n\nPart 2 [Modification Log]:\n1. Removed contraction.";
+    assert.equal(mod.extractFinalText(answer), "We use \\cite{a}.");
+  });
+
+  it("should keep every Part 1 block from a reassembled multi-chunk answer", () => {
+    const answer = "Part 1 [Polished Text]: One.\nPart 2 [Modification Log]: x\n\n**Part 1 [Polished Text]:**\nTwo.\nPart 2 [Modification Log]: y";
+    assert.equal(mod.extractFinalText(answer), "One.\n\nTwo.");
+  });
+
+  it("should return plain answers unchanged and unwrap code fences", () => {
+    assert.equal(mod.extractFinalText("  Just text.  "), "Just text.");
+    assert.equal(mod.extractFinalText("```latex\n\\section{A}\n```"), "\\section{A}");
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("should return an empty string for identical texts", () => {
+    assert.equal(mod.unifiedDiff("a\nb\n", "a\nb\n"), "");
+  });
+
+  it("should produce standard unified hunks", () => {
+    const diff = mod.unifiedDiff("a\nb\nc\n", "a\nB\nc\n", { fromFile: "a/x.tex", toFile: "b/x.tex" });
+    assert.equal(diff, "--- a/x.tex\n+++ b/x.tex\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n");
+  });
+
+  it("should mark a missing final newline", () => {
+    const diff = mod.unifiedDiff("a\n", "a\nb");
+    assert.ok(diff.includes("+b\n\\ No newline at end of file"));
+  });
+
+  it("should split distant changes into separate hunks", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n") + "\n";
+    const after = before.replace("line 1\n", "line one\n").replace("line 18\n", "line eighteen\n");
+    const hunks = mod.unifiedDiff(before, after).split("\n").filter((l) => l.startsWith("@@"));
+    assert.deepEqual(hunks, ["@@ -1,5 +1,5 @@", "@@ -16,5 +16,5 @@"]);
+  });
+});
+
+// ============================================================================
+// Structured output formats
+// ============================================================================
+
+describe("output formats", () => {
+  const result = {
+    steps: [
+      { thought: "Check issues", action: "analyze_issues", actionInput: "x", observation: '```json\n{"overallScore": 72, "issues": []}\n```' },
+      { thought: "Count", action: "word_count", actionInput: "x", observation: "Word count: 12" },
+    ],
+    finalAnswer: "Part 1 [Polished Text]:\nClean text.\nPart 2 [Modification Log]:\n1. Fixed.",
+    totalSteps: 2,
+    provider: "gemini",
+    model: "gemini-3-flash-preview",
+  };
+
+  it("should recover JSON wrapped in fences or prose", () => {
+    assert.deepEqual(mod.parseModelJson('Here you go: {"a": [1, "}"]} done'), { a: [1, "}"] });
+    assert.equal(mod.parseModelJson("no json here"), undefined);
+  });
+
+  it("should emit the full result with parsed tool JSON", () => {
+    const json = JSON.parse(mod.formatResult(result, "json"));
+    assert.equal(json.provider, "gemini");
+    assert.equal(json.model, "gemini-3-flash-preview");
+    assert.equal(json.totalSteps, 2);
+    assert.deepEqual(json.steps[0].data, { overallScore: 72, issues: [] });
+    assert.equal(json.steps[1].data, undefined);
+    assert.equal(json.finalText, "Clean text.");
+  });
+
+  it("should render markdown with the result before the trace", () => {
+    const md = mod.formatResult(result, "markdown");
+    assert.ok(md.startsWith("## Result"));
+    assert.ok(md.includes("### Step 1: `analyze_issues`"));
+    assert.ok(md.indexOf("## Result") < md.indexOf("## Agent Trace"));
+  });
+
+  it("should default to the text trace", () => {
+    assert.equal(mod.formatResult(result), mod.formatAgentResult(result));
+  });
+});
+
+// ============================================================================
+// LaTeX protection layer
+// ============================================================================
+
+describe("protectLatex / restoreLatex", () => {
+  const source = [
+    "As shown in \\citep[p.~3]{smith2023} and Fig.~\\ref{fig:main}, the loss $\\mathcal{L} = \\sum_i x_i$ drops.",
+    "\\begin{equation}\\label{eq:loss} y = f(x) \\end{equation}",
+    "Prices cost \\$5 and \\url{https://x.org} hosts \\verb|a_b| code.",
+  ].join("\n");
+
+  it("should hide math, citations, refs, and code behind placeholders", () => {
+    const { text, placeholders } = mod.protectLatex(source);
+    assert.ok(!text.includes("\\cite"), text);
+    assert.ok(!text.includes("\\ref"), text);
+    assert.ok(!text.includes("\\label"), text);
+    assert.ok(!text.includes("\\sum"), text);
+    assert.ok(!text.includes("a_b"), text);
+    assert.ok(text.includes("\\$5"), "escaped dollars are plain text");
+    assert.equal(Object.keys(placeholders).length, 6);
+  });
+
+  it("should round-trip exactly", () => {
+    const { text, placeholders } = mod.protectLatex(source);
+    assert.equal(mod.restoreLatex(text, placeholders, { strict: true }), source);
+  });
+
+  it("should fail loudly when a placeholder is dropped or duplicated", () => {
+    const { text, placeholders } = mod.protectLatex("See \\cite{a} and \\cite{b}.");
+    const [first, second] = Object.keys(placeholders);
+    assert.throws(
+      () => mod.restoreLatex(text.replace(second, ""), placeholders, { strict: true }),
+      /dropped .*\\cite\{b\}/,
+    );
+    assert.throws(
+      () => mod.restoreLatex(text + " " + first, placeholders, { strict: true }),
+      /duplicated .*\\cite\{a\}/,
+    );
+  });
+
+  it("should leave LaTeX quotes alone", () => {
+    const { text } = mod.protectLatex("We call it ``fast'' here.");
+    assert.equal(text, "We call it ``fast'' here.");
+  });
+});
+
+// ============================================================================
+// Local AI-signature scan
+// ============================================================================
+
+describe("scanAiSignatures", () => {
+  const source = [
+    "We leverage a comprehensive model $\\mathrm{delve}$ as in \\cite{leverage2020}.",
+    "Furthermore, it is worth noting that results improve. % we utilize comments freely",
+    "In the realm of vision, we are leveraging it.",
+  ].join("\n");
+
+  it("should report exact positions and skip math, citations and comments", () => {
+    const { findings, counts } = mod.scanAiSignatures(source);
+    const at = findings.map((f) => [f.type, f.match, f.line, f.column]);
+    assert.deepEqual(at, [
+      ["signature_word", "leverage", 1, 4],
+      ["signature_word", "comprehensive", 1, 15],
+      ["mechanical_connector", "Furthermore", 2, 1],
+      ["mechanical_connector", "it is worth noting that", 2, 14],
+      ["mechanical_connector", "In the realm of", 3, 1],
+      ["signature_word", "leveraging", 3, 32],
+    ]);
+    for (const f of findings) assert.equal(source.slice(f.offset, f.offset + f.length), f.match);
+    assert.equal(counts.signature_word, 3);
+    assert.equal(findings[0].suggestion, "use or apply");
+  });
+
+  it("should extend and trim the lexicon", () => {
+    const { findings } = mod.scanAiSignatures("A comprehensive and synergistic plan. Notably, it works.", {
+      words: ["synergistic"],
+      connectors: ["Notably"],
+      ignore: ["comprehensive"],
+    });
+    assert.deepEqual(findings.map((f) => [f.type, f.match]), [
+      ["signature_word", "synergistic"],
+      ["mechanical_connector", "Notably"],
+    ]);
+  });
+
+  it("should flag uniform sentence lengths and dense hedging by paragraph", () => {
+    const text = [
+      "The model is good here. The data is big here. The test is hard here. The code is fast here.",
+      "",
+      "This might perhaps help. We tried a range of short and considerably longer sentences in this paragraph on purpose.",
+    ].join("\n");
+    const report = mod.scanAiSignatures(text);
+    assert.deepEqual(report.findings.map((f) => [f.type, f.line]), [
+      ["uniform_sentences", 1],
+      ["hedging", 3],
+      ["hedging", 3],
+    ]);
+    assert.equal(report.sentenceLength.sentences, 6);
+    assert.ok(report.hedgingDensity > 0);
+  });
+
+  it("should back the de-ai and analyze tools without an LLM call", async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async () => { throw new Error("no network"); };
+    try {
+      const detect = mod.createDeAiTools().find((t) => t.name === "detect_signatures");
+      const report = JSON.parse(await detect.execute("We delve deeper."));
+      assert.equal(report.findings[0].match, "delve");
+      const patterns = mod.createAnalyzeTools({ words: ["synergy"] }).find((t) => t.name === "detect_ai_patterns");
+      assert.equal(JSON.parse(await patterns.execute("Synergy.")).counts.signature_word, 1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it("should render findings as file:line:col lines", () => {
+    const out = mod.formatSignatureReport(mod.scanAiSignatures("Moreover, we delve."), "text", "a.tex");
+    assert.match(out, /^a\.tex:1:1  warning  mechanical_connector/m);
+    assert.match(out, /^a\.tex:1:14  warning  signature_word/m);
+    assert.match(out, /2 findings/);
+  });
+});
+
+// ============================================================================
+// Offline readability and style metrics
+// ============================================================================
+
+describe("documentStats", () => {
+  const source = [
+    "\\begin{abstract}",
+    "We propose a method. It works well, e.g. on images.",
+    "\\end{abstract}",
+    "\\section{Introduction}",
+    "Networks are trained on data \\cite{a}. We can't ignore $x^2 + y^2$ costs.",
+    "% it's a comment",
+    "It might perhaps help.",
+    "",
+    "\\section{Method}",
+    "The model uses attention.",
+  ].join("\n");
+
+  it("should measure each section with its line range", () => {
+    const { sections, totals } = mod.documentStats(source);
+    assert.deepEqual(sections.map((s) => [s.name, s.lineStart, s.lineEnd, s.wordCount, s.sentenceCount]), [
+      ["Front matter", 1, 3, 10, 2],
+      ["Introduction", 4, 7, 13, 3],
+      ["Method", 9, 10, 4, 1],
+    ]);
+    assert.equal(totals.wordCount, 27);
+    assert.equal(sections[1].passiveSentences, 1);
+    assert.equal(sections[1].contractions, 1);
+    assert.equal(sections[1].hedges, 2);
+  });
+
+  it("should compute Flesch-Kincaid scores from words, sentences and syllables", () => {
+    // 16 words, 1 sentence, 20 syllables.
+    const { totals } = mod.documentStats("The model reads each page of the paper and then writes a short summary of it.");
+    assert.equal(totals.readabilityGrade, 5.4);
+    assert.equal(totals.readingEase, 84.8);
+    assert.equal(totals.passiveRatio, 0);
+  });
+
+  it("should keep very simple text on the grade and ease scales", () => {
+    // 6 words, 1 sentence, 6 syllables: the raw formulas give grade -1.4 and ease 116.1.
+    const { totals } = mod.documentStats("The cat sat on the mat.");
+    assert.equal(totals.readabilityGrade, 0);
+    assert.equal(totals.readingEase, 100);
+    assert.equal(totals.colemanLiau, 0);
+  });
+
+  it("should give score_paper the measured numbers", async () => {
+    const originalEnv = { ...process.env };
+    process.env.AIRWRITER_MOCK = "echo";
+    try {
+      const score = mod.createAnalyzeTools().find((t) => t.name === "score_paper");
+      const sent = await score.execute(source);
+      const measured = JSON.parse(sent.split("\n")[1]);
+      assert.equal(measured.sections[1].lineStart, 4);
+      assert.equal(measured.totals.wordCount, 27);
+      assert.ok(sent.endsWith(`Text:\n${source}`));
+    } finally {
+      process.env = originalEnv;
+    }
+  });
+
+  it("should render a table per section", () => {
+    const out = mod.formatDocumentStats(mod.documentStats(source), "text", "p.tex");
+    assert.match(out, /Introduction\s+4-7\s+13\s+3/);
+    assert.match(out, /Total\s+27/);
+  });
+});
+
+// ============================================================================
+// Bibliography-aware citation checks
+// ============================================================================
+
+describe("checkBibliography", () => {
+  const bib = [
+    "@string{venue = \"NeurIPS\"}",
+    "@article{smith2023,",
+    "  author = {Smith, J.}, title = {A {Great} Paper},",
+    "  journal = venue # \" Proc.\", year = 2023, doi = {10.1/abc}",
+    "}",
+    "@inproceedings{lee2022, author = \"Lee, K.\", title = {Another}, year = {2022}}",
+    "@misc{unused, author = {X}, title = {Unused}, year = 2020}",
+    "@article{smith2023b, author = {Smith, J.}, title = {A great paper}, journal = {J}, year = 2023}",
+    "@article{lee2022, title = {Dup}}",
+  ].join("\n");
+
+  it("should parse braced, quoted, bare and concatenated values", () => {
+    const [smith, lee] = mod.parseBibtex(bib, "refs.bib");
+    assert.equal(smith.key, "smith2023");
+    assert.equal(smith.line, 2);
+    assert.equal(smith.fields.title, "A {Great} Paper");
+    assert.equal(smith.fields.journal, "venue Proc.");
+    assert.equal(smith.fields.year, "2023");
+    assert.equal(lee.type, "inproceedings");
+    assert.equal(lee.fields.author, "Lee, K.");
+  });
+
+  it("should report undefined keys, unused and duplicate entries, and missing fields", () => {
+    const tex = "See \\cite{smith2023, nokey} and \\citep[p.~3]{lee2022}.\n% \\cite{commented}\n";
+    const report = mod.checkBibliography(tex, [{ file: "refs.bib", text: bib }], { texFile: "paper.tex" });
+    const issues = report.issues.map((i) => [i.type, i.severity, i.file, i.line, i.key]);
+    assert.deepEqual(issues, [
+      ["undefined_key", "error", "paper.tex", 1, "nokey"],
+      ["missing_field", "warning", "refs.bib", 6, "lee2022"],
+      ["missing_field", "info", "refs.bib", 6, "lee2022"],
+      ["unused_entry", "warning", "refs.bib", 7, "unused"],
+      ["unused_entry", "warning", "refs.bib", 8, "smith2023b"],
+      ["missing_field", "info", "refs.bib", 8, "smith2023b"],
+      ["duplicate_entry", "warning", "refs.bib", 8, "smith2023b"],
+      ["duplicate_key", "error", "refs.bib", 9, "lee2022"],
+    ]);
+    assert.deepEqual(report.citedKeys, ["smith2023", "nokey", "lee2022"]);
+    assert.match(report.issues[1].message, /missing booktitle/);
+  });
+
+  it("should flag hand-written citations that mix styles", () => {
+    const text = "As shown by Smith (2023) and confirmed in [1], the results (Johnson & Lee, 2022) hold [2, 3]. $[4]$";
+    const report = mod.checkBibliography(text);
+    assert.deepEqual(report.styles, { latex: 0, numeric: 2, "author-year": 2 });
+    assert.deepEqual(report.issues.map((i) => [i.type, i.line, i.column]), [
+      ["mixed_styles", 1, 13],
+      ["mixed_styles", 1, 60],
+    ]);
+  });
+
+  it("should recognise author-year citations with a LaTeX-escaped ampersand", () => {
+    const report = mod.checkBibliography("Prior work \\cite{smith2023} agrees (Johnson \\& Lee, 2022), as do Kim \\& Park (2021).");
+    assert.deepEqual(report.styles, { latex: 1, numeric: 0, "author-year": 2 });
+    assert.deepEqual(report.issues.map((i) => [i.type, i.column]), [["mixed_styles", 12]]);
+  });
+
+  it("should find bibliography files named in the manuscript", () => {
+    const files = mod.findBibFiles("\\bibliography{refs,extra}\n\\addbibresource{more.bib}\n% \\bibliography{old}", "paper/main.tex");
+    assert.deepEqual(files, [path.join("paper", "refs.bib"), path.join("paper", "extra.bib"), path.join("paper", "more.bib")]);
+  });
+});
+
+// ============================================================================
+// Multi-file LaTeX projects
+// ============================================================================
+
+describe("LaTeX projects", () => {
+  let dir;
+  const write = (name, text) => {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), text);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "airw-project-"));
+    write("main.tex", "\\begin{document}\n\\input{sections/intro}\n% \\input{old}\n\\include{sections/method}\n\\end{document}\n");
+    write("sections/intro.tex", "\\section{Introduction}\nWe study cats.\n");
+    write("sections/method.tex", "\\section{Method}\n\\subfile{detail}\n");
+    write("sections/detail.tex", "Details matter.\n");
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("should assemble included files in order between file markers", () => {
+    const project = mod.loadProject(path.join(dir, "main.tex"));
+    assert.deepEqual(project.files.map((f) => path.relative(dir, f)), [
+      "main.tex", path.join("sections", "intro.tex"), path.join("sections", "method.tex"), path.join("sections", "detail.tex"),
+    ]);
+    assert.match(project.text, /%%% begin-file\{sections\/intro.tex\}\n\\section\{Introduction\}/);
+    assert.match(project.text, /% \\input\{old\}/);
+    assert.ok(project.text.indexOf("Details matter.") < project.text.indexOf("\\end{document}"));
+  });
+
+  it("should split a rewrite back into the files it came from", () => {
+    const project = mod.loadProject(path.join(dir, "main.tex"));
+    const unchanged = mod.splitProject(project, project.text);
+    for (const file of project.files) assert.equal(unchanged[file], project.sources[file]);
+
+    const edited = mod.splitProject(project, project.text.replace("cats", "dogs").replace("Details", "The details"));
+    assert.equal(edited[path.join(dir, "sections", "intro.tex")], "\\section{Introduction}\nWe study dogs.\n");
+    assert.equal(edited[path.join(dir, "sections", "detail.tex")], "The details matter.\n");
+    assert.equal(edited[path.join(dir, "main.tex")], project.sources[path.join(dir, "main.tex")]);
+  });
+
+  it("should refuse a rewrite that dropped a file marker", () => {
+    const project = mod.loadProject(path.join(dir, "main.tex"));
+    const dropped = project.text.replace(/\n%%% end-file\{sections\/detail.tex\}/, "");
+    assert.throws(() => mod.splitProject(project, dropped), /out of order|missing/);
+  });
+
+  it("should map offsets in the assembled text to file, line and column", () => {
+    const project = mod.loadProject(path.join(dir, "main.tex"));
+    const at = (needle) => mod.locateInProject(project, project.text.indexOf(needle));
+    assert.deepEqual(at("cats"), { file: path.join(dir, "sections", "intro.tex"), line: 2, column: 10 });
+    assert.deepEqual(at("\\end{document}"), { file: path.join(dir, "main.tex"), line: 5, column: 1 });
+  });
+
+  it("should reject missing and circular includes", () => {
+    write("broken.tex", "\\input{nowhere}\n");
+    assert.throws(() => mod.loadProject(path.join(dir, "broken.tex")), /no such file/);
+    write("loop.tex", "\\input{loop}\n");
+    assert.throws(() => mod.loadProject(path.join(dir, "loop.tex")), /Circular/);
+  });
+
+  it("should protect file markers from the model", () => {
+    const project = mod.loadProject(path.join(dir, "main.tex"));
+    const { text } = mod.protectLatex(project.text);
+    assert.doesNotMatch(text, /%%% (begin|end)-file/);
+  });
+});
+
+// ============================================================================
+// Terminology glossary
+// ============================================================================
+
+describe("glossary", () => {
+  const glossary = {
+    terms: [
+      { term: "dataset", forbidden: ["data set", "data-set"], translations: { de: "Datensatz" } },
+      { term: "pretraining", preferred: "pre-training", forbidden: ["pretraining"] },
+      { term: "BERT", forbidden: ["Bert"] },
+    ],
+  };
+
+  it("should flag forbidden variants with positions and inflected suggestions", () => {
+    const text = "Data sets vary.\nWe use a data-set and $data set$ with pretraining.\n% data set\nBert and bert.";
+    const report = mod.checkGlossary(text, glossary);
+    assert.deepEqual(report.findings.map((f) => [f.line, f.column, f.match, f.suggestion]), [
+      [1, 1, "Data sets", "datasets"],
+      [2, 10, "data-set", "dataset"],
+      [2, 39, "pretraining", "pre-training"],
+      [4, 1, "Bert", "BERT"],
+    ]);
+    assert.equal(report.termCount, 3);
+  });
+
+  it("should draft entries from compounds spelled several ways", () => {
+    const text = "The dataset is new. Our dataset is large. This data set is public. Pre-training and pretraining. Any one or anyone.";
+    assert.deepEqual(mod.findTermVariants(text), [
+      { term: "dataset", forbidden: ["data set"] },
+      { term: "pre-training", forbidden: ["pretraining"] },
+    ]);
+  });
+
+  it("should keep hand-edited entries when merging and only add translations", () => {
+    const merged = mod.mergeGlossary(glossary, [
+      { term: "data set", forbidden: ["dataset"], translations: { de: "Daten", fr: "jeu de données" } },
+      { term: "encoder" },
+    ]);
+    assert.deepEqual(merged.terms[0], { ...glossary.terms[0], translations: { de: "Datensatz", fr: "jeu de données" } });
+    assert.equal(merged.terms[3].term, "encoder");
+    assert.equal(glossary.terms[0].translations.fr, undefined);
+  });
+
+  it("should render the glossary for goals, with translations for a target language", () => {
+    assert.equal(mod.formatGlossary({ terms: [] }), "");
+    const plain = mod.formatGlossary(glossary);
+    assert.match(plain, /- dataset \(never: data set, data-set\)\n- pre-training \(never: pretraining\)/);
+    assert.doesNotMatch(plain, /Datensatz/);
+    assert.match(mod.formatGlossary(glossary, "DE"), /- dataset \(never: data set, data-set\) -> DE: Datensatz/);
+  });
+
+  it("should validate glossary files", () => {
+    assert.deepEqual(mod.validateGlossary(glossary), glossary);
+    assert.throws(() => mod.validateGlossary({ terms: {} }, "g.json"), /g.json: expected an object with a "terms" array/);
+    assert.throws(() => mod.validateGlossary({ terms: [{ term: "x", forbidden: "y" }] }), /terms\[0\]: "forbidden"/);
+  });
+
+  it("should add check_glossary to the logic tools when the glossary has terms", async () => {
+    assert.deepEqual(mod.createLogicTools().map((t) => t.name), ["scan_contradictions", "deep_logic_check", "check_numbers"]);
+    const tool = mod.createLogicTools({}, glossary).find((t) => t.name === "check_glossary");
+    const report = JSON.parse(await tool.execute("A data set."));
+    assert.equal(report.findings[0].suggestion, "dataset");
+  });
+});
+
+// ============================================================================
+// Interactive edit review
+// ============================================================================
+
+describe("edit review", () => {
+  const original = "We utilize a novel method. It is good.\nFurthermore, results are strong.\n\nThe end.\n";
+  const rewritten = "We use a novel method. It is good.\nResults are strong.\n\nThe end. Thanks.\n";
+  const answer = `Part 1 [Polished Text]:\n${rewritten}\nPart 2 [Modification Log]:\n` +
+    '1. Replaced "utilize" with "use" (AI signature).\n2. Removed the connector Furthermore,\n   which was mechanical.\n';
+
+  it("should extract the modification log entries", () => {
+    assert.deepEqual(mod.extractModificationLog(answer), [
+      'Replaced "utilize" with "use" (AI signature).',
+      "Removed the connector Furthermore, which was mechanical.",
+    ]);
+    assert.deepEqual(mod.extractModificationLog(rewritten), []);
+  });
+
+  it("should split a rewrite into sentence-level hunks with their rationale", () => {
+    const plan = mod.planEdits(original, rewritten, mod.extractModificationLog(answer));
+    assert.deepEqual(plan.hunks.map((h) => [h.line, h.before, h.after, h.rationale?.slice(0, 12)]), [
+      [1, "We utilize a novel method. ", "We use a novel method. ", "Replaced \"ut"],
+      [2, "Furthermore, results are strong.\n", "Results are strong.\n", "Removed the "],
+      [4, "The end.\n", "The end. Thanks.\n", undefined],
+    ]);
+    assert.equal(mod.mergeEdits(plan, plan.hunks.map((h) => h.after)), rewritten);
+    assert.equal(mod.mergeEdits(plan, plan.hunks.map((h) => h.before)), original);
+  });
+
+  it("should merge the accepted, rejected and edited changes", async () => {
+    const plan = mod.planEdits(original, rewritten);
+    const input = new PassThrough();
+    const output = new PassThrough();
+    input.end("?\nn\ne\nResults are very strong.\na\n");
+    const replacements = await mod.reviewEdits(plan.hunks, { input, output });
+    assert.equal(
+      mod.mergeEdits(plan, replacements),
+      "We utilize a novel method. It is good.\nResults are very strong.\n\nThe end. Thanks.\n",
+    );
+  });
+
+  it("should write nothing when the review is quit or cut short", async () => {
+    const plan = mod.planEdits(original, rewritten);
+    const output = new PassThrough();
+    const quit = new PassThrough();
+    quit.end("y\nq\n");
+    await assert.rejects(mod.reviewEdits(plan.hunks, { input: quit, output }), /cancelled/);
+    const short = new PassThrough();
+    short.end("y\n");
+    await assert.rejects(mod.reviewEdits(plan.hunks, { input: short, output }), /ended before every change/);
+  });
+});
+
+// ============================================================================
+// Reference Integrity
+// ============================================================================
+
+describe("reference integrity", () => {
+  const env = useOfflineEnv();
+
+  const tex = [
+    "\\section{Intro}\\label{sec:intro}",
+    "Figure~\\ref{fig:a} and Fig. \\ref{fig:b} agree, as Figure~\\ref{fig:a} shows.",
+    "See \\cref{sec:gone,sec:intro} and \\cite{known,unknown}. % \\ref{commented}",
+    "\\begin{figure}\\caption{A}\\label{fig:a}\\end{figure}",
+    "\\begin{figure}\\caption{B}\\label{fig:b}\\end{figure}",
+    "\\begin{table}\\caption{T}\\label{tab:t}\\end{table}",
+    "\\begin{figure*}\\caption{C}\\end{figure*}",
+    "\\begin{equation}x\\label{eq:x}\\end{equation}",
+    "\\label{sec:intro}",
+  ].join("\n");
+
+  it("should index labels and report undefined, duplicate and unreferenced targets", () => {
+    const report = mod.checkReferences(tex);
+    assert.deepEqual(report.labels.map((l) => [l.label, l.kind, l.refs]), [
+      ["sec:intro", "section", 1], ["fig:a", "figure", 2], ["fig:b", "figure", 1], ["tab:t", "table", 0], ["eq:x", "equation", 0],
+    ]);
+    assert.deepEqual(report.issues.map((i) => [i.type, i.line, i.label]), [
+      ["inconsistent_ref_style", 2, "fig:b"],
+      ["undefined_label", 3, "sec:gone"],
+      ["unreferenced_float", 6, "tab:t"],
+      ["unreferenced_float", 7, undefined],
+      ["duplicate_label", 9, "sec:intro"],
+    ]);
+    assert.match(report.issues[0].message, /\("Figure~\\ref"\)/);
+  });
+
+  it("should check citation keys only when the bibliography keys are given", () => {
+    const report = mod.checkReferences(tex, { citationKeys: ["known"] });
+    const cites = report.issues.filter((i) => i.type === "undefined_citation");
+    assert.deepEqual(cites.map((i) => [i.label, i.line, i.column]), [["unknown", 3, 35]]);
+  });
+
+  it("should format a reference report like the other local checks", () => {
+    const text = mod.formatReferenceReport(mod.checkReferences(tex), "text", "paper.tex");
+    assert.match(text, /^paper\.tex:2:\d+  warning  inconsistent_ref_style/);
+    assert.match(text, /5 reference issues \(2 errors, 3 warnings\) \| 5 labels, 5 references$/);
+  });
+
+  it("should merge local reference findings into scan_contradictions", async () => {
+    const fixture = path.join(env.tmpDir, "logic.json");
+    const reply = { issues: [{ severity: "minor", category: "logic", location: "line 1", description: "Gap." }], summary: "1 issue" };
+    fs.writeFileSync(fixture, JSON.stringify({ responses: [{ text: JSON.stringify(reply) }] }));
+    process.env.AIRWRITER_MOCK = fixture;
+    const text = "As Figure~\\ref{fig:none} shows.\n";
+    const references = mod.checkReferences(`${text}\\ref{elsewhere}`);
+    const [scan] = mod.createLogicTools({}, undefined, { references });
+    const merged = JSON.parse(await scan.execute(text));
+    assert.deepEqual(merged.issues.map((i) => [i.category, i.severity, i.location]), [
+      ["logic", "minor", "line 1"],
+      ["reference", "critical", "line 1"],
+      ["reference", "critical", "line 2"],
+    ]);
+    assert.equal(merged.summary, "3 issues found (2 critical, 1 minor).");
+    // Whole-document findings are reported once, not again by a later chunk that repeats the \ref.
+    fs.writeFileSync(fixture, JSON.stringify({ responses: [{ text: JSON.stringify(reply) }] }));
+    mod.resetMockReplay();
+    assert.deepEqual(JSON.parse(await scan.execute(text)).issues.map((i) => i.category), ["logic"]);
+
+    process.env.AIRWRITER_MOCK = "echo";
+    const echoed = await mod.createLogicTools()[0].execute(text);
+    assert.match(echoed, /checked locally and is added to your result/);
+    assert.match(echoed, /Reference integrity \(checked locally\):\n\{/);
+  });
+});
+
+// ============================================================================
+// Number consistency
+// ============================================================================
+
+describe("number consistency", () => {
+  const tex = [
+    "\\begin{abstract}",
+    "We propose FastNet, which reaches 92.3\\% accuracy on ImageNet. We evaluate on three benchmarks.",
+    "\\end{abstract}",
+    "\\section{Introduction}",
+    "Our model achieves 92\\% accuracy on ImageNet, while prior work in 2021 reached 88.0\\% accuracy on ImageNet.",
+    "\\section{Results}",
+    "FastNet obtains an accuracy of 91.8\\% on ImageNet (Table~\\ref{tab:main}).",
+    "Without pretraining, our model drops to 85.2\\% accuracy on ImageNet.",
+    "\\begin{table}\\caption{Accuracy (\\%).}\\label{tab:main}",
+    "\\begin{tabular}{lcccc}",
+    "Method & ImageNet & CIFAR-10 & SQuAD & COCO \\\\",
+    "ResNet & 88.0 & 93.1 & 80.2 & 40.1 \\\\",
+    "FastNet (ours) & \\textbf{92.3} & 95.0 & 84.3 & 45.2 \\\\",
+    "\\end{tabular}\\end{table}",
+  ].join("\n");
+
+  it("should extract the paper's own claims from prose and its table row", () => {
+    const mentions = mod.extractNumericClaims(tex);
+    assert.deepEqual(mentions.map((m) => [m.entity, m.value, m.section]), [
+      ["accuracy on ImageNet", 92.3, "Abstract"],
+      ["benchmarks", 3, "Abstract"],
+      ["accuracy on ImageNet", 92, "Introduction"],
+      ["accuracy on ImageNet", 91.8, "Results"],
+      ["accuracy on ImageNet", 92.3, "Table 1"],
+      ["accuracy on CIFAR-10", 95, "Table 1"],
+      ["accuracy on SQuAD", 84.3, "Table 1"],
+      ["accuracy on COCO", 45.2, "Table 1"],
+    ]);
+    assert.deepEqual([mentions[4].line, mentions[4].column], [13, 26]);
+  });
+
+  it("should flag disagreements beyond the written precision and benchmark counts against the tables", () => {
+    const report = mod.checkNumbers(tex);
+    assert.deepEqual(report.issues.map((i) => [i.line, i.entity, i.conflictsWith.section]), [
+      [2, "benchmarks", "Table 1"],
+      [7, "accuracy on ImageNet", "Abstract"],
+    ]);
+    assert.match(report.issues[1].message, /"91\.8\\%" \(accuracy on ImageNet, Results\) disagrees with "92\.3\\%" in Abstract \(line 2\)/);
+    assert.match(report.issues[0].message, /report 4: ImageNet, CIFAR-10, SQuAD, COCO/);
+  });
+
+  it("should read fractions as percent and expose the check as a logic tool", async () => {
+    const text = "We propose X. Our F1 score of 0.87 beats the baseline.\n\nOverall, our model reaches 88.1 F1.";
+    assert.deepEqual(mod.checkNumbers(text).issues.map((i) => i.match), ["88.1"]);
+    const tool = mod.createLogicTools().find((t) => t.name === "check_numbers");
+    const result = JSON.parse(await tool.execute(text));
+    assert.equal(result.issues.length, 1);
+    assert.equal(result.mentionCount, 2);
+    assert.match(mod.formatNumberReport(mod.checkNumbers(text), "text", "p.tex"), /^p\.tex:3:28  warning  numbers  .*\n1 number inconsistencies \| 2 numeric claims about 1 quantities$/);
+  });
+});
+
+// ============================================================================
+// Venue profiles
+// ============================================================================
+
+describe("venue profiles", () => {
+  const words = (n) => Array.from({ length: n }, () => "word").join(" ");
+  const tex = [
+    "\\usepackage{acl}",
+    "\\begin{document}",
+    `\\begin{abstract}${words(210)}\\end{abstract}`,
+    "\\section{Introduction}",
+    words(50),
+    "\\section{Method}",
+    words(150),
+    "\\bibliography{refs}",
+    "\\end{document}",
+  ].join("\n");
+
+  it("should resolve venue names, aliases and project profiles", () => {
+    assert.equal(mod.resolveVenue("NeurIPS 2026").name, "NeurIPS");
+    assert.equal(mod.resolveVenue("EMNLP'25").name, "ACL");
+    assert.equal(mod.resolveVenue("Nature"), undefined);
+    const custom = { neurips: { name: "NeurIPS Workshop", pageLimit: 4 } };
+    assert.equal(mod.resolveVenue("neurips", custom).name, "NeurIPS Workshop");
+  });
+
+  it("should validate profiles and fill in what an extended profile leaves out", () => {
+    const workshop = mod.validateVenue({ name: "W", extends: "neurips", pageLimit: 4 });
+    assert.equal(workshop.pageLimit, 4);
+    assert.equal(workshop.reviewForm.length, mod.VENUES.neurips.reviewForm.length);
+    assert.equal(workshop.aliases, undefined);
+    assert.throws(() => mod.validateVenue({ name: "W", extends: "nature" }), /"extends" must name a venue profile/);
+    assert.throws(() => mod.validateVenue({ name: "W", requiredSections: [{ name: "X", pattern: "(" }] }), /requiredSections/);
+    assert.throws(() => mod.validateConfig({ venues: { w: { pageLimit: 4 } } }), /venues\.w: "name"/);
+  });
+
+  it("should check anonymity, abstract length and required sections", () => {
+    const report = mod.checkVenue(tex, mod.VENUES.acl);
+    assert.deepEqual(report.issues.map((i) => [i.type, i.line]), [
+      ["anonymity", 1],
+      ["abstract_length", 3],
+      ["missing_section", 8],
+    ]);
+    assert.equal(report.abstractWords, 210);
+    assert.equal(report.mainWords, 200);
+    const review = mod.checkVenue(tex.replace("{acl}", "[review]{acl}"), mod.VENUES.acl);
+    assert.ok(!review.issues.some((i) => i.type === "anonymity"));
+  });
+
+  it("should estimate pages and point at the section that passes the limit", async () => {
+    const report = mod.checkVenue(tex, { name: "Tiny", pageLimit: 1, wordsPerPage: 100 });
+    assert.equal(report.estimatedPages, 2);
+    assert.deepEqual(report.issues.map((i) => [i.type, i.line]), [["page_limit", 6]]);
+    const tool = mod.createAnalyzeTools({}, report).find((t) => t.name === "check_venue");
+    assert.equal(JSON.parse(await tool.execute("")).issues[0].type, "page_limit");
+    assert.ok(!mod.createAnalyzeTools().some((t) => t.name === "check_venue"));
+  });
+
+  it("should draft the review in the venue's reviewer form", async () => {
+    const originalEnv = { ...process.env };
+    process.env.AIRWRITER_MOCK = "echo";
+    try {
+      const draft = mod.createReviewTools({ venue: "ACL" }, mod.resolveVenue("ACL 2026")).find((t) => t.name === "draft_review");
+      const echoed = await draft.execute("Findings so far.");
+      assert.match(echoed, /^Write the review in the ACL reviewer form/);
+      assert.match(echoed, /## Summary of Weaknesses\n<[^>]+>\n\n## Comments/);
+      assert.match(echoed, /## Soundness \(1-5\)/);
+      assert.match(echoed, /Findings so far\.$/);
+    } finally {
+      process.env = originalEnv;
+    }
+  });
+});
+
+// ============================================================================
+// Anonymization check
+// ============================================================================
+
+describe("anonymization check", () => {
+  const env = useOfflineEnv();
+
+  const tex = [
+    "\\documentclass{article}",
+    "\\hypersetup{pdfauthor={Alice Smith}, pdftitle={Trees}}",
+    "\\author{Alice Smith \\thanks{Univ. of Somewhere} \\\\ \\texttt{alice@uni.edu}}",
+    "\\begin{document}",
+    "As our previous work \\cite{smith22} showed, trees grow.",
+    "Code: \\url{https://github.com/asmith/trees}. % https://github.com/hidden",
+    "This work was supported by NSF",
+    "grant 123456.",
+    "\\section*{Acknowledgments}",
+    "We thank Bob.",
+    "\\bibliography{refs}",
+    "\\end{document}",
+  ].join("\n");
+
+  it("should find author blocks, metadata, links, funding, acknowledgements and self-citations", () => {
+    const report = mod.scanAnonymity(tex);
+    assert.deepEqual(report.findings.map((f) => [f.type, f.line, f.column, f.severity]), [
+      ["pdf_metadata", 2, 23, "error"],
+      ["author_block", 3, 1, "error"],
+      ["self_citation", 5, 4, "error"],
+      ["url", 6, 12, "error"],
+      ["funding", 7, 1, "error"],
+      ["acknowledgements", 9, 1, "error"],
+    ]);
+    assert.equal(report.findings[2].redaction, undefined);
+    const review = mod.scanAnonymity(tex.replace("{article}", "[review]{article}"));
+    assert.equal(review.findings.find((f) => f.type === "author_block").severity, "warning");
+    assert.deepEqual(mod.scanAnonymity("\\author{Anonymous Authors}\nhttps://anonymous.4open.science/r/x").findings, []);
+  });
+
+  it("should write a redacted copy that scans clean but for manual rewordings", () => {
+    const { text, redacted } = mod.redactAnonymity(tex, mod.scanAnonymity(tex).findings);
+    assert.equal(redacted, 5);
+    assert.match(text, /pdfauthor=\{\}/);
+    assert.match(text, /\\author\{Anonymous Authors\}\n/);
+    assert.match(text, /\\url\{https:\/\/anonymous\.4open\.science\/\}/);
+    assert.match(text, /\n\n\\bibliography/);
+    assert.doesNotMatch(text, /NSF|Bob/);
+    assert.deepEqual(mod.scanAnonymity(text).findings.map((f) => f.type), ["self_citation"]);
+    const report = mod.formatAnonymityReport(mod.scanAnonymity(text), "text", "paper.tex");
+    assert.match(report, /^paper\.tex:5:4  error  self_citation  "our previous work" tells reviewers/);
+    assert.match(report, /1 identity leaks \(1 errors, 0 warnings\) \| 1 need a manual edit$/);
+  });
+
+  it("should locate the model's self-references by quote and apply its rewrites", async () => {
+    const fixture = path.join(env.tmpDir, "anonymity.json");
+    const reply = { findings: [
+      { quote: "we extend our TreeFormer system", reason: "Names the authors' own system", rewrite: "we extend the TreeFormer system" },
+      { quote: "a paraphrase that is not in the text", rewrite: "x" },
+    ] };
+    fs.writeFileSync(fixture, JSON.stringify({ responses: [{ text: JSON.stringify(reply) }] }));
+    process.env.AIRWRITER_MOCK = fixture;
+    const text = "\\section{Method}\nHere we extend our TreeFormer system \\cite{t}.\nSee https://github.com/alice/tf.\n";
+    const report = await mod.checkAnonymity(text);
+    assert.deepEqual(report.findings.map((f) => [f.type, f.source, f.line, f.column]), [
+      ["self_citation", "model", 2, 6],
+      ["url", "local", 3, 5],
+    ]);
+    const { text: redacted, redacted: count } = mod.redactAnonymity(text, report.findings);
+    assert.equal(count, 2);
+    assert.match(redacted, /we extend the TreeFormer system \\cite\{t\}\.\nSee https:\/\/anonymous\.4open\.science\/\./);
+    assert.deepEqual((await mod.checkAnonymity(text, { local: true })).findings.map((f) => f.type), ["url"]);
+  });
+});
+
+// ============================================================================
+// Rebuttal
+// ============================================================================
+
+describe("rebuttal", () => {
+  const env = useOfflineEnv();
+
+  const paper = [
+    "\\section{Introduction}",
+    "We propose a gated transformer for long documents.",
+    "",
+    "\\section{Experiments}",
+    "We train on PubMed with the gated transformer.",
+    "",
+    "The ablation without the gate loses 2.1 points on PubMed.",
+  ].join("\n");
+
+  it("should rank the paper's paragraphs by the concern's rare words", () => {
+    const passages = mod.findEvidence(paper, "Is there an ablation of the gate on PubMed?");
+    assert.deepEqual(passages.map((p) => [p.section, p.line]), [["Experiments", 7], ["Experiments", 5]]);
+    assert.equal(passages[0].text, "The ablation without the gate loses 2.1 points on PubMed.");
+    assert.deepEqual(mod.findEvidence(paper, "What about ImageNet?"), []);
+  });
+
+  it("should count a response against the limit without an LLM call", async () => {
+    const tools = mod.createRebuttalTools(paper, 20, { venue: "ICML 2026" });
+    assert.deepEqual(tools.map((t) => t.name), ["split_concerns", "find_evidence", "classify_concerns", "draft_response", "count_characters"]);
+    const count = tools.find((t) => t.name === "count_characters");
+    assert.equal(await count.execute("Thanks for the review."), "Characters: 22 of 20; 2 over, shorten it before answering");
+    await assert.rejects(mod.rebuttal(paper, { reviews: [] }), /at least one review/);
+  });
+
+  it("should answer each reviewer within the character limit, shortening an over-long response", async () => {
+    const fixture = path.join(env.tmpDir, "rebuttal.json");
+    const short = "We thank R1. Section 2, line 7 reports the ablation.";
+    fs.writeFileSync(fixture, JSON.stringify({ responses: [
+      { text: "Thought: Find the ablation.\nAction: find_evidence\nAction Input: ablation of the gate" },
+      { text: `Final Answer: ${short} ${"More detail. ".repeat(10)}` },
+      { text: `Final Answer: ${short}` },
+      { text: "Final Answer: We thank R2." },
+    ] }));
+    process.env.AIRWRITER_MOCK = fixture;
+    const result = await mod.rebuttal(paper, {
+      reviews: [{ reviewer: "R1", text: "No ablation?" }, { reviewer: "R2", text: "Typos." }],
+      maxChars: 60,
+      llm: { nativeTools: false },
+    });
+    assert.equal(JSON.parse(result.steps[0].observation).passages[0].line, 7);
+    assert.equal(result.finalAnswer, `## Response to R1\n\n${short}\n\n## Response to R2\n\nWe thank R2.`);
+    assert.deepEqual(result.characters, {
+      limit: 60,
+      responses: [{ reviewer: "R1", characters: short.length, rounds: 2 }, { reviewer: "R2", characters: 12, rounds: 1 }],
+      within: true,
+    });
+    assert.equal(result.chunks, undefined);
+    assert.match(mod.formatResult(result), /Characters: R1 52, R2 12 \(limit 60\)/);
+  });
+});
+
 // ============================================================================
 // No regex validation — confirm no regex patterns exist in the module
 // ============================================================================
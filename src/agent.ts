@@ -6,8 +6,33 @@
  * Zero dependencies — uses provider.ts for LLM calls.
  */
 
-import { callLlm, callLlmMultiTurn, detectProviderName, detectProviderModel } from "./provider";
-import type { ChatMessage, LLMResponse } from "./provider";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { callLlm, callLlmMultiTurn, observeLlmCalls, supportsNativeTools, withLlmOptions } from "./provider";
+import type {
+  ChatMessage,
+  LlmCallObserver,
+  LlmCallRequest,
+  LlmOptions,
+  ProviderFailover,
+  ToolDefinition,
+} from "./provider";
+import { addUsage, estimateTokens, findPrice, formatCost } from "./pricing";
+import type { TokenUsage } from "./pricing";
+import { renderPrompt } from "./prompts";
+import type { PromptFields } from "./prompts";
+import { scanAiSignatures } from "./signatures";
+import { documentStats, wordCount } from "./stats";
+import type { SignatureLexicon } from "./signatures";
+import { checkGlossary } from "./glossary";
+import type { Glossary } from "./glossary";
+import { checkReferences } from "./references";
+import type { ReferenceIssue, ReferenceIssueType, ReferenceReport } from "./references";
+import { checkNumbers } from "./numbers";
+import type { NumberReport } from "./numbers";
+import { formatReviewForm } from "./venues";
+import type { VenueProfile, VenueReport } from "./venues";
+import { findEvidence, CONCERN_CATEGORIES } from "./rebuttal";
+import { parseModelJson } from "./format";
 
 // ============================================================================
 // Types
@@ -16,7 +41,78 @@ import type { ChatMessage, LLMResponse } from "./provider";
 export interface AgentTool {
   name: string;
   description: string;
-  execute: (input: string) => Promise<string>;
+  /**
+   * JSON Schema for the arguments under native tool calling. Defaults to a
+   * single string "input".
+   */
+  inputSchema?: Record<string, unknown>;
+  /**
+   * `input` is the "input" argument (or the Action Input line in text mode);
+   * tools with their own schema get all arguments as JSON, and as `args`.
+   */
+  execute: (input: string, args?: Record<string, unknown>) => Promise<string>;
+}
+
+const DEFAULT_INPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    input: { type: "string", description: "Text or instructions for the tool" },
+  },
+  required: ["input"],
+};
+
+/** Schema of a tool that takes one text argument. */
+function textSchema(description: string): Record<string, unknown> {
+  return { type: "object", properties: { text: { type: "string", description } }, required: ["text"] };
+}
+
+const STRING_LIST = { type: "array", items: { type: "string" } };
+
+const DRAFT_REVIEW_SCHEMA = {
+  type: "object",
+  properties: {
+    summary: { type: "string", description: "What the paper claims and does, in a few sentences" },
+    strengths: { ...STRING_LIST, description: "Strengths found so far" },
+    weaknesses: { ...STRING_LIST, description: "Weaknesses found so far, most serious first" },
+    questions: { ...STRING_LIST, description: "Questions for the authors" },
+    scores: {
+      type: "object",
+      description: "Scores from the earlier tools, e.g. {\"novelty\": 6, \"soundness\": 5}",
+      additionalProperties: { type: "number" },
+    },
+  },
+  required: ["summary", "weaknesses"],
+};
+
+/** A reviewer concern as the rebuttal tools pass it on. */
+const CONCERN_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Concern id from split_concerns, e.g. C1" },
+    concern: { type: "string" },
+    evidence: { ...STRING_LIST, description: "Passages from find_evidence, each with its section and line" },
+  },
+  required: ["id", "concern"],
+};
+
+/**
+ * The arguments of a tool with its own schema: the native call's `args`,
+ * or in the text format an Action Input that is a JSON object holding
+ * `field`. Any other input (plain text, LaTeX with braces) is the value
+ * of `field`.
+ */
+function toolArgs(input: string, args: Record<string, unknown> | undefined, field: string): Record<string, unknown> {
+  if (args) return args;
+  const parsed = /^\s*(?:```|\{)/.test(input) ? parseModelJson(input) : undefined;
+  return parsed && typeof parsed === "object" && !Array.isArray(parsed) && field in parsed
+    ? (parsed as Record<string, unknown>)
+    : { [field]: input };
+}
+
+/** A string argument, or "" when the model left it out or sent another type. */
+function textArg(input: string, args: Record<string, unknown> | undefined, field: string): string {
+  const value = toolArgs(input, args, field)[field];
+  return typeof value === "string" ? value : "";
 }
 
 export interface AgentStep {
@@ -32,6 +128,51 @@ export interface AgentResult {
   totalSteps: number;
   provider: string;
   model: string;
+  /** Number of document chunks merged into this result, when more than one. */
+  chunks?: number;
+  /**
+   * The deliverable text of a document run, reassembled from its chunks
+   * with the source's whitespace at every boundary (extractFinalText trims).
+   */
+  text?: string;
+  /** Provider switches during the run, from the loop or its tools. */
+  failovers?: AgentFailover[];
+  /** Tokens used by the loop and its tool sub-calls, as reported by the APIs. */
+  usage?: TokenUsage;
+  /** Estimated cost in USD; omitted when any call's model has no known price. */
+  cost?: number;
+  /** Word counts of a length-targeted rewrite (compress / expand). */
+  wordCount?: WordCountCheck;
+  /** Lengths of the responses to each reviewer (rebuttal). */
+  characters?: CharacterLimitCheck;
+}
+
+export interface WordCountCheck {
+  /** Prose words in the input and in the final text. */
+  before: number;
+  after: number;
+  target: number;
+  /** Accepted range, from the tolerance and any hard limit. */
+  min: number;
+  max: number;
+  /** Agent runs it took; each extra round re-targets the previous result. */
+  rounds: number;
+  /** Whether `after` landed within [min, max]. */
+  converged: boolean;
+}
+
+export interface CharacterLimitCheck {
+  /** Most characters one reviewer's response may have. */
+  limit: number;
+  /** Each response's length, and the agent runs it took to get there. */
+  responses: Array<{ reviewer: string; characters: number; rounds: number }>;
+  /** Whether every response is within the limit. */
+  within: boolean;
+}
+
+export interface AgentFailover extends ProviderFailover {
+  /** 1-based agent step during which the provider failed. */
+  step: number;
 }
 
 export interface AgentOptions {
@@ -39,6 +180,62 @@ export interface AgentOptions {
   tools: AgentTool[];
   context?: string;
   maxSteps?: number;
+  /** Provider/model settings for the loop and every tool sub-call. */
+  llm?: LlmOptions;
+  /** Live progress; when set, the loop's own LLM replies are streamed as token events. */
+  onEvent?: AgentEventHandler;
+}
+
+/**
+ * Progress events from runAgent, numbered like the trace's steps. "chunk"
+ * is emitted by the document commands before each part of a long input,
+ * and "round" by compress / expand before re-running to reach the target.
+ * "stream_reset" voids the tokens streamed so far in a step: the provider
+ * failed mid-reply and the next one's reply follows from its start.
+ */
+export type AgentEvent =
+  | { type: "step_start"; step: number }
+  | { type: "token"; step: number; delta: string }
+  | { type: "stream_reset"; step: number; provider: string; error: string }
+  | { type: "thought"; step: number; thought: string }
+  | { type: "action"; step: number; action: string; input: string }
+  | { type: "observation"; step: number; action: string; observation: string }
+  | { type: "final_answer"; step: number; answer: string }
+  | { type: "chunk"; chunk: number; total: number }
+  | { type: "round"; round: number; words: number; target: number };
+
+export type AgentEventHandler = (event: AgentEvent) => void;
+
+/**
+ * Everything one agent loop sent and received, saved after every step so
+ * a failed run can continue where it stopped.
+ */
+export interface AgentTranscript {
+  goal: string;
+  systemPrompt: string;
+  /** Native tool calling or the text ReAct format; a resumed loop must use the same. */
+  mode: "native" | "text";
+  messages: ChatMessage[];
+  steps: AgentStep[];
+  /** Provider and model of the latest reply. */
+  provider?: string;
+  model?: string;
+  /** Set when the loop finished. */
+  result?: AgentResult;
+  /** Set when the loop failed. */
+  error?: string;
+}
+
+/** Receives transcripts from every runAgent call inside recordTranscripts(). */
+export interface TranscriptRecorder {
+  /**
+   * Called as a loop starts, with its fresh transcript. Returning an
+   * earlier transcript of the same loop resumes it, or replays its result
+   * when it had finished.
+   */
+  start(transcript: AgentTranscript): AgentTranscript | undefined;
+  /** Called after every completed step, and when the loop ends or fails. */
+  save(transcript: AgentTranscript): void;
 }
 
 // ============================================================================
@@ -88,6 +285,56 @@ export function parseAgentResponse(text: string): {
   };
 }
 
+/** "Part 1 [Polished Text]:" style section headers the templates ask for. */
+const PART_MARKER_RE = /^[ \t#*]*Part\s+(\d+)\s*\[[^\]\n]*\]\s*:?[ \t*]*/gim;
+
+/**
+ * Extract the deliverable text from a final answer, dropping the
+ * "Part 2 [Modification Log]" style sections the templates ask for.
+ * Answers reassembled from several chunks contain several "Part 1"
+ * blocks; all of them are kept, in order.
+ */
+export function extractFinalText(answer: string): string {
+  const markers = [...answer.matchAll(PART_MARKER_RE)];
+
+  let text: string;
+  if (markers.length === 0) {
+    text = answer.trim();
+  } else {
+    const parts: string[] = [];
+    for (let i = 0; i < markers.length; i++) {
+      if (markers[i][1] !== "1") continue;
+      const start = markers[i].index! + markers[i][0].length;
+      const end = i + 1 < markers.length ? markers[i + 1].index! : answer.length;
+      parts.push(answer.slice(start, end).trim());
+    }
+    text = parts.join("\n\n");
+  }
+
+  // Models often wrap the whole deliverable in a code fence.
+  const fenced = text.match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+  return fenced ? fenced[1] : text;
+}
+
+/**
+ * The entries of an answer's modification log: every list item in its
+ * "Part 2 [...]" and later sections, across all chunks.
+ */
+export function extractModificationLog(answer: string): string[] {
+  const markers = [...answer.matchAll(PART_MARKER_RE)];
+  const entries: string[] = [];
+  for (let i = 0; i < markers.length; i++) {
+    if (markers[i][1] === "1") continue;
+    const start = markers[i].index! + markers[i][0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index! : answer.length;
+    for (const item of answer.slice(start, end).split(/\n(?=[ \t]*(?:\d+[.)]|[-*•])\s)/)) {
+      const text = item.replace(/^[ \t]*(?:\d+[.)]|[-*•])\s+/, "").replace(/\s+/g, " ").trim();
+      if (text) entries.push(text);
+    }
+  }
+  return entries;
+}
+
 // ============================================================================
 // System Prompt Builder
 // ============================================================================
@@ -120,25 +367,186 @@ Rules:
 - Do NOT include both Action and Final Answer in the same response`;
 }
 
+/** System prompt for providers with native tool calling; the tools travel separately. */
+function buildToolCallingPrompt(): string {
+  return `You are a research writing agent. You analyze and improve academic papers using tools step by step.
+
+Work through the task by calling the provided tools, one step at a time.
+Before each call, state your reasoning in a sentence or two.
+When done, reply with your complete output as plain text, without calling a tool.`;
+}
+
+function toolDefinitions(tools: AgentTool[]): ToolDefinition[] {
+  return tools.map((t) => ({
+    name: t.name,
+    description: t.description,
+    inputSchema: t.inputSchema ?? DEFAULT_INPUT_SCHEMA,
+  }));
+}
+
 // ============================================================================
 // Agent Loop
 // ============================================================================
 
+const transcriptScope = new AsyncLocalStorage<TranscriptRecorder>();
+
+/** Run `fn` and hand the transcript of every agent loop inside it to `recorder`. */
+export function recordTranscripts<T>(recorder: TranscriptRecorder, fn: () => Promise<T>): Promise<T> {
+  return transcriptScope.run(recorder, fn);
+}
+
+/**
+ * Run the ReAct loop. Failovers, token usage and cost are collected from
+ * every LLM call in the run, tool sub-calls included. With `llm.budget`
+ * set, each call is checked against the remaining budget first. Inside
+ * recordTranscripts() the transcript is saved after every step, and one
+ * handed back by the recorder is continued from its last completed step.
+ */
 export async function runAgent(options: AgentOptions): Promise<AgentResult> {
-  const { goal, tools, maxSteps = 5 } = options;
-  const systemPrompt = buildSystemPrompt(tools);
-  const steps: AgentStep[] = [];
-  const messages: ChatMessage[] = [];
+  const recorder = transcriptScope.getStore();
+  let transcript: AgentTranscript | undefined;
+  let steps: AgentStep[] = [];
+  const failovers: AgentFailover[] = [];
+  let usage: TokenUsage | undefined;
+  let cost = 0;
+  let unpriced = false;
+
+  const observer: LlmCallObserver = {
+    onRequest: (request) => checkBudget(request, cost),
+    onResponse: (response) => {
+      for (const failover of response.failovers ?? []) {
+        failovers.push({ ...failover, step: steps.length + 1 });
+      }
+      if (response.usage) usage = addUsage(usage, response.usage);
+      if (transcript) {
+        transcript.provider = response.provider;
+        transcript.model = response.model;
+      }
+      if (response.cost !== undefined) cost += response.cost;
+      else unpriced = true;
+    },
+  };
+
+  const result = await withLlmOptions(options.llm ?? {}, () =>
+    observeLlmCalls(observer, async () => {
+      const native = supportsNativeTools();
+      const fresh: AgentTranscript = {
+        goal: options.goal,
+        systemPrompt: native ? buildToolCallingPrompt() : buildSystemPrompt(options.tools),
+        mode: native ? "native" : "text",
+        messages: [{ role: "user", content: `Goal: ${options.goal}\n\nBegin.` }],
+        steps: [],
+      };
+      const live = recorder?.start(fresh) ?? fresh;
+      if (live.result) return live.result;
+      transcript = live;
+      delete live.error;
+      steps = live.steps;
+      // A step that fails halfway is dropped, so a resume repeats all of it.
+      let kept = { messages: live.messages.length, steps: live.steps.length };
+      const save = () => {
+        kept = { messages: live.messages.length, steps: live.steps.length };
+        recorder?.save(live);
+      };
+      try {
+        return native ? await runToolCallingLoop(options, live, save) : await runAgentLoop(options, live, save);
+      } catch (err: any) {
+        live.messages.splice(kept.messages);
+        live.steps.splice(kept.steps);
+        live.error = err.message || String(err);
+        recorder?.save(live);
+        throw err;
+      }
+    }));
+  const final: AgentResult = {
+    ...result,
+    ...(failovers.length > 0 ? { failovers } : {}),
+    ...(usage ? { usage } : {}),
+    ...(usage && !unpriced ? { cost } : {}),
+  };
+  if (transcript) {
+    transcript.result = final;
+    recorder?.save(transcript);
+  }
+  return final;
+}
+
+/**
+ * Refuse a call whose estimated input alone would take spending past the
+ * budget. Output tokens are unknown up front, so the last call can still
+ * overshoot by its output.
+ */
+function checkBudget(request: LlmCallRequest, spent: number): void {
+  const { budget, prices } = request.options;
+  if (budget === undefined) return;
+
+  const price = findPrice(request.model, prices);
+  if (!price) {
+    throw new Error(`No price known for model "${request.model}"; add it to "prices" in the config file to use a budget.`);
+  }
+  const prompt = request.systemPrompt + request.messages.map((m) => m.content).join("\n");
+  const next = (estimateTokens(prompt) * price.input) / 1_000_000;
+  if (spent + next > budget) {
+    throw new Error(
+      `Budget of ${formatCost(budget)} reached: ${formatCost(spent)} spent, ` +
+        `the next ${request.model} call needs about ${formatCost(next)} of input.`,
+    );
+  }
+}
+
+/** Run a tool, turning failures and unknown names into observations for the model. */
+async function executeTool(
+  tools: AgentTool[],
+  name: string,
+  input: string,
+  args?: Record<string, unknown>,
+): Promise<string> {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) {
+    return `Unknown tool: ${name}. Available: ${tools.map((t) => t.name).join(", ")}`;
+  }
+  try {
+    return await tool.execute(input, args);
+  } catch (err: any) {
+    return "Tool error: " + (err.message || String(err));
+  }
+}
+
+/** Per-call options that stream the loop's reply into token events. */
+function streamTo(onEvent: AgentEventHandler | undefined, step: number): LlmOptions {
+  return onEvent
+    ? {
+      onToken: (delta) => onEvent({ type: "token", step, delta }),
+      onStreamReset: ({ provider, error }) => onEvent({ type: "stream_reset", step, provider, error }),
+    }
+    : {};
+}
+
+/** Loop iterations a transcript has completed: one model reply each. */
+function completedIterations(transcript: AgentTranscript): number {
+  return transcript.messages.filter((m) => m.role === "assistant").length;
+}
 
-  messages.push({ role: "user", content: `Goal: ${goal}\n\nBegin.` });
+/**
+ * The text ReAct loop. Continues `transcript` from its last completed
+ * step, calling `save` after each one.
+ */
+async function runAgentLoop(options: AgentOptions, transcript: AgentTranscript, save: () => void): Promise<AgentResult> {
+  const { tools, maxSteps = 5, onEvent } = options;
+  const emit: AgentEventHandler = onEvent ?? (() => {});
+  const { systemPrompt, messages, steps } = transcript;
 
-  for (let step = 0; step < maxSteps; step++) {
-    const response = await callLlmMultiTurn(systemPrompt, messages);
+  for (let step = completedIterations(transcript); step < maxSteps; step++) {
+    const current = steps.length + 1;
+    emit({ type: "step_start", step: current });
+    const response = await callLlmMultiTurn(systemPrompt, messages, streamTo(onEvent, current));
     messages.push({ role: "assistant", content: response.text });
 
     const parsed = parseAgentResponse(response.text);
+    if (parsed.thought) emit({ type: "thought", step: current, thought: parsed.thought });
 
     if (parsed.finalAnswer) {
+      emit({ type: "final_answer", step: current, answer: parsed.finalAnswer });
       return {
         steps,
         finalAnswer: parsed.finalAnswer,
@@ -149,19 +557,10 @@ export async function runAgent(options: AgentOptions): Promise<AgentResult> {
     }
 
     if (parsed.action) {
-      const tool = tools.find((t) => t.name === parsed.action);
-      let observation: string;
-
-      if (tool) {
-        try {
-          observation = await tool.execute(parsed.actionInput || "");
-        } catch (err: any) {
-          observation = "Tool error: " + (err.message || String(err));
-        }
-      } else {
-        observation = `Unknown tool: ${parsed.action}. Available: ${tools.map((t) => t.name).join(", ")}`;
-      }
+      emit({ type: "action", step: current, action: parsed.action, input: parsed.actionInput || "" });
+      const observation = await executeTool(tools, parsed.action, parsed.actionInput || "");
 
+      emit({ type: "observation", step: current, action: parsed.action, observation });
       steps.push({
         thought: parsed.thought,
         action: parsed.action,
@@ -176,6 +575,7 @@ export async function runAgent(options: AgentOptions): Promise<AgentResult> {
         content: "Please use a tool (Action + Action Input) or provide your Final Answer.",
       });
     }
+    save();
   }
 
   // Max steps — force final answer
@@ -184,8 +584,11 @@ export async function runAgent(options: AgentOptions): Promise<AgentResult> {
     content: "Maximum steps reached. Provide your Final Answer now.",
   });
 
-  const finalResponse = await callLlmMultiTurn(systemPrompt, messages);
+  const last = steps.length + 1;
+  emit({ type: "step_start", step: last });
+  const finalResponse = await callLlmMultiTurn(systemPrompt, messages, streamTo(onEvent, last));
   const finalParsed = parseAgentResponse(finalResponse.text);
+  emit({ type: "final_answer", step: last, answer: finalParsed.finalAnswer || finalResponse.text });
 
   return {
     steps,
@@ -196,35 +599,145 @@ export async function runAgent(options: AgentOptions): Promise<AgentResult> {
   };
 }
 
+/**
+ * The loop for providers with native tool calling: tools go out as
+ * function declarations and calls come back structured, so nothing is
+ * scraped from the reply. A reply without tool calls is the final answer.
+ */
+async function runToolCallingLoop(
+  options: AgentOptions,
+  transcript: AgentTranscript,
+  save: () => void,
+): Promise<AgentResult> {
+  const { tools, maxSteps = 5, onEvent } = options;
+  const emit: AgentEventHandler = onEvent ?? (() => {});
+  const { systemPrompt, messages, steps } = transcript;
+  const definitions = toolDefinitions(tools);
+  // Models trained on the text format sometimes still label their answer.
+  const finalText = (text: string) => parseAgentResponse(text).finalAnswer ?? text.trim();
+
+  for (let step = completedIterations(transcript); step < maxSteps; step++) {
+    const current = steps.length + 1;
+    emit({ type: "step_start", step: current });
+    const response = await callLlmMultiTurn(systemPrompt, messages, {
+      ...streamTo(onEvent, current),
+      tools: definitions,
+    });
+
+    if (!response.toolCalls?.length) {
+      const finalAnswer = finalText(response.text);
+      emit({ type: "final_answer", step: current, answer: finalAnswer });
+      return { steps, finalAnswer, totalSteps: steps.length, provider: response.provider, model: response.model };
+    }
+
+    messages.push({ role: "assistant", content: response.text, toolCalls: response.toolCalls });
+    const thought = response.text.trim();
+    if (thought) emit({ type: "thought", step: current, thought });
+
+    for (const call of response.toolCalls) {
+      const tool = tools.find((t) => t.name === call.name);
+      const input = !tool?.inputSchema && typeof call.arguments.input === "string"
+        ? call.arguments.input
+        : JSON.stringify(call.arguments);
+      const stepNumber = steps.length + 1;
+      emit({ type: "action", step: stepNumber, action: call.name, input });
+      const observation = await executeTool(tools, call.name, input, call.arguments);
+      emit({ type: "observation", step: stepNumber, action: call.name, observation });
+      steps.push({ thought, action: call.name, actionInput: input, observation });
+      messages.push({ role: "tool", content: observation, toolCallId: call.id, name: call.name });
+    }
+    save();
+  }
+
+  // Max steps — force final answer. Tools stay declared because the
+  // history contains calls, but the model may not make another.
+  messages.push({ role: "user", content: "Maximum steps reached. Provide your final answer now." });
+  const last = steps.length + 1;
+  emit({ type: "step_start", step: last });
+  const finalResponse = await callLlmMultiTurn(systemPrompt, messages, {
+    ...streamTo(onEvent, last),
+    tools: definitions,
+    toolChoice: "none",
+  });
+  const finalAnswer = finalText(finalResponse.text);
+  emit({ type: "final_answer", step: last, answer: finalAnswer });
+
+  return {
+    steps,
+    finalAnswer,
+    totalSteps: steps.length,
+    provider: finalResponse.provider,
+    model: finalResponse.model,
+  };
+}
+
 // ============================================================================
 // Tool Factories
 // ============================================================================
 
-/** Tools for the `polish` agent workflow. */
-export function createPolishTools(): AgentTool[] {
-  return [
-    {
-      name: "analyze_issues",
-      description: "Analyze text for grammar, tone, AI signatures, and style issues. Returns JSON issues list.",
-      execute: async (text) => {
-        const r = await callLlm(
-          "Analyze this academic text for issues. Return JSON array: [{category, description, severity, location}]. Categories: grammar, tone, ai-signature, style.",
-          text
-        );
-        return r.text;
-      },
-    },
-    {
-      name: "apply_fixes",
-      description: "Apply fixes to text based on identified issues. Returns corrected text.",
-      execute: async (input) => {
-        const r = await callLlm(
-          "You are an expert academic editor. Apply the requested fixes. Return ONLY the corrected text.",
-          input
-        );
-        return r.text;
-      },
+/**
+ * Build a tool whose system prompt is a rendered PROMPTS template.
+ * The template is rendered eagerly so missing fields fail before any LLM call.
+ * `prepare` rewrites the input before it is sent.
+ */
+function templateTool(
+  name: string,
+  description: string,
+  templateKey: string,
+  fields: PromptFields = {},
+  prepare: (input: string) => string = (input) => input,
+): AgentTool {
+  const systemPrompt = renderPrompt(templateKey, fields);
+  return {
+    name,
+    description,
+    execute: async (input) => {
+      const r = await callLlm(systemPrompt, prepare(input));
+      return r.text;
     },
+  };
+}
+
+/**
+ * Prefix text with its locally measured stats, so the model reports real
+ * word counts, line ranges and readability grades instead of estimates.
+ * With `findings` (of a paper too long for one pass), the stats of `text`
+ * head the findings instead of the text itself.
+ */
+function withMeasuredStats(text: string, findings?: string): string {
+  const use = "use these numbers for wordCount, lineStart, lineEnd and readabilityGrade rather than estimating them";
+  if (findings !== undefined) {
+    return (
+      `Measured statistics for the whole paper (computed from the paper itself; ${use}):\n` +
+      `${JSON.stringify(documentStats(text))}\n\nFindings on each part of the paper:\n${findings}`
+    );
+  }
+  return (
+    `Measured statistics for the text below (computed from the text itself; ${use}):\n` +
+    `${JSON.stringify(documentStats(text))}\n\nText:\n${text}`
+  );
+}
+
+/**
+ * Tools for the `polish` agent workflow. `compress` and `expand` reuse this
+ * set with their own template driving `apply_fixes`.
+ */
+export function createPolishTools(
+  fields: PromptFields = {},
+  rewriteTemplate: "polish" | "compress" | "expand" = "polish",
+): AgentTool[] {
+  return [
+    templateTool(
+      "analyze_issues",
+      "Analyze text for grammar, tone, citation, structure, and AI-signature issues. Returns JSON issues list.",
+      "analyze",
+    ),
+    templateTool(
+      "apply_fixes",
+      "Apply fixes to text based on identified issues. Returns corrected text and a log of changes.",
+      rewriteTemplate,
+      fields,
+    ),
     {
       name: "validate_result",
       description: "Validate polished text against publication standards. Returns pass/fail with details.",
@@ -238,17 +751,19 @@ export function createPolishTools(): AgentTool[] {
     },
     {
       name: "word_count",
-      description: "Count words in the text. No LLM call needed.",
-      execute: async (text) => {
-        const count = text.split(/\s+/).filter(Boolean).length;
-        return `Word count: ${count}`;
-      },
+      description: "Count words in the text, leaving out math, citations and LaTeX commands. No LLM call needed.",
+      inputSchema: textSchema("Text to count"),
+      execute: async (input, args) => `Word count: ${wordCount(textArg(input, args, "text"))}`,
     },
   ];
 }
 
-/** Tools for the `review` agent workflow. */
-export function createReviewTools(): AgentTool[] {
+/**
+ * Tools for the `review` agent workflow. Requires the `venue` field. With a
+ * venue `profile` that has a reviewer form, `draft_review` fills in that form.
+ */
+export function createReviewTools(fields: { venue: string; strictness?: string }, profile?: VenueProfile): AgentTool[] {
+  const form = profile?.reviewForm?.length ? formatReviewForm(profile) : undefined;
   return [
     {
       name: "assess_novelty",
@@ -284,79 +799,151 @@ export function createReviewTools(): AgentTool[] {
       },
     },
     {
-      name: "draft_review",
-      description: "Draft a structured peer review from accumulated findings.",
-      execute: async (input) => {
-        const r = await callLlm(
-          "Draft a structured peer review. Format: Summary, Strengths, Weaknesses (Critical/Minor), Questions, Rating X/10, Strategic Advice.",
-          input
-        );
-        return r.text;
-      },
+      ...templateTool(
+        "draft_review",
+        form
+          ? `Draft the peer review in the ${profile!.name} reviewer form from accumulated findings.`
+          : "Draft a structured peer review from accumulated findings.",
+        "review",
+        fields,
+        form ? (input) => `${form}\n\n${input}` : undefined,
+      ),
+      inputSchema: DRAFT_REVIEW_SCHEMA,
     },
   ];
 }
 
-/** Tools for the `translate` agent workflow. */
-export function createTranslateTools(): AgentTool[] {
+/**
+ * Tools for the `rebuttal` agent workflow, which answers one reviewer at a
+ * time. `find_evidence` searches `paper` (the whole manuscript) locally, and
+ * `draft_response` and `count_characters` hold the response to `maxChars`.
+ */
+export function createRebuttalTools(paper: string, maxChars: number, fields: { venue?: string } = {}): AgentTool[] {
+  const venue = fields.venue ? ` for ${fields.venue}` : "";
   return [
     {
-      name: "analyze_terms",
-      description: "Identify technical terms, idioms, and LaTeX commands that need careful translation.",
+      name: "split_concerns",
+      description: "Split a reviewer's comments into atomic concerns, one question, criticism or request each. Returns JSON.",
       execute: async (text) => {
         const r = await callLlm(
-          "Identify: technical terms, idioms, LaTeX commands to preserve. Return JSON: {technicalTerms: [], latexCommands: []}",
+          "Split these reviewer comments into atomic concerns: one question, criticism or request each, with the reviewer's own words quoted. " +
+            "Skip the summary and the praise. Return JSON: {concerns: [{id: \"C1\", quote, concern, severity: major|minor}]}",
           text
         );
         return r.text;
       },
     },
     {
-      name: "translate_text",
-      description: "Translate academic text preserving LaTeX and citations. Returns translated text.",
+      name: "find_evidence",
+      description:
+        "Find the passages of the paper that bear on a concern. Input: the concern in a sentence. " +
+        "Returns JSON passages with section, line and text, best match first. No LLM call needed.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          concern: { type: "string", description: "The concern in a sentence" },
+          max: { type: "integer", minimum: 1, maximum: 10, description: "Most passages to return (default 3)" },
+        },
+        required: ["concern"],
+      },
+      execute: async (input, args) => {
+        const { max } = toolArgs(input, args, "concern");
+        const passages = findEvidence(paper, textArg(input, args, "concern"), typeof max === "number" ? max : undefined);
+        return JSON.stringify({ passages });
+      },
+    },
+    {
+      name: "classify_concerns",
+      description: `Classify concerns with their evidence as ${CONCERN_CATEGORIES.join(" / ")}. Returns JSON with a plan per concern.`,
+      inputSchema: {
+        type: "object",
+        properties: { concerns: { type: "array", items: CONCERN_SCHEMA } },
+        required: ["concerns"],
+      },
       execute: async (input) => {
         const r = await callLlm(
-          "Translate this academic text. Preserve all LaTeX, citations, math. Return ONLY the translated text.",
+          "Classify each reviewer concern by the answer it needs: \"clarify\" (the paper already answers it, or a clarification or rewrite will), " +
+            "\"new_experiment\" (it needs a new result, baseline or analysis) or \"disagree\" (the reviewer is mistaken, as the evidence shows). " +
+            "Use the evidence passages given. Return JSON: {concerns: [{id, category, evidence: [\"Section, line: ...\"], plan}]}",
           input
         );
         return r.text;
       },
     },
     {
-      name: "verify_translation",
-      description: "Verify translation accuracy by back-translating key sentences.",
+      name: "draft_response",
+      description: `Draft the point-by-point response to the reviewer${venue} from the classified concerns, within ${maxChars} characters.`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          concerns: {
+            type: "array",
+            items: {
+              ...CONCERN_SCHEMA,
+              properties: {
+                ...CONCERN_SCHEMA.properties,
+                category: { type: "string", enum: CONCERN_CATEGORIES },
+                plan: { type: "string", description: "How the response answers it" },
+              },
+              required: ["id", "concern", "category"],
+            },
+          },
+        },
+        required: ["concerns"],
+      },
       execute: async (input) => {
         const r = await callLlm(
-          'Verify translation accuracy. Return JSON: {accuracyScore: 1-10, issues: [], verdict: "accurate"|"needs-revision"}',
+          `Draft a point-by-point author response${venue} to one reviewer. Thank them in one sentence, then answer every concern in order, ` +
+            "naming it briefly: point to the section or line that answers a \"clarify\" concern and say what will be clarified; for " +
+            "\"new_experiment\", say what was or will be run and write [TODO: result] where a number is not given, never inventing one; " +
+            "for \"disagree\", answer respectfully with the evidence. " +
+            `Plain text, at most ${maxChars} characters in total. Return only the response.`,
           input
         );
         return r.text;
       },
     },
+    {
+      name: "count_characters",
+      description: `Count the characters of a response against the ${maxChars}-character limit. No LLM call needed.`,
+      inputSchema: textSchema("The response to measure"),
+      execute: async (input, args) => {
+        const count = textArg(input, args, "text").trim().length;
+        return count > maxChars
+          ? `Characters: ${count} of ${maxChars}; ${count - maxChars} over, shorten it before answering`
+          : `Characters: ${count} of ${maxChars}; within the limit`;
+      },
+    },
   ];
 }
 
-/** Tools for the `de-ai` agent workflow. */
-export function createDeAiTools(): AgentTool[] {
+/** Tools for the `translate` agent workflow. Requires the `from` and `to` fields. */
+export function createTranslateTools(fields: { from: string; to: string; domain?: string }): AgentTool[] {
   return [
     {
-      name: "detect_signatures",
-      description: "Scan text for AI-generated writing signatures (leverage, delve, tapestry, etc.).",
+      name: "analyze_terms",
+      description: "Identify technical terms, idioms, and LaTeX commands that need careful translation.",
       execute: async (text) => {
         const r = await callLlm(
-          "Scan for AI writing signatures: overused AI words, mechanical connectors, uniform sentence length. Return JSON: {signatures: [{word, count, type}], totalFound, severityScore: 1-10}",
+          "Identify: technical terms, idioms, LaTeX commands to preserve. Return JSON: {technicalTerms: [], latexCommands: []}",
           text
         );
         return r.text;
       },
     },
+    templateTool(
+      "translate_text",
+      "Translate academic text preserving LaTeX and citations. Returns translation, notes, and back-translation.",
+      "translate",
+      fields,
+    ),
     {
-      name: "rewrite_clean",
-      description: "Rewrite text removing all AI signatures while preserving academic content.",
-      execute: async (text) => {
+      name: "verify_translation",
+      description: "Verify translation accuracy by back-translating key sentences.",
+      execute: async (input) => {
         const r = await callLlm(
-          "Rewrite to remove AI signatures. Replace AI vocabulary with natural alternatives. Vary sentence length. Return ONLY the rewritten text.",
-          text
+          'Verify translation accuracy. Return JSON: {accuracyScore: 1-10, issues: [], verdict: "accurate"|"needs-revision"}',
+          input
         );
         return r.text;
       },
@@ -364,18 +951,98 @@ export function createDeAiTools(): AgentTool[] {
   ];
 }
 
-/** Tools for the `check-logic` agent workflow. */
-export function createLogicTools(): AgentTool[] {
+/** Tools for the `de-ai` agent workflow. `lexicon` extends the local signature scan. */
+export function createDeAiTools(lexicon: SignatureLexicon = {}): AgentTool[] {
   return [
     {
-      name: "scan_contradictions",
-      description: "Scan for contradictions, terminology inconsistency, and logical gaps.",
-      execute: async (text) => {
-        const r = await callLlm(
-          'Scan for contradictions, terminology inconsistency, logical gaps, number inconsistencies. Return JSON: {issues: [{type, severity, location, description, suggestion}], summary}',
-          text
-        );
-        return r.text;
+      name: "detect_signatures",
+      description:
+        "Scan text for AI writing signatures (leverage, delve, Furthermore, uniform sentence length, dense hedging). " +
+        "Returns JSON findings with line and column. No LLM call needed.",
+      execute: async (text) => JSON.stringify(scanAiSignatures(text, lexicon)),
+    },
+    templateTool(
+      "rewrite_clean",
+      "Rewrite text removing all AI signatures while preserving academic content.",
+      "de-ai",
+    ),
+  ];
+}
+
+const REFERENCE_FIXES: Record<ReferenceIssueType, string> = {
+  undefined_label: "Add the missing \\label or point the reference at an existing one.",
+  duplicate_label: "Rename one of the labels and update its references.",
+  unreferenced_float: "Refer to it in the text, or remove it.",
+  inconsistent_ref_style: "Write every reference of this kind the same way.",
+  undefined_citation: "Add the entry to the bibliography or correct the key.",
+};
+
+const REFERENCES_CHECKED =
+  "Reference integrity (\\ref/\\label targets, duplicate labels, unreferenced figures and tables, " +
+  "reference style, and \\cite keys when the bibliography is known) has been checked locally and is added to your result. " +
+  "Do not report reference issues.\n\n";
+
+/**
+ * Add local reference findings to a check-logic reply, in the template's
+ * issue format with the summary recounted. A reply that is not JSON gets
+ * them appended as a JSON block.
+ */
+function mergeReferenceIssues(reply: string, issues: ReferenceIssue[]): string {
+  if (issues.length === 0) return reply;
+  const local = issues.map((i) => ({
+    severity: i.severity === "error" ? "critical" : "minor",
+    category: "reference",
+    location: i.file ? `${i.file}:${i.line}` : `line ${i.line}`,
+    description: i.message,
+    suggestion: REFERENCE_FIXES[i.type],
+  }));
+
+  const data = parseModelJson(reply) as { issues?: Array<{ severity?: string }> } | undefined;
+  if (!data || !Array.isArray(data.issues)) {
+    return `${reply.trim()}\n\nReference integrity (checked locally):\n${JSON.stringify({ issues: local }, null, 2)}`;
+  }
+  const merged = [...data.issues, ...local];
+  const critical = merged.filter((i) => i.severity === "critical").length;
+  return JSON.stringify({
+    ...data,
+    issues: merged,
+    summary: `${merged.length} issues found (${critical} critical, ${merged.length - critical} minor).`,
+  }, null, 2);
+}
+
+/**
+ * Tools for the `check-logic` agent workflow. `scan_contradictions` merges
+ * the local reference check into the model's findings, and `check_numbers`
+ * reports numeric claims that disagree across sections. Both use the
+ * whole-document reports in `local` when given (so a chunk sees labels and
+ * numbers from elsewhere), else check their input. Whole-document reference
+ * findings are merged into the first scan only, so each is reported once
+ * however the paper is chunked. A glossary with terms
+ * adds `check_glossary`, which reports forbidden term variants without an
+ * LLM call.
+ */
+export function createLogicTools(
+  fields: PromptFields = {},
+  glossary: Glossary = { terms: [] },
+  local: { references?: ReferenceReport; numbers?: NumberReport } = {},
+): AgentTool[] {
+  const { references, numbers } = local;
+  let unreported = references?.issues ?? [];
+  const scan = templateTool(
+    "scan_contradictions",
+    "Scan for contradictions, terminology inconsistency, and logical gaps. " +
+      "Reference problems (undefined or duplicate labels, unreferenced figures) are checked locally and merged in.",
+    "check-logic",
+    fields,
+    (input) => REFERENCES_CHECKED + input,
+  );
+  const tools: AgentTool[] = [
+    {
+      ...scan,
+      execute: async (input) => {
+        const issues = references ? unreported : checkReferences(input).issues;
+        if (references) unreported = [];
+        return mergeReferenceIssues(await scan.execute(input), issues);
       },
     },
     {
@@ -389,34 +1056,78 @@ export function createLogicTools(): AgentTool[] {
         return r.text;
       },
     },
+    {
+      name: "check_numbers",
+      description:
+        "Find numeric claims (metric values, improvements, benchmark counts, dataset sizes) that disagree across " +
+        "abstract, sections and tables. Returns JSON issues with both mentions and their lines. No LLM call needed.",
+      inputSchema: textSchema("The passage to check; the whole paper was checked when the run started"),
+      execute: async (input, args) => {
+        const text = textArg(input, args, "text");
+        const report = numbers ?? checkNumbers(text);
+        const issues = numbers ? report.issues.filter((i) => text.includes(i.match)) : report.issues;
+        return JSON.stringify({ issues, mentionCount: report.mentions.length });
+      },
+    },
   ];
+  if (glossary.terms.length > 0) {
+    tools.push({
+      name: "check_glossary",
+      description:
+        "Find terms written in a form the project glossary forbids. " +
+        "Returns JSON findings with line, column and the preferred form. No LLM call needed.",
+      execute: async (text) => JSON.stringify(checkGlossary(text, glossary)),
+    });
+  }
+  return tools;
 }
 
-/** Tools for the `analyze` agent workflow. */
-export function createAnalyzeTools(): AgentTool[] {
-  return [
-    ...createPolishTools().slice(0, 1), // analyze_issues
+/**
+ * Tools for the `analyze` agent workflow. `lexicon` extends the local
+ * signature scan. A venue report (from `checkVenue` over the whole
+ * document) adds `check_venue`, which hands its findings to the model
+ * without an LLM call. With the whole `paper`, `score_paper` scores the
+ * findings it is given against the paper's measured statistics.
+ */
+export function createAnalyzeTools(lexicon: SignatureLexicon = {}, venue?: VenueReport, paper?: string): AgentTool[] {
+  const tools: AgentTool[] = [
+    createPolishTools().find((t) => t.name === "analyze_issues")!,
     {
       name: "detect_ai_patterns",
-      description: "Detect AI writing patterns in the text.",
-      execute: async (text) => {
-        const r = await callLlm(
-          "Detect AI writing patterns. Return JSON: {patterns: [{word, index, type: signature_word|mechanical_connector}], count}",
-          text
-        );
-        return r.text;
-      },
-    },
-    {
-      name: "score_paper",
-      description: "Score the paper overall (0-100) with breakdown by category.",
-      execute: async (text) => {
-        const r = await callLlm(
-          'Score this paper 0-100. Return JSON: {overallScore, breakdown: {grammar, tone, structure, citations, aiSignatures}, summary}',
-          text
-        );
-        return r.text;
-      },
+      description:
+        "Detect AI writing patterns (signature words, mechanical connectors, uniform sentences, hedging). " +
+        "Returns JSON findings with line and column. No LLM call needed.",
+      execute: async (text) => JSON.stringify(scanAiSignatures(text, lexicon)),
     },
+    templateTool(
+      "score_paper",
+      "Score the paper overall (0-100) with per-section and per-issue breakdown, anchored to measured word counts and readability.",
+      "analyze",
+      {},
+      paper === undefined ? withMeasuredStats : (findings) => withMeasuredStats(paper, findings),
+    ),
+  ];
+  if (venue) {
+    tools.push({
+      name: "check_venue",
+      description:
+        `Check the paper against the ${venue.venue} rules: estimated page count, abstract length, required sections, ` +
+        "anonymity and citation style. Returns JSON issues with line and column for the whole paper. No LLM call needed.",
+      execute: async () => JSON.stringify(venue),
+    });
+  }
+  return tools;
+}
+
+/** Tools for the `caption` agent workflow. Requires the `type` field. */
+export function createCaptionTools(fields: { type: string }): AgentTool[] {
+  return [
+    templateTool(
+      "generate_caption",
+      "Generate short and long captions plus a LaTeX \\caption{} from a figure or table description. Returns JSON.",
+      "caption",
+      fields,
+    ),
+    createPolishTools().find((t) => t.name === "word_count")!,
   ];
 }
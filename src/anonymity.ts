@@ -0,0 +1,260 @@
+/**
+ * Double-blind anonymization checker.
+ *
+ * Finds what gives the authors away in a LaTeX submission: \author and
+ * affiliation blocks, e-mail addresses, links to code hosts and personal
+ * pages, acknowledgement and funding text, author names in the PDF metadata
+ * (\hypersetup{pdfauthor=...}), and self-citations such as "our prior work
+ * \cite{x}". The local scan catches the explicit forms; `anonymize-check`
+ * adds a model pass for subtler first-person self-reference. Each finding
+ * carries a replacement where one is safe, so `redactAnonymity` can write
+ * an anonymized copy.
+ */
+
+import { lineLocator } from "./latex";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AnonymityFindingType =
+  | "author_block"
+  | "email"
+  | "url"
+  | "acknowledgements"
+  | "funding"
+  | "pdf_metadata"
+  | "self_citation";
+
+export interface AnonymityFinding {
+  type: AnonymityFindingType;
+  severity: "error" | "warning";
+  /** File the finding is in, when a multi-file project was checked. */
+  file?: string;
+  line: number;
+  column: number;
+  /** 0-based offset and length of the match in the checked text. */
+  offset: number;
+  length: number;
+  match: string;
+  message: string;
+  /** Text that replaces the match in the redacted copy; absent when it needs a manual edit. */
+  redaction?: string;
+  /** "model" for self-references found by the model pass. */
+  source: "local" | "model";
+}
+
+export interface AnonymityReport {
+  findings: AnonymityFinding[];
+}
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+/** Commands whose arguments name or locate the authors, with their replacement. */
+const AUTHOR_COMMANDS: Record<string, string> = {
+  author: "\\author{Anonymous Authors}",
+  affiliation: "\\affiliation{Anonymous Institution}",
+  affil: "\\affil{Anonymous Institution}",
+  institute: "\\institute{Anonymous Institution}",
+  address: "\\address{Anonymous Institution}",
+  thanks: "",
+  email: "",
+  orcid: "",
+  icmlauthor: "\\icmlauthor{Anonymous Authors}{anon}",
+  icmlaffiliation: "\\icmlaffiliation{anon}{Anonymous Institution}",
+  icmlcorrespondingauthor: "",
+  IEEEauthorblockN: "\\IEEEauthorblockN{Anonymous Authors}",
+  IEEEauthorblockA: "\\IEEEauthorblockA{Anonymous Institution}",
+};
+
+const AUTHOR_COMMAND_RE = new RegExp(`\\\\(${Object.keys(AUTHOR_COMMANDS).join("|")})\\*?(?:\\s*\\[[^\\]]*\\])?\\s*\\{`, "g");
+
+/** Templates that hide the author block while in review mode. */
+const REVIEW_TEMPLATE_RE =
+  /\\usepackage\s*(?:\[[^\]]*\])?\s*\{(?:neurips_\d+|icml\d+|acl|cvpr|iccv|iclr\d+_conference)\}|\\documentclass\s*\[[^\]]*\b(?:review|anonymous)\b/;
+
+const EMAIL_RE = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+
+/** Links that lead to a person or a lab: code hosts, personal and project pages, shared drives. */
+const IDENTIFYING_URL_RE =
+  /\b(?:github\.com|gitlab\.com|bitbucket\.org|huggingface\.co|[\w-]+\.github\.io|sites\.google\.com|drive\.google\.com|dropbox\.com|zenodo\.org|orcid\.org|scholar\.google\.[a-z.]+|linkedin\.com|twitter\.com|x\.com)\b|\/~[\w.-]+/i;
+const ANONYMOUS_URL_RE = /anonymous\.4open\.science|openreview\.net/i;
+
+const URL_RE = /\\(?:url|href)\s*\{([^}]*)\}|(?<![{\w])https?:\/\/[^\s}{\\]*[^\s}{\\.,;:)]/g;
+
+const ACK_HEADING_RE =
+  /\\(?:section|subsection|paragraph)\*?\s*\{\s*(?:Acknowledge?ments?|Funding|Funding Information|Financial Support)\s*\.?\s*\}|\\acknowledgments\b|\\acks\s*\{/gi;
+const ACK_ENV_RE = /\\begin\{(ack|acks|acknowledge?ments?)\}[\s\S]*?\\end\{\1\}/gi;
+/** Where an acknowledgement section ends: the next heading, bibliography, appendix or file boundary. */
+const SECTION_END_RE =
+  /\\(?:section|chapter|appendix|bibliography|printbibliography)\b|\\begin\{thebibliography\}|\\end\{document\}|%%% (?:begin|end)-file\{/g;
+
+/** A sentence, possibly wrapped over lines, stating who funded the work. */
+const FUNDING_RE =
+  /(?:[^.\n]|\n(?![ \t]*\n))*\b(?:supported|funded|sponsored)\s+(?:in\s+part\s+|partly\s+|partially\s+)?by\b(?:[^.\n]|\n(?![ \t]*\n))*\b(?:grant|award|foundation|council|NSF|NIH|DARPA|ERC|NSFC|DFG|agency|fellowship|program(?:me)?)\b(?:[^.\n]|\n(?![ \t]*\n))*\./gi;
+
+const PDF_AUTHOR_RE = /\bpdfauthor\s*=\s*(\{[^}]*\}|[^,}\]\n]*)|\/Author\s*\(([^)]*)\)/g;
+
+/** First-person references to the authors' earlier work. */
+const SELF_CITATION_RES: RegExp[] = [
+  /\b(?:our|my)\s+(?:own\s+)?(?:prior|previous|earlier|recent|past|preliminary)\s+(?:work|works|paper|papers|study|studies|publication|publications|results?|version)\b/gi,
+  /\bwe\s+(?:have\s+)?(?:previously|earlier|recently|already)\s+(?:shown|showed|proposed|introduced|presented|developed|demonstrated|published|reported)\b/gi,
+  /\b(?:in|as\s+in|see|following|extending|building\s+on)\s+our\s+(?:\w+\s+){0,2}(?:work|paper|study|approach|method|framework|system)\b[^.\n]{0,20}\\cite/gi,
+];
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/**
+ * Replace % comments and verbatim/code blocks with spaces, keeping offsets.
+ * The file markers of an assembled project stay, as section boundaries.
+ */
+function maskComments(text: string): string {
+  return text
+    .replace(/\\begin\{((?:verbatim|Verbatim|lstlisting|minted|alltt|comment)\*?)\}[\s\S]*?\\end\{\1\}/g, (m) =>
+      m.replace(/[^\n]/g, " "))
+    .replace(/(?<![\\%])%(?!%% (?:begin|end)-file\{).*$/gm, (m) => " ".repeat(m.length));
+}
+
+/** Index just past the brace group opening at `open`, or -1 when it never closes. */
+function closeBrace(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+/**
+ * Scan a LaTeX text for what reveals its authors. Comments and verbatim
+ * blocks are skipped; they are not in the PDF (a redacted copy should
+ * still drop identifying comments before it is shared as source).
+ */
+export function scanAnonymity(text: string): AnonymityReport {
+  const source = maskComments(text);
+  const locate = lineLocator(text);
+  const findings: AnonymityFinding[] = [];
+  const add = (
+    fields: Omit<AnonymityFinding, "line" | "column" | "match" | "length" | "source">,
+    length: number,
+  ) => {
+    const overlaps = findings.some((f) => fields.offset < f.offset + f.length && f.offset < fields.offset + length);
+    if (overlaps || length <= 0) return;
+    findings.push({ ...locate(fields.offset), ...fields, length, match: text.slice(fields.offset, fields.offset + length), source: "local" });
+  };
+
+  // Acknowledgement and funding sections first: they may hold names, grants and links.
+  for (const m of source.matchAll(ACK_ENV_RE)) {
+    add({ type: "acknowledgements", severity: "error", offset: m.index!, message: "Acknowledgements can identify the authors; remove them for review", redaction: "" }, m[0].length);
+  }
+  for (const m of source.matchAll(ACK_HEADING_RE)) {
+    let end: number;
+    if (m[0].endsWith("{") && /^\\acks/.test(m[0])) {
+      end = closeBrace(source, m.index! + m[0].length - 1);
+    } else {
+      SECTION_END_RE.lastIndex = m.index! + m[0].length;
+      end = SECTION_END_RE.exec(source)?.index ?? source.length;
+    }
+    if (end < 0) continue;
+    const body = source.slice(m.index!, end).replace(/\s+$/, "");
+    add({
+      type: "acknowledgements", severity: "error", offset: m.index!,
+      message: "Acknowledgement and funding sections can identify the authors; remove them for review", redaction: "",
+    }, body.length);
+  }
+
+  // Author blocks.
+  const reviewTemplate = REVIEW_TEMPLATE_RE.test(source);
+  for (const m of source.matchAll(AUTHOR_COMMAND_RE)) {
+    const command = m[1];
+    let end = closeBrace(source, m.index! + m[0].length - 1);
+    if (end < 0) continue;
+    const argument = source.slice(m.index! + m[0].length, end - 1);
+    if (!argument.trim() || /\banonymous\b/i.test(argument)) continue;
+    // Multi-argument commands (\icmlauthor{name}{affiliation}) are replaced whole.
+    while (command.startsWith("icml") && source[end] === "{") end = closeBrace(source, end);
+    if (end < 0) continue;
+    add({
+      type: command === "email" ? "email" : "author_block",
+      severity: reviewTemplate ? "warning" : "error",
+      offset: m.index!,
+      message: reviewTemplate
+        ? `\\${command} names the authors; the template hides it only while in review mode`
+        : `\\${command} names the authors in a double-blind submission`,
+      redaction: AUTHOR_COMMANDS[command],
+    }, end - m.index!);
+  }
+
+  for (const m of source.matchAll(EMAIL_RE)) {
+    add({ type: "email", severity: "error", offset: m.index!, message: `E-mail address "${m[0]}" identifies an author`, redaction: "[anonymized]" }, m[0].length);
+  }
+
+  for (const m of source.matchAll(URL_RE)) {
+    const url = m[1] ?? m[0];
+    if (!IDENTIFYING_URL_RE.test(url) || ANONYMOUS_URL_RE.test(url)) continue;
+    const offset = m[1] !== undefined ? m.index! + m[0].indexOf(m[1]) : m.index!;
+    add({
+      type: "url", severity: "error", offset,
+      message: `Link "${url}" can lead to the authors; use an anonymized repository (e.g. anonymous.4open.science) for review`,
+      redaction: "https://anonymous.4open.science/",
+    }, url.length);
+  }
+
+  for (const m of source.matchAll(FUNDING_RE)) {
+    const lead = m[0].length - m[0].trimStart().length;
+    add({
+      type: "funding", severity: "error", offset: m.index! + lead,
+      message: "Funding statements name grants and institutions; remove them for review", redaction: "",
+    }, m[0].length - lead);
+  }
+
+  for (const m of source.matchAll(PDF_AUTHOR_RE)) {
+    const value = m[1] ?? m[2];
+    if (!value.replace(/[{}\s]/g, "")) continue;
+    const offset = m.index! + m[0].lastIndexOf(value);
+    add({
+      type: "pdf_metadata", severity: "error", offset,
+      message: "The PDF metadata names the authors (pdfauthor), which reviewers see in the document properties",
+      redaction: m[1] !== undefined ? "{}" : "",
+    }, value.length);
+  }
+
+  for (const re of SELF_CITATION_RES) {
+    for (const m of source.matchAll(re)) {
+      add({
+        type: "self_citation", severity: "error", offset: m.index!,
+        message: `"${m[0].replace(/\s+/g, " ")}" tells reviewers who the authors are; cite your earlier work in the third person`,
+      }, m[0].length);
+    }
+  }
+
+  findings.sort((a, b) => a.offset - b.offset);
+  return { findings };
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Apply every finding's redaction to `text`. Findings without one (they
+ * need rewording by hand) and findings that overlap an earlier one are
+ * left alone. Returns the redacted text and the number of redactions made.
+ */
+export function redactAnonymity(text: string, findings: AnonymityFinding[]): { text: string; redacted: number } {
+  let out = "";
+  let from = 0;
+  let redacted = 0;
+  for (const f of [...findings].sort((a, b) => a.offset - b.offset)) {
+    if (f.redaction === undefined || f.offset < from || text.slice(f.offset, f.offset + f.length) !== f.match) continue;
+    out += text.slice(from, f.offset) + f.redaction;
+    from = f.offset + f.length;
+    redacted++;
+  }
+  return { text: out + text.slice(from), redacted };
+}
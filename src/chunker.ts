@@ -0,0 +1,199 @@
+/**
+ * Section-aware document chunker.
+ *
+ * Splits LaTeX or Markdown manuscripts at \section / # headings so each
+ * agent run sees a coherent unit, falling back to paragraph boundaries
+ * when a single section is still too large. Chunks are exact slices of
+ * the source, so joining their text reproduces the document unchanged.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DocumentChunk {
+  index: number;
+  /** Heading of the section the chunk starts in, if any. */
+  heading?: string;
+  text: string;
+  /** Character offset of the chunk in the source document. */
+  start: number;
+}
+
+export interface DocumentContext {
+  title?: string;
+  abstract?: string;
+  /** Acronyms and defined terms, e.g. { LLM: "large language model" }. */
+  glossary: Record<string, string>;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+}
+
+export const DEFAULT_CHUNK_CHARS = 12000;
+
+// ============================================================================
+// Splitting
+// ============================================================================
+
+const HEADING_RE = /^(?:\\(?:part|chapter|section|subsection)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}|#{1,3}\s+(.+))/gm;
+
+export interface Section {
+  heading?: string;
+  text: string;
+  start: number;
+}
+
+/** Split a document into top-level sections at LaTeX or Markdown headings. */
+export function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  const starts: Array<{ index: number; heading: string }> = [];
+
+  for (const m of text.matchAll(HEADING_RE)) {
+    starts.push({ index: m.index!, heading: (m[1] ?? m[2]).trim() });
+  }
+
+  if (starts.length === 0 || starts[0].index > 0) {
+    const end = starts.length > 0 ? starts[0].index : text.length;
+    sections.push({ text: text.slice(0, end), start: 0 });
+  }
+
+  for (let i = 0; i < starts.length; i++) {
+    const end = i + 1 < starts.length ? starts[i + 1].index : text.length;
+    sections.push({
+      heading: starts[i].heading,
+      text: text.slice(starts[i].index, end),
+      start: starts[i].index,
+    });
+  }
+
+  return sections.filter((s) => s.text.length > 0);
+}
+
+const BOUNDARIES = [/\n\s*\n/g, /\n/g];
+
+/** Cut an oversized piece at blank lines, then single newlines, then hard. */
+function splitOversized(
+  text: string,
+  start: number,
+  maxChars: number,
+  level = 0,
+): Array<{ text: string; start: number }> {
+  if (text.length <= maxChars) return [{ text, start }];
+  if (level >= BOUNDARIES.length) return hardSplit(text, start, maxChars);
+
+  const cuts = [...text.matchAll(BOUNDARIES[level])]
+    .map((m) => m.index! + m[0].length)
+    .filter((cut) => cut < text.length);
+  if (cuts.length === 0) return splitOversized(text, start, maxChars, level + 1);
+
+  const pieces: Array<{ text: string; start: number }> = [];
+  let from = 0;
+  let last = 0;
+  for (const cut of [...cuts, text.length]) {
+    if (cut - from > maxChars && last > from) {
+      pieces.push({ text: text.slice(from, last), start: start + from });
+      from = last;
+    }
+    last = cut;
+  }
+  pieces.push({ text: text.slice(from), start: start + from });
+
+  return pieces.flatMap((p) => splitOversized(p.text, p.start, maxChars, level + 1));
+}
+
+function hardSplit(text: string, start: number, maxChars: number): Array<{ text: string; start: number }> {
+  const pieces: Array<{ text: string; start: number }> = [];
+  for (let i = 0; i < text.length; i += maxChars) {
+    pieces.push({ text: text.slice(i, i + maxChars), start: start + i });
+  }
+  return pieces;
+}
+
+/**
+ * Split a document into chunks of at most `maxChars`, preferring section
+ * boundaries. Adjacent small sections are packed together to save calls.
+ */
+export function chunkDocument(text: string, options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_CHUNK_CHARS;
+  const chunks: DocumentChunk[] = [];
+  let current: { heading?: string; text: string; start: number } | null = null;
+
+  const flush = () => {
+    if (current) chunks.push({ index: chunks.length, ...current });
+    current = null;
+  };
+
+  for (const section of splitSections(text)) {
+    if (section.text.length > maxChars) {
+      flush();
+      for (const piece of splitOversized(section.text, section.start, maxChars)) {
+        chunks.push({ index: chunks.length, heading: section.heading, ...piece });
+      }
+      continue;
+    }
+    if (current && current.text.length + section.text.length <= maxChars) {
+      current.text += section.text;
+      continue;
+    }
+    flush();
+    current = { heading: section.heading, text: section.text, start: section.start };
+  }
+  flush();
+
+  return chunks;
+}
+
+// ============================================================================
+// Shared Context
+// ============================================================================
+
+const ACRONYM_RE = /\b([A-Za-z][A-Za-z-]*(?:\s+[A-Za-z][A-Za-z-]*){0,5})\s+\(([A-Z][A-Za-z]*[A-Z]s?)\)/g;
+
+/** Extract title, abstract, and defined acronyms to share across chunks. */
+export function extractDocumentContext(text: string): DocumentContext {
+  const context: DocumentContext = { glossary: {} };
+
+  const latexTitle = text.match(/\\title\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/);
+  const mdTitle = text.match(/^#\s+(.+)$/m);
+  if (latexTitle) context.title = latexTitle[1].trim();
+  else if (mdTitle && !/^(abstract|introduction)$/i.test(mdTitle[1].trim())) {
+    context.title = mdTitle[1].trim();
+  }
+
+  const latexAbstract = text.match(/\\begin\{abstract\}([\s\S]*?)\\end\{abstract\}/);
+  const mdAbstract = text.match(/^#{1,3}\s+Abstract\s*\n([\s\S]*?)(?=^#{1,3}\s|(?![\s\S]))/im);
+  const abstract = latexAbstract?.[1] ?? mdAbstract?.[1];
+  if (abstract?.trim()) context.abstract = abstract.trim().slice(0, 2000);
+
+  for (const m of text.matchAll(ACRONYM_RE)) {
+    const acronym = m[2];
+    if (context.glossary[acronym]) continue;
+    const letters = acronym.replace(/s$/, "").length;
+    const words = m[1].split(/\s+/);
+    context.glossary[acronym] = words.slice(-letters).join(" ");
+  }
+
+  return context;
+}
+
+/** Render shared context as a goal preamble for a single chunk. */
+export function formatDocumentContext(
+  context: DocumentContext,
+  chunk: DocumentChunk,
+  totalChunks: number,
+): string {
+  if (totalChunks <= 1) return "";
+
+  const lines = [
+    `This is part ${chunk.index + 1} of ${totalChunks} of a longer document${chunk.heading ? ` (section: ${chunk.heading})` : ""}. Work only on this part; other parts are handled separately and will be reassembled in order.`,
+  ];
+  if (context.title) lines.push(`Paper title: ${context.title}`);
+  if (context.abstract) lines.push(`Paper abstract: ${context.abstract}`);
+  const terms = Object.entries(context.glossary);
+  if (terms.length > 0) {
+    lines.push(`Defined terms: ${terms.map(([k, v]) => `${k} = ${v}`).join("; ")}`);
+  }
+  return `Shared document context:\n${lines.join("\n")}\n\n`;
+}
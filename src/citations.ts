@@ -0,0 +1,377 @@
+/**
+ * Bibliography-aware citation checker.
+ *
+ * Reads a manuscript and its BibTeX/BibLaTeX files and reports cited keys
+ * with no entry, entries never cited, duplicate keys and duplicate works,
+ * entries missing the fields a reader needs (author, title, year, venue,
+ * DOI), and hand-written citations that mix styles ("Smith (2023)", "[1]",
+ * "(Johnson & Lee, 2022)") with each other or with \cite.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { findProtectedSpans } from "./latex";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BibEntry {
+  /** Entry type, lowercased ("article", "inproceedings", ...). */
+  type: string;
+  key: string;
+  /** Field values with outer braces/quotes removed, keyed by lowercased name. */
+  fields: Record<string, string>;
+  file: string;
+  line: number;
+}
+
+export interface BibSource {
+  file: string;
+  text: string;
+}
+
+export type CitationStyle = "latex" | "numeric" | "author-year";
+
+export type CitationIssueType =
+  | "undefined_key"
+  | "unused_entry"
+  | "duplicate_key"
+  | "duplicate_entry"
+  | "missing_field"
+  | "mixed_styles";
+
+export interface CitationIssue {
+  type: CitationIssueType;
+  severity: "error" | "warning" | "info";
+  /** File the issue is in: the manuscript or one of the .bib files. */
+  file: string;
+  line: number;
+  column?: number;
+  key?: string;
+  message: string;
+}
+
+export interface CitationReport {
+  issues: CitationIssue[];
+  /** Distinct keys cited with \cite-family commands, in order of first use. */
+  citedKeys: string[];
+  entryCount: number;
+  /** Citations of each style found in the manuscript. */
+  styles: Record<CitationStyle, number>;
+  bibFiles: string[];
+}
+
+// ============================================================================
+// BibTeX Parsing
+// ============================================================================
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (text[i] === "\n") line++;
+  return line;
+}
+
+/** Index just past the brace or quote group opening at `start`. */
+function skipGroup(text: string, start: number, file: string): number {
+  const open = text[start];
+  const close = open === "{" ? "}" : open === "(" ? ")" : '"';
+  let depth = 0;
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}" && depth > 0) {
+      depth--;
+    } else if (ch === close && depth === 0) {
+      return i + 1;
+    }
+  }
+  throw new Error(`Unterminated ${open}...${close} in ${file}:${lineAt(text, start)}`);
+}
+
+/**
+ * Parse BibTeX or BibLaTeX entries. @string, @preamble and @comment blocks
+ * are skipped; @string macros are not expanded.
+ */
+export function parseBibtex(text: string, file = "<bib>"): BibEntry[] {
+  const entries: BibEntry[] = [];
+  const at = /@\s*([a-zA-Z]+)\s*([{(])/g;
+  let m: RegExpExecArray | null;
+
+  while ((m = at.exec(text))) {
+    const type = m[1].toLowerCase();
+    const open = m.index + m[0].length - 1;
+    const end = skipGroup(text, open, file);
+    at.lastIndex = end;
+    if (["string", "preamble", "comment"].includes(type)) continue;
+
+    const body = text.slice(open + 1, end - 1);
+    const comma = body.indexOf(",");
+    const key = (comma < 0 ? body : body.slice(0, comma)).trim();
+    if (!key) throw new Error(`Entry without a key in ${file}:${lineAt(text, m.index)}`);
+
+    const fields: Record<string, string> = {};
+    let i = comma < 0 ? body.length : comma + 1;
+    while (i < body.length) {
+      const field = /^\s*([a-zA-Z][\w:-]*)\s*=\s*/.exec(body.slice(i));
+      if (!field) break;
+      i += field[0].length;
+      // A value is one or more {..} / ".." / bare parts joined with #.
+      const parts: string[] = [];
+      for (;;) {
+        while (/\s/.test(body[i] ?? "")) i++;
+        if (body[i] === "{" || body[i] === '"') {
+          const next = skipGroup(body, i, file);
+          parts.push(body.slice(i + 1, next - 1));
+          i = next;
+        } else {
+          const bare = /^[^,#\s}]+/.exec(body.slice(i));
+          if (!bare) break;
+          parts.push(bare[0]);
+          i += bare[0].length;
+        }
+        while (/\s/.test(body[i] ?? "")) i++;
+        if (body[i] !== "#") break;
+        i++;
+      }
+      fields[field[1].toLowerCase()] = parts.join("").replace(/\s+/g, " ").trim();
+      while (i < body.length && body[i] !== ",") i++;
+      i++;
+    }
+
+    entries.push({ type, key, fields, file, line: lineAt(text, m.index) });
+  }
+
+  return entries;
+}
+
+/**
+ * The .bib files a manuscript names with \bibliography{a,b} or
+ * \addbibresource{a.bib}, resolved against the manuscript's directory.
+ */
+export function findBibFiles(tex: string, texFile: string): string[] {
+  const dir = path.dirname(texFile);
+  const names: string[] = [];
+  for (const m of stripComments(tex).matchAll(/\\(?:bibliography|addbibresource)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g)) {
+    names.push(...m[1].split(",").map((n) => n.trim()).filter(Boolean));
+  }
+  return [...new Set(names.map((n) => path.join(dir, n.endsWith(".bib") ? n : `${n}.bib`)))];
+}
+
+/** Read bibliography files, failing with the path of any that is missing. */
+export function readBibFiles(files: string[]): BibSource[] {
+  return files.map((file) => {
+    if (!fs.existsSync(file)) throw new Error(`Bibliography file not found: ${file}`);
+    return { file, text: fs.readFileSync(file, "utf-8") };
+  });
+}
+
+// ============================================================================
+// Manuscript Scanning
+// ============================================================================
+
+/** Replace % comments with spaces, keeping offsets and newlines. */
+function stripComments(text: string): string {
+  return text.replace(/(?<!\\)%.*$/gm, (m) => " ".repeat(m.length));
+}
+
+const CITE_RE = /\\([a-zA-Z]*cite[a-zA-Z]*)\*?(?:\s*\[[^\]]*\]){0,2}\s*\{([^}]*)\}/g;
+
+const INLINE_STYLES: Array<[Exclude<CitationStyle, "latex">, RegExp]> = [
+  // [1], [2, 3], [4-6]
+  ["numeric", /(?<![\w\\\]])\[\d+(?:\s*[-–,]\s*\d+)*\]/g],
+  // Smith (2023), Smith et al. (2023), Smith and Lee (2023)
+  ["author-year", /\b[A-Z][\w'’-]+(?:\s+et al\.|\s+(?:and|\\?&)\s+[A-Z][\w'’-]+)?\s+\(\d{4}[a-z]?\)/g],
+  // (Smith, 2023), (Johnson & Lee, 2022), (Johnson \& Lee, 2022), (Smith et al., 2023; Lee, 2021)
+  ["author-year", /\([A-Z][\w'’-]+(?:\s+et al\.|\s+(?:and|\\?&)\s+[A-Z][\w'’-]+)?,?\s+\d{4}[a-z]?(?:;[^)]*)?\)/g],
+];
+
+interface Occurrence {
+  style: CitationStyle;
+  text: string;
+  offset: number;
+  keys: string[];
+}
+
+function findOccurrences(tex: string): Occurrence[] {
+  const text = stripComments(tex);
+  const found: Occurrence[] = [];
+
+  for (const m of text.matchAll(CITE_RE)) {
+    const keys = m[2].split(",").map((k) => k.trim()).filter(Boolean);
+    found.push({ style: "latex", text: m[0], offset: m.index!, keys });
+  }
+
+  // Hand-written citations, outside math, code and \cite commands.
+  const chars = text.split("");
+  for (const [start, end] of findProtectedSpans(text)) {
+    for (let i = start; i < end; i++) if (chars[i] !== "\n") chars[i] = " ";
+  }
+  const masked = chars.join("");
+  for (const [style, re] of INLINE_STYLES) {
+    for (const m of masked.matchAll(re)) {
+      found.push({ style, text: m[0], offset: m.index!, keys: [] });
+    }
+  }
+
+  return found.sort((a, b) => a.offset - b.offset);
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/** Venue field(s) a type needs; any one of them satisfies the check. */
+const VENUE_FIELDS: Record<string, string[]> = {
+  article: ["journal", "journaltitle"],
+  inproceedings: ["booktitle"],
+  conference: ["booktitle"],
+  incollection: ["booktitle"],
+  book: ["publisher"],
+  inbook: ["publisher"],
+  phdthesis: ["school", "institution"],
+  mastersthesis: ["school", "institution"],
+  thesis: ["school", "institution"],
+  techreport: ["institution"],
+  report: ["institution"],
+};
+
+/** Types expected to have a DOI; a missing one is reported as info. */
+const DOI_TYPES = new Set(["article", "inproceedings", "conference", "incollection"]);
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[{}\\]/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function missingFields(entry: BibEntry): string[] {
+  const has = (...names: string[]) => names.some((n) => entry.fields[n]);
+  const missing: string[] = [];
+  if (!has("author", "editor")) missing.push("author");
+  if (!has("title")) missing.push("title");
+  if (!has("year", "date")) missing.push("year");
+  const venue = VENUE_FIELDS[entry.type];
+  if (venue && !has(...venue)) missing.push(venue[0]);
+  return missing;
+}
+
+/**
+ * Check a manuscript's citations against its bibliography. With no
+ * bibliography sources, only the inline citation styles are checked.
+ */
+export function checkBibliography(
+  tex: string,
+  bibs: BibSource[] = [],
+  options: { texFile?: string } = {},
+): CitationReport {
+  const texFile = options.texFile ?? "<text>";
+  const issues: CitationIssue[] = [];
+  const entries = bibs.flatMap((b) => parseBibtex(b.text, b.file));
+  const occurrences = findOccurrences(tex);
+
+  const texPosition = (offset: number) => {
+    const line = lineAt(tex, offset);
+    const column = offset - (tex.lastIndexOf("\n", offset - 1) + 1) + 1;
+    return { file: texFile, line, column };
+  };
+
+  // Keys: undefined, unused, duplicated.
+  const cited = new Map<string, number>();
+  for (const o of occurrences) {
+    for (const key of o.keys) if (!cited.has(key)) cited.set(key, o.offset);
+  }
+  const citesAll = cited.has("*");
+  cited.delete("*");
+
+  if (bibs.length > 0) {
+    const byKey = new Map<string, BibEntry>();
+    for (const entry of entries) {
+      const first = byKey.get(entry.key);
+      if (first) {
+        issues.push({
+          type: "duplicate_key", severity: "error", file: entry.file, line: entry.line, key: entry.key,
+          message: `Duplicate key "${entry.key}" (first defined at ${path.basename(first.file)}:${first.line})`,
+        });
+      } else {
+        byKey.set(entry.key, entry);
+      }
+    }
+
+    for (const [key, offset] of cited) {
+      if (!byKey.has(key)) {
+        issues.push({
+          type: "undefined_key", severity: "error", ...texPosition(offset), key,
+          message: `Cited key "${key}" has no bibliography entry`,
+        });
+      }
+    }
+
+    const seenWork = new Map<string, BibEntry>();
+    for (const entry of byKey.values()) {
+      if (!citesAll && !cited.has(entry.key)) {
+        issues.push({
+          type: "unused_entry", severity: "warning", file: entry.file, line: entry.line, key: entry.key,
+          message: `Entry "${entry.key}" is never cited`,
+        });
+      }
+
+      const missing = missingFields(entry);
+      if (missing.length > 0) {
+        issues.push({
+          type: "missing_field", severity: "warning", file: entry.file, line: entry.line, key: entry.key,
+          message: `@${entry.type}{${entry.key}} is missing ${missing.join(", ")}`,
+        });
+      }
+      if (DOI_TYPES.has(entry.type) && !entry.fields.doi) {
+        issues.push({
+          type: "missing_field", severity: "info", file: entry.file, line: entry.line, key: entry.key,
+          message: `@${entry.type}{${entry.key}} has no doi`,
+        });
+      }
+
+      // The same work under two keys: same DOI, or same title and year.
+      const identities = [
+        entry.fields.doi && `doi:${entry.fields.doi.toLowerCase().replace(/^https?:\/\/(?:dx\.)?doi\.org\//, "")}`,
+        entry.fields.title && `title:${normalizeTitle(entry.fields.title)}:${entry.fields.year ?? entry.fields.date ?? ""}`,
+      ].filter(Boolean) as string[];
+      const twin = identities.map((id) => seenWork.get(id)).find(Boolean);
+      if (twin) {
+        issues.push({
+          type: "duplicate_entry", severity: "warning", file: entry.file, line: entry.line, key: entry.key,
+          message: `"${entry.key}" looks like the same work as "${twin.key}"`,
+        });
+      }
+      for (const id of identities) if (!seenWork.has(id)) seenWork.set(id, entry);
+    }
+  }
+
+  // Styles: everything not in the dominant style is flagged where it occurs.
+  // \nocite adds entries without citing anything in the text.
+  const visible = occurrences.filter((o) => !o.text.startsWith("\\nocite"));
+  const styles: Record<CitationStyle, number> = { latex: 0, numeric: 0, "author-year": 0 };
+  for (const o of visible) styles[o.style]++;
+  const used = (Object.keys(styles) as CitationStyle[]).filter((s) => styles[s] > 0);
+  if (used.length > 1) {
+    const dominant = used.reduce((a, b) => (styles[b] > styles[a] ? b : a));
+    for (const o of visible.filter((o) => o.style !== dominant)) {
+      const label = (style: CitationStyle) => (style === "latex" ? "\\cite" : style);
+      issues.push({
+        type: "mixed_styles", severity: "warning", ...texPosition(o.offset),
+        message: `"${o.text}" uses ${label(o.style)} style, but most citations here use ${label(dominant)}`,
+      });
+    }
+  }
+
+  const order = (i: CitationIssue) => (i.file === texFile ? "" : i.file);
+  issues.sort((a, b) => order(a).localeCompare(order(b)) || a.line - b.line || (a.column ?? 0) - (b.column ?? 0));
+
+  return {
+    issues,
+    citedKeys: [...cited.keys()],
+    entryCount: entries.length,
+    styles,
+    bibFiles: bibs.map((b) => b.file),
+  };
+}
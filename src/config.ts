@@ -0,0 +1,295 @@
+/**
+ * Project-level configuration (.airwriterrc.json).
+ *
+ * Lets a lab pin provider, model, temperature and max tokens globally and
+ * per command, e.g. a cheap model for `analyze` and the strongest one for
+ * `review`. Precedence: CLI flags > commands.<name> > top level > defaults.
+ * `baseUrl` points the "openai-compatible" provider at a self-hosted server;
+ * `retries`, `timeoutMs` and `fallback` control resilience to provider outages;
+ * `budget` caps a run's estimated cost in USD, priced from `prices`
+ * (USD per million tokens) over the built-in table. `nativeTools` turns
+ * native tool calling on for a self-hosted server that supports it (or off).
+ * `signatures` extends or trims the lexicon of the local AI-signature scan.
+ * `venues` adds venue profiles for --venue (see venues.ts).
+ *
+ * {
+ *   "provider": "gemini",
+ *   "temperature": 0.2,
+ *   "fallback": ["anthropic"],
+ *   "budget": 0.5,
+ *   "prices": { "gpt-5-mini": { "input": 0.25, "output": 2 } },
+ *   "models": { "openai": "gpt-5-mini" },
+ *   "signatures": { "words": ["synergy"], "ignore": ["comprehensive"] },
+ *   "commands": {
+ *     "analyze": { "model": "gemini-3-flash-preview" },
+ *     "review": { "provider": "anthropic", "maxTokens": 8192 }
+ *   }
+ * }
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { mergeLlmOptions, PROVIDER_NAMES } from "./provider";
+import type { LlmOptions } from "./provider";
+import type { ModelPrice } from "./pricing";
+import type { SignatureLexicon } from "./signatures";
+import { validateVenue } from "./venues";
+import type { VenueProfile } from "./venues";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ResearchWriterConfig extends LlmOptions {
+  /** Per-command overrides, keyed by CLI command name. */
+  commands?: Record<string, LlmOptions>;
+  /** Additions to and exclusions from the local AI-signature lexicon. */
+  signatures?: SignatureLexicon;
+  /** Project venue profiles, keyed by the name --venue uses. */
+  venues?: Record<string, VenueProfile>;
+}
+
+export interface LoadedConfig {
+  config: ResearchWriterConfig;
+  /** File the config was read from, or null when none was found. */
+  path: string | null;
+}
+
+export const CONFIG_FILENAME = ".airwriterrc.json";
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/** Walk up from `startDir` looking for a config file (or another project file by `name`). */
+export function findConfigFile(startDir: string = process.cwd(), name: string = CONFIG_FILENAME): string | null {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    const candidate = path.join(dir, name);
+    if (fs.existsSync(candidate)) return candidate;
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Load and validate the config at `configPath`, or the nearest
+ * .airwriterrc.json when no path is given. Missing files yield an empty config.
+ */
+export function loadConfig(configPath?: string): LoadedConfig {
+  const file = configPath ?? findConfigFile();
+  if (!file) return { config: {}, path: null };
+  if (!fs.existsSync(file)) {
+    throw new Error(`Config file not found: ${file}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid JSON in ${file}: ${err.message}`);
+  }
+  return { config: validateConfig(raw, file), path: file };
+}
+
+function validateLlmOptions(raw: unknown, where: string): LlmOptions {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${where} must be an object`);
+  }
+  const obj = raw as Record<string, unknown>;
+  const out: LlmOptions = {};
+
+  if (obj.provider !== undefined) {
+    if (typeof obj.provider !== "string" || !PROVIDER_NAMES.includes(obj.provider)) {
+      throw new Error(`${where}: "provider" must be one of ${PROVIDER_NAMES.join(", ")}`);
+    }
+    out.provider = obj.provider;
+  }
+  if (obj.model !== undefined) {
+    if (typeof obj.model !== "string" || !obj.model) throw new Error(`${where}: "model" must be a string`);
+    out.model = obj.model;
+  }
+  if (obj.models !== undefined) {
+    const models = obj.models as Record<string, unknown>;
+    if (typeof models !== "object" || models === null || Array.isArray(models) ||
+        Object.values(models).some((m) => typeof m !== "string")) {
+      throw new Error(`${where}: "models" must map provider names to model strings`);
+    }
+    out.models = models as Record<string, string>;
+  }
+  if (obj.baseUrl !== undefined) out.baseUrl = parseBaseUrl(obj.baseUrl, where);
+  if (obj.temperature !== undefined) out.temperature = parseTemperature(obj.temperature, where);
+  if (obj.maxTokens !== undefined) out.maxTokens = parseMaxTokens(obj.maxTokens, where);
+  if (obj.retries !== undefined) out.retries = parseRetries(obj.retries, where);
+  if (obj.timeoutMs !== undefined) {
+    if (typeof obj.timeoutMs !== "number" || !Number.isInteger(obj.timeoutMs) || obj.timeoutMs <= 0) {
+      throw new Error(`${where}: "timeoutMs" must be a positive integer`);
+    }
+    out.timeoutMs = obj.timeoutMs;
+  }
+  if (obj.fallback !== undefined) {
+    if (!Array.isArray(obj.fallback) || obj.fallback.some((p) => typeof p !== "string")) {
+      throw new Error(`${where}: "fallback" must be an array of provider names`);
+    }
+    out.fallback = parseFallback(obj.fallback, where);
+  }
+  if (obj.budget !== undefined) out.budget = parseBudget(obj.budget, where);
+  if (obj.nativeTools !== undefined) {
+    if (typeof obj.nativeTools !== "boolean") throw new Error(`${where}: "nativeTools" must be true or false`);
+    out.nativeTools = obj.nativeTools;
+  }
+  if (obj.prices !== undefined) {
+    const prices = obj.prices as Record<string, unknown>;
+    const isPrice = (p: unknown) => {
+      if (typeof p !== "object" || p === null) return false;
+      const { input, output } = p as Record<string, unknown>;
+      return [input, output].every((n) => typeof n === "number" && Number.isFinite(n) && n >= 0);
+    };
+    if (typeof prices !== "object" || prices === null || Array.isArray(prices) ||
+        !Object.values(prices).every(isPrice)) {
+      throw new Error(`${where}: "prices" must map model names to { "input": <usd>, "output": <usd> } per million tokens`);
+    }
+    out.prices = prices as Record<string, ModelPrice>;
+  }
+
+  return out;
+}
+
+/** Validate a parsed config object, throwing with the offending key. */
+export function validateConfig(raw: unknown, source = CONFIG_FILENAME): ResearchWriterConfig {
+  const config: ResearchWriterConfig = validateLlmOptions(raw, source);
+  const commands = (raw as Record<string, unknown>).commands;
+  if (commands !== undefined) {
+    if (typeof commands !== "object" || commands === null || Array.isArray(commands)) {
+      throw new Error(`${source}: "commands" must be an object`);
+    }
+    config.commands = {};
+    for (const [name, value] of Object.entries(commands)) {
+      config.commands[name] = validateLlmOptions(value, `${source} commands.${name}`);
+    }
+  }
+  const signatures = (raw as Record<string, unknown>).signatures;
+  if (signatures !== undefined) config.signatures = validateSignatures(signatures, source);
+  const venues = (raw as Record<string, unknown>).venues;
+  if (venues !== undefined) {
+    if (typeof venues !== "object" || venues === null || Array.isArray(venues)) {
+      throw new Error(`${source}: "venues" must map venue names to profiles`);
+    }
+    config.venues = {};
+    for (const [name, value] of Object.entries(venues)) {
+      config.venues[name] = validateVenue(value, `${source} venues.${name}`, config.venues);
+    }
+  }
+  return config;
+}
+
+function validateSignatures(raw: unknown, source: string): SignatureLexicon {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${source}: "signatures" must be an object`);
+  }
+  const out: SignatureLexicon = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!["words", "connectors", "hedges", "ignore"].includes(key)) {
+      throw new Error(`${source}: unknown key signatures.${key} (use words, connectors, hedges or ignore)`);
+    }
+    if (!Array.isArray(value) || value.some((t) => typeof t !== "string" || !t.trim())) {
+      throw new Error(`${source}: signatures.${key} must be an array of non-empty strings`);
+    }
+    out[key as keyof SignatureLexicon] = value;
+  }
+  return out;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+function parseBaseUrl(value: unknown, where: string): string {
+  if (typeof value !== "string" || !/^https?:\/\//.test(value)) {
+    throw new Error(`${where}: base URL must be an http(s) URL`);
+  }
+  return value;
+}
+
+function parseTemperature(value: unknown, where: string): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n) || n < 0 || n > 2) {
+    throw new Error(`${where}: temperature must be a number between 0 and 2`);
+  }
+  return n;
+}
+
+function parseMaxTokens(value: unknown, where: string): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n <= 0) {
+    throw new Error(`${where}: max tokens must be a positive integer`);
+  }
+  return n;
+}
+
+function parseRetries(value: unknown, where: string): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || n > 10) {
+    throw new Error(`${where}: retries must be an integer between 0 and 10`);
+  }
+  return n;
+}
+
+function parseBudget(value: unknown, where: string): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n) || n <= 0) {
+    throw new Error(`${where}: budget must be a positive amount in USD`);
+  }
+  return n;
+}
+
+function parseTimeoutSeconds(value: string, where: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new Error(`${where}: timeout must be a positive number of seconds`);
+  }
+  return Math.round(n * 1000);
+}
+
+function parseFallback(names: string[], where: string): string[] {
+  const unknown = names.filter((name) => !PROVIDER_NAMES.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`${where}: unknown fallback provider ${unknown.join(", ")} (one of ${PROVIDER_NAMES.join(", ")})`);
+  }
+  return names;
+}
+
+/**
+ * Resolve the LLM options for one command from the config file and the
+ * --provider / --model / --base-url / --temperature / --max-tokens /
+ * --retries / --timeout / --fallback / --budget flags.
+ */
+export function resolveLlmOptions(
+  config: ResearchWriterConfig,
+  command: string,
+  flags: Record<string, string> = {},
+): LlmOptions {
+  const fromFlags: LlmOptions = {};
+  if (flags.provider) {
+    if (!PROVIDER_NAMES.includes(flags.provider)) {
+      throw new Error(`--provider must be one of ${PROVIDER_NAMES.join(", ")}`);
+    }
+    fromFlags.provider = flags.provider;
+  }
+  if (flags.model) fromFlags.model = flags.model;
+  if (flags["base-url"]) fromFlags.baseUrl = parseBaseUrl(flags["base-url"], "--base-url");
+  if (flags.temperature) fromFlags.temperature = parseTemperature(flags.temperature, "--temperature");
+  if (flags["max-tokens"]) fromFlags.maxTokens = parseMaxTokens(flags["max-tokens"], "--max-tokens");
+  if (flags.retries) fromFlags.retries = parseRetries(flags.retries, "--retries");
+  if (flags.timeout) fromFlags.timeoutMs = parseTimeoutSeconds(flags.timeout, "--timeout");
+  if (flags.budget) fromFlags.budget = parseBudget(flags.budget.replace(/^\$/, ""), "--budget");
+  if (flags.fallback) {
+    fromFlags.fallback = flags.fallback === "none"
+      ? []
+      : parseFallback(flags.fallback.split(",").map((name) => name.trim()).filter(Boolean), "--fallback");
+  }
+
+  const { commands, signatures, venues, ...global } = config;
+  return mergeLlmOptions(global, commands?.[command], fromFlags);
+}
@@ -0,0 +1,151 @@
+/**
+ * Minimal unified diff for reviewing rewrites before they touch a file.
+ * Zero dependencies — a line-level LCS with standard `@@` hunks, so the
+ * output can be read like `git diff` or piped into `patch`.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DiffOptions {
+  fromFile?: string;
+  toFile?: string;
+  /** Unchanged lines shown around each change. Default 3. */
+  context?: number;
+}
+
+export interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+/** Beyond this many LCS cells the middle section is reported as one replacement. */
+const MAX_LCS_CELLS = 25_000_000;
+
+// ============================================================================
+// Line Diff
+// ============================================================================
+
+/** Split into lines that keep their "\n", so a missing final newline is visible. */
+function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** Compute the edit script between two line arrays (longest common subsequence). */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const ops: DiffOp[] = a.slice(0, prefix).map((line) => ({ type: " " as const, line }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line) => ({ type: "-" as const, line })));
+    ops.push(...midB.map((line) => ({ type: "+" as const, line })));
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ type: " ", line: midA[i++] });
+        j++;
+      } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+        ops.push({ type: "+", line: midB[j++] });
+      } else {
+        ops.push({ type: "-", line: midA[i++] });
+      }
+    }
+    // Conventional order within a change block: removals before additions.
+    for (let k = 0; k < ops.length; k++) {
+      if (ops[k].type !== "+") continue;
+      let end = k;
+      while (end < ops.length && ops[end].type !== " ") end++;
+      const block = ops.slice(k, end);
+      ops.splice(k, block.length, ...block.filter((o) => o.type === "-"), ...block.filter((o) => o.type === "+"));
+      k = end;
+    }
+  }
+
+  ops.push(...a.slice(a.length - suffix).map((line) => ({ type: " " as const, line })));
+  return ops;
+}
+
+// ============================================================================
+// Unified Format
+// ============================================================================
+
+function formatLine(op: DiffOp): string {
+  if (op.line.endsWith("\n")) return op.type + op.line.slice(0, -1);
+  return `${op.type}${op.line}\n\\ No newline at end of file`;
+}
+
+function rangeHeader(start: number, count: number): string {
+  // Empty ranges point at the line before the change, per diff(1).
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Produce a unified diff between two texts. Returns an empty string when
+ * they are identical.
+ */
+export function unifiedDiff(oldText: string, newText: string, options: DiffOptions = {}): string {
+  const { fromFile = "a", toFile = "b", context = 3 } = options;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  if (ops.every((op) => op.type === " ")) return "";
+
+  const out = [`--- ${fromFile}`, `+++ ${toFile}`];
+  let k = 0;
+
+  while (k < ops.length) {
+    while (k < ops.length && ops[k].type === " ") k++;
+    if (k >= ops.length) break;
+
+    // Extend the hunk while changes are within 2 * context of each other.
+    const start = Math.max(0, k - context);
+    let end = k;
+    let lastChange = k;
+    while (end < ops.length) {
+      if (ops[end].type !== " ") lastChange = end;
+      else if (end - lastChange > 2 * context) break;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (let p = 0; p < start; p++) {
+      if (ops[p].type !== "+") oldStart++;
+      if (ops[p].type !== "-") newStart++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+
+    out.push(`@@ -${rangeHeader(oldStart, oldCount)} +${rangeHeader(newStart, newCount)} @@`);
+    out.push(...hunk.map(formatLine));
+    k = end;
+  }
+
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,231 @@
+/**
+ * Sentence-level review of a rewrite.
+ *
+ * `planEdits` diffs the original against the model's rewrite sentence by
+ * sentence (reusing diffLines) and groups consecutive changed sentences
+ * into hunks, each matched to the modification-log entry that explains it.
+ * `reviewEdits` walks the hunks on a terminal and asks to accept, reject or
+ * edit each one; `mergeEdits` builds the text from the answers.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import { spawnSync } from "child_process";
+import { diffLines } from "./diff";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EditHunk {
+  /** File the hunk belongs to, when reviewing a multi-file project. */
+  file?: string;
+  /** 1-based line in the original where the hunk starts. */
+  line: number;
+  /** Original text of the hunk ("" for a pure insertion). */
+  before: string;
+  /** Rewritten text of the hunk ("" for a pure deletion). */
+  after: string;
+  /** Modification-log entry that best explains the change, when there is one. */
+  rationale?: string;
+}
+
+export interface EditPlan {
+  /** Unchanged text and hunks, in document order. */
+  parts: Array<string | EditHunk>;
+  hunks: EditHunk[];
+}
+
+export interface ReviewOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  /** Editor command for "edit" (e.g. $EDITOR); without one, edits are typed on one line. */
+  editor?: string;
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Split text into sentences that keep their trailing whitespace, breaking at
+ * every newline too, so joining the units gives back the text exactly.
+ */
+function splitUnits(text: string): string[] {
+  return text.match(/[^\n]*?[.!?]+["')\]]*[ \t]+|[^\n]*\n|[^\n]+/g) ?? [];
+}
+
+/** Lowercased words that one side of a change has and the other lacks. */
+function changedWords(before: string, after: string): string[] {
+  const words = (t: string) => new Set(t.toLowerCase().match(/[a-z][a-z'-]{2,}/g) ?? []);
+  const a = words(before);
+  const b = words(after);
+  return [...a].filter((w) => !b.has(w)).concat([...b].filter((w) => !a.has(w)));
+}
+
+/**
+ * The log entry that shares the most changed words (or quoted fragments,
+ * which weigh more) with a hunk, if any shares at least one.
+ */
+function matchRationale(hunk: EditHunk, log: string[]): string | undefined {
+  const words = changedWords(hunk.before, hunk.after);
+  let best: string | undefined;
+  let bestScore = 0;
+  for (const entry of log) {
+    const lower = entry.toLowerCase();
+    const quoted = [...entry.matchAll(/["“'`]([^"”'`]{2,})["”'`]/g)].map((m) => m[1].toLowerCase());
+    const score =
+      words.filter((w) => new RegExp(`\\b${w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`).test(lower)).length +
+      3 * quoted.filter((q) => hunk.before.toLowerCase().includes(q) || hunk.after.toLowerCase().includes(q)).length;
+    if (score > bestScore) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Diff `original` against `rewritten` sentence by sentence. Consecutive
+ * changed sentences form one hunk; `log` entries (from the answer's
+ * modification log) are attached as rationale.
+ */
+export function planEdits(original: string, rewritten: string, log: string[] = [], file?: string): EditPlan {
+  const ops = diffLines(splitUnits(original), splitUnits(rewritten));
+  const parts: Array<string | EditHunk> = [];
+  const hunks: EditHunk[] = [];
+  let line = 1;
+  let k = 0;
+
+  while (k < ops.length) {
+    if (ops[k].type === " ") {
+      parts.push(ops[k].line);
+      line += (ops[k].line.match(/\n/g) ?? []).length;
+      k++;
+      continue;
+    }
+    let before = "";
+    let after = "";
+    const start = line;
+    for (; k < ops.length && ops[k].type !== " "; k++) {
+      if (ops[k].type === "-") {
+        before += ops[k].line;
+        line += (ops[k].line.match(/\n/g) ?? []).length;
+      } else {
+        after += ops[k].line;
+      }
+    }
+    const hunk: EditHunk = { ...(file ? { file } : {}), line: start, before, after };
+    const rationale = matchRationale(hunk, log);
+    if (rationale) hunk.rationale = rationale;
+    parts.push(hunk);
+    hunks.push(hunk);
+  }
+
+  return { parts, hunks };
+}
+
+/** Rebuild the text, putting `replacements[i]` in place of hunk i. */
+export function mergeEdits(plan: EditPlan, replacements: string[]): string {
+  let i = 0;
+  return plan.parts.map((part) => (typeof part === "string" ? part : replacements[i++])).join("");
+}
+
+// ============================================================================
+// Interactive Review
+// ============================================================================
+
+const REVIEW_HELP =
+  "  y = accept, n = reject, e = edit, a = accept this and all remaining, " +
+  "d = reject this and all remaining, q = quit without writing";
+
+function showText(prefix: string, text: string): string {
+  if (text === "") return `  ${prefix} (nothing)`;
+  return text.replace(/\n$/, "").split("\n").map((l) => `  ${prefix} ${l}`).join("\n");
+}
+
+/** Open `text` in `editor` and return what was saved. */
+function editInEditor(editor: string, text: string): string {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "airwriter-edit-")), "hunk.tex");
+  fs.writeFileSync(file, text, "utf-8");
+  try {
+    const result = spawnSync(editor, [file], { stdio: "inherit", shell: true });
+    if (result.status !== 0) throw new Error(`Editor "${editor}" exited with status ${result.status}`);
+    return fs.readFileSync(file, "utf-8");
+  } finally {
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Ask about each hunk in turn and return the text to use for each:
+ * the rewrite if accepted, the original if rejected, or the user's edit.
+ * Throws when the user quits or the input ends, so nothing is written.
+ */
+export async function reviewEdits(hunks: EditHunk[], options: ReviewOptions = {}): Promise<string[]> {
+  const output = options.output ?? process.stderr;
+  const rl = readline.createInterface({ input: options.input ?? process.stdin, output, terminal: false });
+  const lines: string[] = [];
+  const waiting: Array<(line: string | null) => void> = [];
+  let closed = false;
+  rl.on("line", (line) => (waiting.length > 0 ? waiting.shift()!(line) : lines.push(line)));
+  rl.on("close", () => {
+    closed = true;
+    for (const resolve of waiting.splice(0)) resolve(null);
+  });
+  const ask = (question: string) => {
+    output.write(question);
+    if (lines.length > 0) return Promise.resolve<string | null>(lines.shift()!);
+    if (closed) return Promise.resolve<string | null>(null);
+    return new Promise<string | null>((resolve) => waiting.push(resolve));
+  };
+
+  const replacements: string[] = [];
+  let rest: "accept" | "reject" | undefined;
+  try {
+    for (let i = 0; i < hunks.length; i++) {
+      const hunk = hunks[i];
+      if (rest) {
+        replacements.push(rest === "accept" ? hunk.after : hunk.before);
+        continue;
+      }
+
+      output.write(`\n  [${i + 1}/${hunks.length}] ${hunk.file ? `${hunk.file}:` : "line "}${hunk.line}\n`);
+      if (hunk.rationale) output.write(`  Why: ${hunk.rationale}\n`);
+      output.write(`${showText("-", hunk.before)}\n${showText("+", hunk.after)}\n`);
+
+      for (;;) {
+        const answer = await ask("  Accept this change? [y,n,e,a,d,q,?] ");
+        if (answer === null) throw new Error("Review ended before every change was decided; nothing was written.");
+        const choice = answer.trim().toLowerCase();
+        if (choice === "y" || choice === "a") {
+          replacements.push(hunk.after);
+          if (choice === "a") rest = "accept";
+        } else if (choice === "n" || choice === "d") {
+          replacements.push(hunk.before);
+          if (choice === "d") rest = "reject";
+        } else if (choice === "e") {
+          const trailing = (hunk.after || hunk.before).match(/\s*$/)![0];
+          if (options.editor) {
+            replacements.push(editInEditor(options.editor, hunk.after));
+          } else {
+            const edited = await ask("  Replacement (one line): ");
+            if (edited === null) continue;
+            replacements.push(edited.trimEnd() + trailing);
+          }
+        } else if (choice === "q") {
+          throw new Error("Review cancelled; nothing was written.");
+        } else {
+          output.write(`${REVIEW_HELP}\n`);
+          continue;
+        }
+        break;
+      }
+    }
+  } finally {
+    rl.close();
+  }
+  return replacements;
+}
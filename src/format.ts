@@ -0,0 +1,576 @@
+/**
+ * Output formatting for agent results.
+ *
+ * `text` is the human-readable trace the CLI has always printed,
+ * `markdown` renders the same content for reports and PR comments, and
+ * `json` emits the full AgentResult plus parsed tool JSON for scripts.
+ * Local reports (scan-ai, stats, cite-check, glossary, reference, number and
+ * anonymity checks), venue profiles and saved runs use the same three formats.
+ */
+
+import { extractFinalText } from "./agent";
+import { formatCost } from "./pricing";
+import type { AgentResult, AgentStep } from "./agent";
+import type { SignatureReport } from "./signatures";
+import type { DocumentStats, TextStats } from "./stats";
+import type { CitationReport } from "./citations";
+import type { GlossaryReport } from "./glossary";
+import type { ReferenceReport } from "./references";
+import type { NumberReport } from "./numbers";
+import type { AnonymityReport } from "./anonymity";
+import { describeVenue } from "./venues";
+import type { VenueProfile } from "./venues";
+import type { RunRecord } from "./runs";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OutputFormat = "text" | "markdown" | "json";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "markdown", "json"];
+
+export interface JsonAgentStep extends AgentStep {
+  /** Tool observation parsed as JSON (scores, issue lists), when it is JSON. */
+  data?: unknown;
+}
+
+export interface JsonAgentResult extends Omit<AgentResult, "steps"> {
+  steps: JsonAgentStep[];
+  /** Final answer with template sections such as the modification log removed. */
+  finalText: string;
+  /** Final answer parsed as JSON, when it is JSON. */
+  data?: unknown;
+}
+
+// ============================================================================
+// JSON Extraction
+// ============================================================================
+
+/**
+ * Parse JSON that a model returned, tolerating code fences and prose around
+ * the object. Returns undefined when no JSON value can be recovered.
+ */
+export function parseModelJson(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, "$1").trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through to the first balanced object/array
+  }
+
+  const start = trimmed.search(/[[{]/);
+  if (start < 0) return undefined;
+  const open = trimmed[start];
+  const close = open === "{" ? "}" : "]";
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === open) {
+      depth++;
+    } else if (ch === close && --depth === 0) {
+      try {
+        return JSON.parse(trimmed.slice(start, i + 1));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Attach parsed tool JSON to every step and split out the final text. */
+export function toJsonResult(result: AgentResult): JsonAgentResult {
+  const data = parseModelJson(result.finalAnswer);
+  return {
+    ...result,
+    steps: result.steps.map((step) => {
+      const parsed = parseModelJson(step.observation);
+      return parsed === undefined ? { ...step } : { ...step, data: parsed };
+    }),
+    finalText: result.text ?? extractFinalText(result.finalAnswer),
+    ...(data === undefined ? {} : { data }),
+  };
+}
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+/** Human-readable agent trace followed by the final answer. */
+export function formatAgentResult(result: AgentResult): string {
+  const lines: string[] = [];
+
+  if (result.steps.length > 0) {
+    lines.push(`\n  Agent Trace (${result.totalSteps} steps):`);
+    lines.push(`  ${"=".repeat(50)}`);
+    for (let i = 0; i < result.steps.length; i++) {
+      const step = result.steps[i];
+      lines.push(`  Step ${i + 1}: [${step.action}]`);
+      lines.push(`    Thought: ${step.thought}`);
+      lines.push(`    Result: ${truncate(step.observation, 200)}`);
+      lines.push("");
+    }
+  }
+
+  if (result.failovers?.length) {
+    lines.push(`  Provider Failovers:`);
+    for (const f of result.failovers) {
+      lines.push(`    Step ${f.step}: ${f.provider} (${f.model}) failed: ${truncate(f.error, 200)}`);
+    }
+    lines.push("");
+  }
+
+  lines.push(`  Final Answer:`);
+  lines.push(`  ${"=".repeat(50)}`);
+  lines.push(result.finalAnswer);
+  lines.push(`\n  ---`);
+  lines.push(`  ${formatSummaryLine(result)}`);
+
+  return lines.join("\n");
+}
+
+/** Markdown report: final answer first, then the collapsible agent trace. */
+export function formatAgentResultMarkdown(result: AgentResult): string {
+  const lines: string[] = ["## Result", "", result.finalAnswer.trim(), ""];
+
+  if (result.steps.length > 0) {
+    lines.push(`## Agent Trace (${result.totalSteps} steps)`, "");
+    result.steps.forEach((step, i) => {
+      lines.push(`### Step ${i + 1}: \`${step.action}\``, "");
+      if (step.thought) lines.push(`**Thought:** ${step.thought}`, "");
+      lines.push("<details><summary>Observation</summary>", "", "```", step.observation.trim(), "```", "", "</details>", "");
+    });
+  }
+
+  if (result.failovers?.length) {
+    lines.push("## Provider Failovers", "");
+    for (const f of result.failovers) {
+      lines.push(`- Step ${f.step}: \`${f.provider}\` (${f.model}) failed: ${truncate(f.error, 200)}`);
+    }
+    lines.push("");
+  }
+
+  lines.push("---", `_${formatSummaryLine(result)}_`);
+  return lines.join("\n");
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max) + "..." : text;
+}
+
+function formatSummaryLine(result: AgentResult): string {
+  const chunkInfo = result.chunks ? ` across ${result.chunks} chunks` : "";
+  let line = `Agent: ${result.totalSteps} steps${chunkInfo} | Provider: ${result.provider} | Model: ${result.model}`;
+  if (result.usage) {
+    line += ` | Tokens: ${result.usage.inputTokens} in / ${result.usage.outputTokens} out`;
+  }
+  if (result.cost !== undefined) line += ` | Cost: ~${formatCost(result.cost)}`;
+  if (result.wordCount) {
+    const w = result.wordCount;
+    line += ` | Words: ${w.before} -> ${w.after} (target ${w.target}, accepted ${w.min}-${w.max}` +
+      (w.converged ? ")" : `; not reached after ${w.rounds} rounds)`);
+  }
+  if (result.characters) {
+    const c = result.characters;
+    const over = c.responses.filter((r) => r.characters > c.limit).map((r) => r.reviewer);
+    line += ` | Characters: ${c.responses.map((r) => `${r.reviewer} ${r.characters}`).join(", ")} (limit ${c.limit}` +
+      (over.length === 0 ? ")" : `; still over: ${over.join(", ")})`);
+  }
+  return line;
+}
+
+/** Render a result in the requested output format. */
+export function formatResult(result: AgentResult, format: OutputFormat = "text"): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(toJsonResult(result), null, 2);
+    case "markdown":
+      return formatAgentResultMarkdown(result);
+    default:
+      return formatAgentResult(result);
+  }
+}
+
+// ============================================================================
+// Signature Reports
+// ============================================================================
+
+function formatSignatureSummary(report: SignatureReport): string {
+  const { counts, sentenceLength: s } = report;
+  return `${report.findings.length} findings (${counts.signature_word} signature words, ` +
+    `${counts.mechanical_connector} connectors, ${counts.uniform_sentences} uniform paragraphs, ` +
+    `${counts.hedging} hedges) | ${report.wordCount} words | ` +
+    `Sentence length: ${s.mean} ± ${s.stdDev} words | Hedging: ${report.hedgingDensity} per 100 words`;
+}
+
+/** Render a local AI-signature scan, one `file:line:col` finding per line. */
+export function formatSignatureReport(
+  report: SignatureReport,
+  format: OutputFormat = "text",
+  file = "<text>",
+): string {
+  if (format === "json") return JSON.stringify({ file, ...report }, null, 2);
+
+  if (format === "markdown") {
+    const lines = [`## AI Signatures: \`${file}\``, ""];
+    if (report.findings.length > 0) {
+      lines.push("| Line | Col | Type | Match | Suggestion |", "|------|-----|------|-------|------------|");
+      for (const f of report.findings) {
+        const match = truncate(f.match, 60).replace(/\|/g, "\\|");
+        const line = f.file ? `${f.file}:${f.line}` : String(f.line);
+        lines.push(`| ${line} | ${f.column} | ${f.type} | ${match} | ${f.suggestion ?? ""} |`);
+      }
+      lines.push("");
+    }
+    lines.push("---", `_${formatSignatureSummary(report)}_`);
+    return lines.join("\n");
+  }
+
+  const lines = report.findings.map((f) =>
+    `${f.file ?? file}:${f.line}:${f.column}  ${f.severity}  ${f.type}  ${f.message}` +
+    (f.suggestion ? ` (suggest: ${f.suggestion})` : ""),
+  );
+  lines.push(formatSignatureSummary(report));
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Document Stats
+// ============================================================================
+
+const STATS_COLUMNS: Array<[string, (s: TextStats) => string]> = [
+  ["Words", (s) => String(s.wordCount)],
+  ["Sent.", (s) => String(s.sentenceCount)],
+  ["Avg len", (s) => String(s.avgSentenceLength)],
+  ["FK grade", (s) => String(s.readabilityGrade)],
+  ["Ease", (s) => String(s.readingEase)],
+  ["Fog", (s) => String(s.gunningFog)],
+  ["Passive", (s) => `${Math.round(s.passiveRatio * 100)}%`],
+  ["Contr.", (s) => String(s.contractions)],
+  ["Hedges", (s) => String(s.hedges)],
+];
+
+/** Render per-section readability and style metrics as a table. */
+export function formatDocumentStats(stats: DocumentStats, format: OutputFormat = "text", file = "<text>"): string {
+  if (format === "json") return JSON.stringify({ file, ...stats }, null, 2);
+
+  const header = ["Section", "Lines", ...STATS_COLUMNS.map(([name]) => name)];
+  const rows = [
+    ...stats.sections.map((s) => [
+      s.name,
+      `${s.file ? `${s.file}:` : ""}${s.lineStart}-${s.lineEnd}`,
+      ...STATS_COLUMNS.map(([, get]) => get(s)),
+    ]),
+    ["Total", "", ...STATS_COLUMNS.map(([, get]) => get(stats.totals))],
+  ];
+
+  if (format === "markdown") {
+    const line = (cells: string[]) => `| ${cells.map((c) => c.replace(/\|/g, "\\|")).join(" | ")} |`;
+    return [
+      `## Document Stats: \`${file}\``,
+      "",
+      line(header),
+      line(header.map(() => "---")),
+      ...rows.map(line),
+    ].join("\n");
+  }
+
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cells: string[]) =>
+    cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("  ").trimEnd();
+  return [
+    `  ${file}`,
+    `  ${line(header)}`,
+    `  ${widths.map((w) => "-".repeat(w)).join("  ")}`,
+    ...rows.map((r) => `  ${line(r)}`),
+  ].join("\n");
+}
+
+// ============================================================================
+// Citation Reports
+// ============================================================================
+
+function formatCitationSummary(report: CitationReport): string {
+  const count = (severity: string) => report.issues.filter((i) => i.severity === severity).length;
+  const styles = Object.entries(report.styles)
+    .filter(([, n]) => n > 0)
+    .map(([style, n]) => `${n} ${style}`)
+    .join(", ");
+  return `${report.issues.length} issues (${count("error")} errors, ${count("warning")} warnings, ${count("info")} info) | ` +
+    `${report.citedKeys.length} keys cited, ${report.entryCount} entries | Citations: ${styles || "none"}`;
+}
+
+/** Render a citation check, one `file:line` issue per line. */
+export function formatCitationReport(report: CitationReport, format: OutputFormat = "text"): string {
+  if (format === "json") return JSON.stringify(report, null, 2);
+
+  const where = (i: CitationReport["issues"][number]) => `${i.file}:${i.line}${i.column ? `:${i.column}` : ""}`;
+  const noBib = report.bibFiles.length === 0
+    ? "No .bib file found (add \\bibliography{...} or pass --bib); only citation styles were checked."
+    : "";
+
+  if (format === "markdown") {
+    const lines = ["## Citation Check", ""];
+    if (noBib) lines.push(`> ${noBib}`, "");
+    for (const i of report.issues) {
+      lines.push(`- **${i.severity}** \`${where(i)}\` ${i.type}: ${i.message.replace(/\|/g, "\\|")}`);
+    }
+    if (report.issues.length > 0) lines.push("");
+    lines.push("---", `_${formatCitationSummary(report)}_`);
+    return lines.join("\n");
+  }
+
+  const lines = report.issues.map((i) => `${where(i)}  ${i.severity}  ${i.type}  ${i.message}`);
+  if (noBib) lines.push(noBib);
+  lines.push(formatCitationSummary(report));
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Glossary Reports
+// ============================================================================
+
+function formatGlossarySummary(report: GlossaryReport): string {
+  return `${report.findings.length} glossary violations | ${report.termCount} terms checked`;
+}
+
+/** Render a glossary check, one `file:line:col` violation per line. */
+export function formatGlossaryReport(
+  report: GlossaryReport,
+  format: OutputFormat = "text",
+  file = "<text>",
+): string {
+  if (format === "json") return JSON.stringify({ file, ...report }, null, 2);
+
+  if (format === "markdown") {
+    const lines = [`## Terminology: \`${file}\``, ""];
+    if (report.findings.length > 0) {
+      lines.push("| Line | Col | Found | Use |", "|------|-----|-------|-----|");
+      for (const f of report.findings) {
+        const line = f.file ? `${f.file}:${f.line}` : String(f.line);
+        lines.push(`| ${line} | ${f.column} | ${f.match.replace(/\s+/g, " ")} | ${f.suggestion} |`);
+      }
+      lines.push("");
+    }
+    lines.push("---", `_${formatGlossarySummary(report)}_`);
+    return lines.join("\n");
+  }
+
+  const lines = report.findings.map((f) => `${f.file ?? file}:${f.line}:${f.column}  warning  terminology  ${f.message}`);
+  lines.push(formatGlossarySummary(report));
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Reference Reports
+// ============================================================================
+
+function formatReferenceSummary(report: ReferenceReport): string {
+  const count = (severity: string) => report.issues.filter((i) => i.severity === severity).length;
+  return `${report.issues.length} reference issues (${count("error")} errors, ${count("warning")} warnings) | ` +
+    `${report.labels.length} labels, ${report.refCount} references`;
+}
+
+/** Render a cross-reference check, one `file:line:col` issue per line. */
+export function formatReferenceReport(
+  report: ReferenceReport,
+  format: OutputFormat = "text",
+  file = "<text>",
+): string {
+  if (format === "json") return JSON.stringify({ file, ...report }, null, 2);
+
+  if (format === "markdown") {
+    const lines = [`## References: \`${file}\``, ""];
+    for (const i of report.issues) {
+      lines.push(`- **${i.severity}** \`${i.file ?? file}:${i.line}:${i.column}\` ${i.type}: ${i.message.replace(/\|/g, "\\|")}`);
+    }
+    if (report.issues.length > 0) lines.push("");
+    lines.push("---", `_${formatReferenceSummary(report)}_`);
+    return lines.join("\n");
+  }
+
+  const lines = report.issues.map((i) => `${i.file ?? file}:${i.line}:${i.column}  ${i.severity}  ${i.type}  ${i.message}`);
+  lines.push(formatReferenceSummary(report));
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Number Reports
+// ============================================================================
+
+function formatNumberSummary(report: NumberReport): string {
+  const entities = new Set(report.mentions.map((m) => `${m.kind}|${m.entity}`)).size;
+  return `${report.issues.length} number inconsistencies | ${report.mentions.length} numeric claims about ${entities} quantities`;
+}
+
+/** Render a number consistency check, one `file:line:col` issue per line. */
+export function formatNumberReport(
+  report: NumberReport,
+  format: OutputFormat = "text",
+  file = "<text>",
+): string {
+  if (format === "json") return JSON.stringify({ file, ...report }, null, 2);
+
+  if (format === "markdown") {
+    const lines = [`## Numbers: \`${file}\``, ""];
+    for (const i of report.issues) {
+      lines.push(`- **${i.severity}** \`${i.file ?? file}:${i.line}:${i.column}\` ${i.message.replace(/\|/g, "\\|")}`);
+    }
+    if (report.issues.length > 0) lines.push("");
+    lines.push("---", `_${formatNumberSummary(report)}_`);
+    return lines.join("\n");
+  }
+
+  const lines = report.issues.map((i) => `${i.file ?? file}:${i.line}:${i.column}  ${i.severity}  numbers  ${i.message}`);
+  lines.push(formatNumberSummary(report));
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Anonymity Reports
+// ============================================================================
+
+function formatAnonymitySummary(report: AnonymityReport): string {
+  const count = (severity: string) => report.findings.filter((f) => f.severity === severity).length;
+  const manual = report.findings.filter((f) => f.redaction === undefined).length;
+  return `${report.findings.length} identity leaks (${count("error")} errors, ${count("warning")} warnings) | ` +
+    `${manual} need a manual edit`;
+}
+
+/** Render a double-blind check, one `file:line:col` finding per line. */
+export function formatAnonymityReport(
+  report: AnonymityReport,
+  format: OutputFormat = "text",
+  file = "<text>",
+): string {
+  if (format === "json") return JSON.stringify({ file, ...report }, null, 2);
+
+  const source = (f: AnonymityReport["findings"][number]) => (f.source === "model" ? " (model)" : "");
+  if (format === "markdown") {
+    const lines = [`## Anonymity: \`${file}\``, ""];
+    for (const f of report.findings) {
+      lines.push(`- **${f.severity}** \`${f.file ?? file}:${f.line}:${f.column}\` ${f.type}${source(f)}: ${f.message.replace(/\|/g, "\\|")}`);
+    }
+    if (report.findings.length > 0) lines.push("");
+    lines.push("---", `_${formatAnonymitySummary(report)}_`);
+    return lines.join("\n");
+  }
+
+  const lines = report.findings.map((f) => `${f.file ?? file}:${f.line}:${f.column}  ${f.severity}  ${f.type}  ${f.message}${source(f)}`);
+  lines.push(formatAnonymitySummary(report));
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Venue Profiles
+// ============================================================================
+
+/** One line per venue profile: the name --venue takes, its rules, its reviewer form. */
+export function formatVenueList(venues: Record<string, VenueProfile>, format: OutputFormat = "text"): string {
+  if (format === "json") return JSON.stringify(venues, null, 2);
+
+  const form = (venue: VenueProfile) => (venue.reviewForm ?? []).map((f) => f.field).join(", ") || "default";
+  if (format === "markdown") {
+    const lines = ["## Venue Profiles", "", "| --venue | Rules | Reviewer form |", "|---------|-------|---------------|"];
+    for (const [key, venue] of Object.entries(venues)) {
+      lines.push(`| \`${key}\` | ${describeVenue(venue)} | ${form(venue)} |`);
+    }
+    return lines.join("\n");
+  }
+
+  const width = Math.max(...Object.keys(venues).map((k) => k.length));
+  return Object.entries(venues)
+    .map(([key, venue]) => `${key.padEnd(width)}  ${describeVenue(venue)}\n${" ".repeat(width)}  review form: ${form(venue)}`)
+    .join("\n");
+}
+
+// ============================================================================
+// Saved Runs
+// ============================================================================
+
+function runSteps(run: RunRecord): number {
+  return run.agents.reduce((n, t) => n + t.steps.length, 0);
+}
+
+function runCommandLine(run: RunRecord): string {
+  return [run.command, ...run.args].join(" ");
+}
+
+function loopStatus(transcript: RunRecord["agents"][number]): string {
+  if (transcript.result) return "finished";
+  return transcript.error ? `failed: ${truncate(transcript.error, 200)}` : "interrupted";
+}
+
+/** One line per saved run, newest first. */
+export function formatRunList(runs: RunRecord[], format: OutputFormat = "text"): string {
+  if (format === "json") {
+    const summaries = runs.map((run) => {
+      const { agents, ...rest } = run;
+      return { ...rest, loops: agents.length, steps: runSteps(run) };
+    });
+    return JSON.stringify(summaries, null, 2);
+  }
+
+  const when = (run: RunRecord) => run.startedAt.slice(0, 16).replace("T", " ");
+  if (format === "markdown") {
+    const lines = ["## Saved Runs", ""];
+    if (runs.length > 0) {
+      lines.push("| Run | Status | Started | Steps | Command |", "|-----|--------|---------|-------|---------|");
+      for (const run of runs) {
+        lines.push(`| \`${run.id}\` | ${run.status} | ${when(run)} | ${runSteps(run)} | \`${runCommandLine(run)}\` |`);
+      }
+    } else {
+      lines.push("_No saved runs._");
+    }
+    return lines.join("\n");
+  }
+
+  if (runs.length === 0) return "No saved runs.";
+  return runs
+    .map((run) => `${run.id}  ${run.status.padEnd(9)}  ${when(run)}  ${String(runSteps(run)).padStart(3)} steps  ${runCommandLine(run)}`)
+    .join("\n");
+}
+
+/** A saved run's agent loops: goal, steps and answer or error of each. */
+export function formatRun(run: RunRecord, format: OutputFormat = "text"): string {
+  if (format === "json") return JSON.stringify(run, null, 2);
+
+  if (format === "markdown") {
+    const lines = [`## Run \`${run.id}\` (${run.status})`, "", `\`${runCommandLine(run)}\`, started ${run.startedAt}`, ""];
+    run.agents.forEach((t, i) => {
+      const provider = t.provider ? ` with \`${t.provider}\` (${t.model})` : "";
+      lines.push(`### Agent loop ${i + 1}: ${loopStatus(t)}${provider}`, "");
+      t.steps.forEach((step, k) => {
+        lines.push(`- Step ${k + 1}: \`${step.action}\`${step.thought ? ` ${truncate(step.thought, 200)}` : ""}`);
+      });
+      if (t.result) lines.push("", "<details><summary>Answer</summary>", "", t.result.finalAnswer.trim(), "", "</details>");
+      lines.push("");
+    });
+    return lines.join("\n").trimEnd();
+  }
+
+  const lines = [`  Run ${run.id} (${run.status}): ${runCommandLine(run)}`, `  Started ${run.startedAt}, updated ${run.updatedAt}`];
+  run.agents.forEach((t, i) => {
+    const provider = t.provider ? ` | Provider: ${t.provider} | Model: ${t.model}` : "";
+    lines.push("", `  Agent loop ${i + 1} of ${run.agents.length}: ${loopStatus(t)}${provider}`);
+    lines.push(`  ${"=".repeat(50)}`);
+    lines.push(`  Goal: ${truncate(t.goal.replace(/\s+/g, " "), 200)}`);
+    t.steps.forEach((step, k) => {
+      lines.push(`  Step ${k + 1}: [${step.action}]`);
+      lines.push(`    Thought: ${step.thought}`);
+      lines.push(`    Result: ${truncate(step.observation, 200)}`);
+    });
+    if (t.result) lines.push(`  Final Answer: ${truncate(t.result.finalAnswer, 200)}`);
+  });
+  if (run.status === "failed") {
+    lines.push("", `  Continue it with: ai-research-writer ${run.command} --resume ${run.id}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,295 @@
+/**
+ * Project terminology glossary (.airwriter/glossary.json).
+ *
+ * Records each term's preferred form, the variants the paper must not use,
+ * and its rendering per language. `glossary extract` drafts the file from
+ * spelling variants found in the manuscript (and, with --lang, model
+ * translations); every agent command then receives it in its goal, and
+ * `check-logic --type terminology` enforces it locally.
+ *
+ * {
+ *   "terms": [
+ *     {
+ *       "term": "dataset",
+ *       "forbidden": ["data set", "data-set"],
+ *       "translations": { "de": "Datensatz" }
+ *     },
+ *     { "term": "pretraining", "preferred": "pre-training", "forbidden": ["pretraining"] }
+ *   ]
+ * }
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { findConfigFile } from "./config";
+import { lineLocator, maskProtected } from "./latex";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GlossaryEntry {
+  /** The concept, as it is usually written. */
+  term: string;
+  /** Form to use in the paper; defaults to `term`. */
+  preferred?: string;
+  /** Variants to replace with the preferred form. */
+  forbidden?: string[];
+  /** Preferred rendering per language code, e.g. { "de": "Datensatz" }. */
+  translations?: Record<string, string>;
+}
+
+export interface Glossary {
+  terms: GlossaryEntry[];
+}
+
+export interface LoadedGlossary {
+  glossary: Glossary;
+  /** File the glossary was read from, or null when none was found. */
+  path: string | null;
+}
+
+export interface GlossaryFinding {
+  /** File the finding is in, when a multi-file project was checked. */
+  file?: string;
+  /** 1-based line and column of the match. */
+  line: number;
+  column: number;
+  /** 0-based offset and length of the match in the checked text. */
+  offset: number;
+  length: number;
+  match: string;
+  term: string;
+  /** The preferred form, inflected like the match. */
+  suggestion: string;
+  message: string;
+}
+
+export interface GlossaryReport {
+  findings: GlossaryFinding[];
+  termCount: number;
+}
+
+export const GLOSSARY_FILENAME = path.join(".airwriter", "glossary.json");
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load and validate the glossary at `glossaryPath`, or the nearest
+ * .airwriter/glossary.json when no path is given. No file yields an empty glossary.
+ */
+export function loadGlossary(glossaryPath?: string): LoadedGlossary {
+  const file = glossaryPath ?? findConfigFile(process.cwd(), GLOSSARY_FILENAME);
+  if (!file) return { glossary: { terms: [] }, path: null };
+  if (!fs.existsSync(file)) {
+    throw new Error(`Glossary file not found: ${file}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid JSON in ${file}: ${err.message}`);
+  }
+  return { glossary: validateGlossary(raw, file), path: file };
+}
+
+/** Validate a parsed glossary, throwing with the offending entry. */
+export function validateGlossary(raw: unknown, source = GLOSSARY_FILENAME): Glossary {
+  const terms = (raw as Record<string, unknown> | null)?.terms;
+  if (typeof raw !== "object" || raw === null || !Array.isArray(terms)) {
+    throw new Error(`${source}: expected an object with a "terms" array`);
+  }
+
+  const isText = (v: unknown) => typeof v === "string" && v.trim() !== "";
+  return {
+    terms: terms.map((entry, i) => {
+      const where = `${source}: terms[${i}]`;
+      const e = entry as Record<string, unknown>;
+      if (typeof entry !== "object" || entry === null || !isText(e.term)) {
+        throw new Error(`${where} must be an object with a non-empty "term"`);
+      }
+      const out: GlossaryEntry = { term: e.term as string };
+      if (e.preferred !== undefined) {
+        if (!isText(e.preferred)) throw new Error(`${where}: "preferred" must be a non-empty string`);
+        out.preferred = e.preferred as string;
+      }
+      if (e.forbidden !== undefined) {
+        if (!Array.isArray(e.forbidden) || !e.forbidden.every(isText)) {
+          throw new Error(`${where}: "forbidden" must be an array of non-empty strings`);
+        }
+        out.forbidden = e.forbidden;
+      }
+      if (e.translations !== undefined) {
+        const t = e.translations as Record<string, unknown>;
+        if (typeof t !== "object" || t === null || Array.isArray(t) || !Object.values(t).every(isText)) {
+          throw new Error(`${where}: "translations" must map language codes to strings`);
+        }
+        out.translations = t as Record<string, string>;
+      }
+      return out;
+    }),
+  };
+}
+
+/** Write a glossary as formatted JSON, creating its directory. */
+export function saveGlossary(glossary: Glossary, file: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(glossary, null, 2) + "\n", "utf-8");
+}
+
+// ============================================================================
+// Prompt Injection
+// ============================================================================
+
+function preferredForm(entry: GlossaryEntry): string {
+  return entry.preferred ?? entry.term;
+}
+
+function translationFor(entry: GlossaryEntry, lang: string): string | undefined {
+  const key = Object.keys(entry.translations ?? {}).find((k) => k.toLowerCase() === lang.toLowerCase());
+  return key ? entry.translations![key] : undefined;
+}
+
+/**
+ * Render the glossary as a goal preamble. With `lang` (translate's target
+ * language) each term also carries its required translation.
+ */
+export function formatGlossary(glossary: Glossary, lang?: string): string {
+  if (glossary.terms.length === 0) return "";
+  const lines = glossary.terms.map((entry) => {
+    let line = `- ${preferredForm(entry)}`;
+    if (entry.forbidden?.length) line += ` (never: ${entry.forbidden.join(", ")})`;
+    const translation = lang ? translationFor(entry, lang) : undefined;
+    if (translation) line += ` -> ${lang}: ${translation}`;
+    return line;
+  });
+  const what = lang ? "use these terms and translations" : "use the preferred form of each term";
+  return `Project glossary (${what}; never write a listed variant):\n${lines.join("\n")}\n\n`;
+}
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find every forbidden variant in `text`, skipping math, citations, code
+ * and comments. Lowercase variants match any capitalization ("Data set" at
+ * the start of a sentence); variants with capitals match exactly. A plural
+ * "s"/"es" is carried over to the suggestion.
+ */
+export function checkGlossary(text: string, glossary: Glossary): GlossaryReport {
+  const masked = maskProtected(text);
+  const locate = lineLocator(text);
+  const found: Array<Omit<GlossaryFinding, "line" | "column">> = [];
+
+  for (const entry of glossary.terms) {
+    const preferred = preferredForm(entry);
+    for (const variant of entry.forbidden ?? []) {
+      const core = variant.trim().split(/\s+/).map(escapeRegExp).join("\\s+");
+      const flags = /[A-Z]/.test(variant) ? "g" : "gi";
+      for (const m of masked.matchAll(new RegExp(`(?<![\\w-])${core}(s|es)?(?![\\w-])`, flags))) {
+        const suffix = m[1] ?? "";
+        if (m[0] === preferred + suffix) continue;
+        found.push({
+          offset: m.index!,
+          length: m[0].length,
+          match: m[0],
+          term: entry.term,
+          suggestion: preferred + suffix,
+          message: `"${m[0].replace(/\s+/g, " ")}" should be "${preferred + suffix}"`,
+        });
+      }
+    }
+  }
+
+  // Keep the first of overlapping matches, e.g. "data set" before "set".
+  found.sort((a, b) => a.offset - b.offset || b.length - a.length);
+  const findings: GlossaryFinding[] = [];
+  let end = 0;
+  for (const f of found) {
+    if (f.offset < end) continue;
+    findings.push({ ...locate(f.offset), ...f });
+    end = f.offset + f.length;
+  }
+  return { findings, termCount: glossary.terms.length };
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/** Words that make a two-word phrase a different expression from the compound (any one / anyone). */
+const FUNCTION_WORDS = new Set([
+  "a", "an", "the", "any", "every", "some", "no", "in", "on", "to", "be", "may", "can", "not",
+  "with", "out", "over", "under", "for", "where", "when", "what", "how", "who", "there", "here",
+]);
+
+/**
+ * Draft glossary entries from compounds the text spells more than one way
+ * ("data set" / "dataset" / "data-set"). The most frequent spelling becomes
+ * the preferred form and the others are forbidden. Math, citations, code,
+ * comments and command names are ignored.
+ */
+export function findTermVariants(text: string): GlossaryEntry[] {
+  const masked = maskProtected(text);
+  const words = [...masked.matchAll(/(?<![\\\w-])[A-Za-z]+(?:-[A-Za-z]+)*(?![\w-])/g)];
+  const forms = new Map<string, Map<string, number>>();
+  const add = (form: string) => {
+    const lower = form.toLowerCase();
+    const key = lower.replace(/[-\s]/g, "");
+    if (key.length < 5) return;
+    const counts = forms.get(key) ?? new Map<string, number>();
+    counts.set(lower, (counts.get(lower) ?? 0) + 1);
+    forms.set(key, counts);
+  };
+
+  words.forEach((m, i) => {
+    add(m[0]);
+    const next = words[i + 1];
+    if (!next || m[0].includes("-") || next[0].includes("-")) return;
+    if (!/^[ \t]*\n?[ \t]*$/.test(masked.slice(m.index! + m[0].length, next.index!))) return;
+    if ([m[0], next[0]].some((w) => w.length < 2 || FUNCTION_WORDS.has(w.toLowerCase()))) return;
+    add(`${m[0]} ${next[0]}`);
+  });
+
+  const entries: Array<GlossaryEntry & { uses: number }> = [];
+  for (const counts of forms.values()) {
+    if (counts.size < 2) continue;
+    // Map order is first occurrence, so ties go to the spelling used first.
+    const ranked = [...counts].sort((a, b) => b[1] - a[1]);
+    entries.push({
+      term: ranked[0][0],
+      forbidden: ranked.slice(1).map(([form]) => form),
+      uses: ranked.reduce((sum, [, n]) => sum + n, 0),
+    });
+  }
+  return entries.sort((a, b) => b.uses - a.uses).map(({ uses, ...entry }) => entry);
+}
+
+/**
+ * Add `additions` to `glossary`. Existing entries keep their preferred
+ * form and variants (they may have been edited by hand) and only gain
+ * translations they lack; new terms are appended.
+ */
+export function mergeGlossary(glossary: Glossary, additions: GlossaryEntry[]): Glossary {
+  const terms = glossary.terms.map((entry) => ({ ...entry }));
+  const names = (e: GlossaryEntry) =>
+    [e.term, preferredForm(e), ...(e.forbidden ?? [])].map((n) => n.toLowerCase());
+
+  for (const addition of additions) {
+    const existing = terms.find((e) => names(e).some((n) => names(addition).includes(n)));
+    if (!existing) {
+      terms.push(addition);
+    } else if (addition.translations) {
+      existing.translations = { ...addition.translations, ...existing.translations };
+    }
+  }
+  return { terms };
+}
@@ -11,43 +11,233 @@
  */
 
 import * as fs from "fs";
+import * as path from "path";
 import { PROMPTS } from "./prompts";
-import { detectProviderName, detectProviderModel } from "./provider";
+import { callLlm, detectProviderName, detectProviderModel } from "./provider";
+import type { LlmOptions } from "./provider";
+import { findConfigFile, loadConfig, resolveLlmOptions } from "./config";
+import type { ResearchWriterConfig } from "./config";
+import { addUsage } from "./pricing";
+import { createProgressReporter } from "./progress";
 import {
   runAgent,
   createPolishTools,
   createReviewTools,
+  createRebuttalTools,
   createTranslateTools,
   createDeAiTools,
   createLogicTools,
   createAnalyzeTools,
+  createCaptionTools,
+  extractFinalText,
+  extractModificationLog,
+  recordTranscripts,
 } from "./agent";
-import type { AgentResult } from "./agent";
+import type { AgentEventHandler, AgentResult, AgentTool, CharacterLimitCheck } from "./agent";
+import { chunkDocument, extractDocumentContext, formatDocumentContext } from "./chunker";
+import { unifiedDiff } from "./diff";
+import { mergeEdits, planEdits, reviewEdits } from "./edits";
+import { lineLocator, protectLatex, restoreLatex, PLACEHOLDER_INSTRUCTION } from "./latex";
+import { scanAiSignatures } from "./signatures";
+import type { SignatureLexicon, SignatureReport } from "./signatures";
+import { documentStats, wordCount } from "./stats";
+import { checkBibliography, findBibFiles, parseBibtex, readBibFiles } from "./citations";
+import type { BibSource, CitationReport } from "./citations";
+import { checkReferences } from "./references";
+import type { ReferenceReport } from "./references";
+import { checkNumbers } from "./numbers";
+import type { NumberReport } from "./numbers";
+import { checkVenue, describeVenue, resolveVenue, VENUES } from "./venues";
+import type { VenueProfile } from "./venues";
+import { scanAnonymity, redactAnonymity } from "./anonymity";
+import type { AnonymityReport } from "./anonymity";
+import type { ReviewerComments } from "./rebuttal";
+import { loadProject, locateInProject, locateRange, offsetOf, splitProject } from "./project";
+import type { LatexProject } from "./project";
+import {
+  checkGlossary,
+  findTermVariants,
+  formatGlossary,
+  loadGlossary,
+  mergeGlossary,
+  saveGlossary,
+  GLOSSARY_FILENAME,
+} from "./glossary";
+import type { Glossary, GlossaryEntry, GlossaryReport } from "./glossary";
+import { createRun, createRunRecorder, listRuns, loadRun, saveRun } from "./runs";
+import type { RunRecord } from "./runs";
+import {
+  formatAnonymityReport,
+  formatCitationReport,
+  formatDocumentStats,
+  formatGlossaryReport,
+  formatNumberReport,
+  formatReferenceReport,
+  formatResult,
+  formatVenueList,
+  formatRun,
+  formatRunList,
+  formatSignatureReport,
+  parseModelJson,
+  OUTPUT_FORMATS,
+} from "./format";
+import type { OutputFormat } from "./format";
 
 // Re-export for library consumers
-export { PROMPTS } from "./prompts";
-export type { PromptTemplate } from "./prompts";
-export { callLlm, callLlmMultiTurn, detectProviderName, detectProviderModel } from "./provider";
-export type { LLMResponse, ChatMessage } from "./provider";
+export { PROMPTS, renderPrompt } from "./prompts";
+export type { PromptTemplate, PromptFields } from "./prompts";
+export {
+  callLlm,
+  callLlmMultiTurn,
+  detectProviderName,
+  detectProviderModel,
+  supportsNativeTools,
+  withLlmOptions,
+  observeLlmCalls,
+  mergeLlmOptions,
+  PROVIDER_NAMES,
+} from "./provider";
+export type {
+  LLMResponse,
+  ChatMessage,
+  LlmOptions,
+  ProviderFailover,
+  LlmCallObserver,
+  LlmCallRequest,
+  ToolCall,
+  ToolDefinition,
+} from "./provider";
+export { DEFAULT_PRICES, findPrice, estimateCost, estimateTokens } from "./pricing";
+export { mockReply, recordResponse, requestFingerprint, resetMockReplay, MOCK_ENV, RECORD_ENV } from "./mock";
+export type { Fixture, FixtureEntry, MockRequest, MockReply } from "./mock";
+export type { TokenUsage, ModelPrice } from "./pricing";
+export { loadConfig, findConfigFile, validateConfig, resolveLlmOptions, CONFIG_FILENAME } from "./config";
+export type { ResearchWriterConfig, LoadedConfig } from "./config";
 export {
   runAgent,
   parseAgentResponse,
+  extractFinalText,
+  extractModificationLog,
   createPolishTools,
   createReviewTools,
+  createRebuttalTools,
   createTranslateTools,
   createDeAiTools,
   createLogicTools,
   createAnalyzeTools,
+  createCaptionTools,
+  recordTranscripts,
 } from "./agent";
-export type { AgentTool, AgentStep, AgentResult, AgentOptions } from "./agent";
+export type {
+  AgentTool,
+  AgentStep,
+  AgentResult,
+  AgentOptions,
+  AgentFailover,
+  WordCountCheck,
+  CharacterLimitCheck,
+  AgentEvent,
+  AgentEventHandler,
+  AgentTranscript,
+  TranscriptRecorder,
+} from "./agent";
+export { createProgressReporter } from "./progress";
+export type { ProgressOptions } from "./progress";
+export { chunkDocument, splitSections, extractDocumentContext } from "./chunker";
+export type { DocumentChunk, DocumentContext, ChunkOptions } from "./chunker";
+export { unifiedDiff, diffLines } from "./diff";
+export {
+  protectLatex,
+  restoreLatex,
+  checkPlaceholders,
+  findProtectedSpans,
+  maskProtected,
+  lineLocator,
+} from "./latex";
+export type { ProtectedText, PlaceholderCheck, RestoreOptions } from "./latex";
+export { scanAiSignatures, DEFAULT_SIGNATURE_WORDS, DEFAULT_CONNECTORS, DEFAULT_HEDGES } from "./signatures";
+export type {
+  SignatureReport,
+  SignatureFinding,
+  SignatureType,
+  SignatureLexicon,
+  SentenceLengthStats,
+} from "./signatures";
+export { documentStats, wordCount } from "./stats";
+export { checkBibliography, parseBibtex, findBibFiles, readBibFiles } from "./citations";
+export { checkReferences } from "./references";
+export type {
+  LabelDefinition,
+  LabelKind,
+  ReferenceCheckOptions,
+  ReferenceIssue,
+  ReferenceIssueType,
+  ReferenceReport,
+} from "./references";
+export { checkNumbers, extractNumericClaims } from "./numbers";
+export type { NumberIssue, NumberReport, NumericKind, NumericMention } from "./numbers";
+export { checkVenue, resolveVenue, loadVenueFile, validateVenue, describeVenue, formatReviewForm, VENUES } from "./venues";
+export type { RequiredSection, ReviewFormField, VenueIssue, VenueIssueType, VenueProfile, VenueReport } from "./venues";
+export { scanAnonymity, redactAnonymity } from "./anonymity";
+export { findEvidence, CONCERN_CATEGORIES } from "./rebuttal";
+export type { ConcernCategory, EvidencePassage, ReviewerComments } from "./rebuttal";
+export type { AnonymityFinding, AnonymityFindingType, AnonymityReport } from "./anonymity";
+export { loadProject, splitProject, locateInProject, locateRange, offsetOf } from "./project";
+export type { LatexProject, ProjectSegment, SourceLocation } from "./project";
+export {
+  loadGlossary,
+  validateGlossary,
+  saveGlossary,
+  formatGlossary,
+  checkGlossary,
+  findTermVariants,
+  mergeGlossary,
+  GLOSSARY_FILENAME,
+} from "./glossary";
+export type { Glossary, GlossaryEntry, GlossaryFinding, GlossaryReport, LoadedGlossary } from "./glossary";
+export type {
+  BibEntry,
+  BibSource,
+  CitationIssue,
+  CitationIssueType,
+  CitationReport,
+  CitationStyle,
+} from "./citations";
+export type { DocumentStats, SectionStats, TextStats } from "./stats";
+export type { DiffOptions, DiffOp } from "./diff";
+export { planEdits, mergeEdits, reviewEdits } from "./edits";
+export { createRun, createRunRecorder, saveRun, loadRun, listRuns, findRunsDir, RUNS_DIRNAME } from "./runs";
+export type { RunRecord } from "./runs";
+export type { EditHunk, EditPlan, ReviewOptions } from "./edits";
+export {
+  formatResult,
+  formatAgentResult,
+  formatAgentResultMarkdown,
+  toJsonResult,
+  parseModelJson,
+  formatSignatureReport,
+  formatDocumentStats,
+  formatCitationReport,
+  formatGlossaryReport,
+  formatReferenceReport,
+  formatNumberReport,
+  formatVenueList,
+  formatAnonymityReport,
+  formatRunList,
+  formatRun,
+} from "./format";
+export type { OutputFormat, JsonAgentResult, JsonAgentStep } from "./format";
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const MAX_INPUT_CHARS = 12000;
+const MAX_CHUNK_CHARS = 12000;
 const VERSION = "3.0.0";
 
+/** Flags that never take a value, so `--diff paper.tex` keeps the file positional. */
+const BOOLEAN_FLAGS = new Set(["help", "diff", "in-place", "interactive", "local", "no-protect", "stream"]);
+
 // ============================================================================
 // Sample Academic Text (for demo command)
 // ============================================================================
@@ -72,49 +262,389 @@ The proposed method achieves state-of-the-art performance on three benchmarks [2
 // Helpers
 // ============================================================================
 
-function truncateText(text: string): { text: string; truncated: boolean } {
-  if (text.length <= MAX_INPUT_CHARS) {
-    return { text, truncated: false };
+interface DocumentRunOptions {
+  /** Swap math, citations, refs, and code for placeholders the model must keep. */
+  protect?: boolean;
+  llm?: LlmOptions;
+  onEvent?: AgentEventHandler;
+  /** Project glossary, given to every chunk's goal. */
+  glossary?: Glossary;
+  /** Language whose glossary translations the goal should require (translate's target). */
+  glossaryLang?: string;
+}
+
+/**
+ * Run the agent once per document chunk and reassemble the answers in order.
+ * Each chunk's goal is prefixed with the shared title/abstract/acronyms and
+ * the project glossary so later sections stay consistent with the rest of
+ * the paper.
+ */
+async function runOnDocument(
+  text: string,
+  buildGoal: (chunkText: string) => string,
+  tools: AgentTool[],
+  options: DocumentRunOptions = {},
+): Promise<AgentResult> {
+  const chunks = chunkDocument(text, { maxChars: MAX_CHUNK_CHARS });
+  const context = extractDocumentContext(text);
+  const results: AgentResult[] = [];
+  let llm = options.llm;
+
+  for (const chunk of chunks) {
+    const shared =
+      formatDocumentContext(context, chunk, chunks.length) +
+      formatGlossary(options.glossary ?? { terms: [] }, options.glossaryLang);
+    if (chunks.length > 1) options.onEvent?.({ type: "chunk", chunk: chunk.index + 1, total: chunks.length });
+    if (!options.protect) {
+      const result = await runAgent({ goal: shared + buildGoal(chunk.text), tools, llm, onEvent: options.onEvent });
+      results.push(withChunkWhitespace(result, chunk.text));
+      llm = chargeBudget(llm, result);
+      continue;
+    }
+
+    const guarded = protectLatex(chunk.text);
+    const result = await runAgent({
+      goal: `${shared}${buildGoal(guarded.text)}\n\n${PLACEHOLDER_INSTRUCTION}`,
+      tools,
+      llm,
+      onEvent: options.onEvent,
+    });
+    llm = chargeBudget(llm, result);
+    try {
+      restoreLatex(extractFinalText(result.finalAnswer), guarded.placeholders, { strict: true });
+    } catch (err: any) {
+      const where = chunks.length > 1 ? ` (part ${chunk.index + 1} of ${chunks.length})` : "";
+      throw new Error(`${err.message}${where}. Re-run, or pass --no-protect to accept the rewrite as is.`);
+    }
+    results.push(withChunkWhitespace(restoreAgentResult(result, guarded.placeholders), chunk.text));
+  }
+
+  return mergeAgentResults(results);
+}
+
+/** How a paper too long for one pass is judged as a whole: findings per part, then one answer from all of them. */
+interface PaperSynthesis {
+  /** Goal for one part: gather findings only. */
+  partGoal: (chunkText: string) => string;
+  partTools: AgentTool[];
+  /** Goal that turns the findings on every part into the single answer. */
+  finalGoal: (findings: string, parts: number) => string;
+  finalTools: AgentTool[];
+}
+
+/**
+ * Run a judgement over a whole paper (a review, a score). A paper that fits
+ * in one chunk is a single run of `buildGoal` with `tools`; a longer one is
+ * read part by part for findings, and one more run drafts a single answer
+ * from all of them, so the paper gets one review and one score rather than
+ * one per part.
+ */
+async function runOnPaper(
+  text: string,
+  buildGoal: (chunkText: string) => string,
+  tools: AgentTool[],
+  synthesis: PaperSynthesis,
+  options: DocumentRunOptions = {},
+): Promise<AgentResult> {
+  if (chunkDocument(text, { maxChars: MAX_CHUNK_CHARS }).length <= 1) {
+    return runOnDocument(text, buildGoal, tools, options);
   }
+  const parts = await runOnDocument(text, synthesis.partGoal, synthesis.partTools, options);
+  const context = extractDocumentContext(text);
+  const shared = [
+    context.title ? `Paper title: ${context.title}` : "",
+    context.abstract ? `Paper abstract: ${context.abstract}` : "",
+  ].filter(Boolean).join("\n");
+  const final = await runAgent({
+    goal: (shared ? `${shared}\n\n` : "") + formatGlossary(options.glossary ?? { terms: [] }) +
+      synthesis.finalGoal(extractFinalText(parts.finalAnswer), parts.chunks ?? 1),
+    tools: synthesis.finalTools,
+    llm: chargeBudget(options.llm, parts),
+    onEvent: options.onEvent,
+  });
+  return { ...mergeAgentResults([parts, final], "last"), chunks: parts.chunks };
+}
+
+/**
+ * Set a chunk result's `text` to its deliverable with the chunk's own
+ * leading and trailing whitespace, so reassembled chunks (and the end of
+ * the file) keep the source's spacing and an unchanged rewrite diffs clean.
+ */
+function withChunkWhitespace(result: AgentResult, source: string): AgentResult {
+  const lead = source.match(/^\s*/)![0];
+  const trail = source.slice(lead.length).match(/\s*$/)![0];
+  return { ...result, text: lead + extractFinalText(result.finalAnswer).trim() + trail };
+}
+
+/** The deliverable of a run: the reassembled document text, if there is one. */
+function resultText(result: AgentResult): string {
+  return result.text ?? extractFinalText(result.finalAnswer);
+}
+
+/** Deduct a chunk's cost so the next chunk only gets what is left of the budget. */
+function chargeBudget(llm: LlmOptions | undefined, result: AgentResult): LlmOptions | undefined {
+  if (llm?.budget === undefined) return llm;
+  return { ...llm, budget: llm.budget - (result.cost ?? 0) };
+}
+
+/** Put protected LaTeX back into the answer and trace of a protected run. */
+function restoreAgentResult(result: AgentResult, placeholders: Record<string, string>): AgentResult {
+  const restore = (t: string) => restoreLatex(t, placeholders);
+  return {
+    ...result,
+    finalAnswer: restore(result.finalAnswer),
+    steps: result.steps.map((step) => ({
+      ...step,
+      thought: restore(step.thought),
+      actionInput: restore(step.actionInput),
+      observation: restore(step.observation),
+    })),
+  };
+}
+
+/**
+ * Combine several runs into one result. "join" concatenates the answers of
+ * document chunks; "last" keeps the answer of the final round of a rewrite
+ * that was run repeatedly on its own output.
+ */
+function mergeAgentResults(results: AgentResult[], answer: "join" | "last" = "join"): AgentResult {
+  if (results.length === 1) return results[0];
+  const last = results[results.length - 1];
+  // Renumber failover steps to match the concatenated trace.
+  let offset = 0;
+  const failovers = results.flatMap((r) => {
+    const shifted = (r.failovers ?? []).map((f) => ({ ...f, step: f.step + offset }));
+    offset += r.steps.length;
+    return shifted;
+  });
+  const metered = results.filter((r) => r.usage);
+  const priced = metered.length === results.length && results.every((r) => r.cost !== undefined);
+  const texts = answer === "join" ? results.map((r) => r.text) : [last.text];
   return {
-    text: text.slice(0, MAX_INPUT_CHARS) + "\n\n[... truncated at 12000 chars ...]",
-    truncated: true,
+    steps: results.flatMap((r) => r.steps),
+    finalAnswer: answer === "join" ? results.map((r) => r.finalAnswer.trim()).join("\n\n") : last.finalAnswer,
+    ...(texts.every((t) => t !== undefined) ? { text: texts.join("") } : {}),
+    totalSteps: results.reduce((sum, r) => sum + r.totalSteps, 0),
+    provider: last.provider,
+    model: last.model,
+    ...(answer === "join" ? { chunks: results.length } : last.chunks ? { chunks: last.chunks } : {}),
+    ...(failovers.length > 0 ? { failovers } : {}),
+    ...(metered.length > 0 ? { usage: addUsage(...metered.map((r) => r.usage)) } : {}),
+    ...(priced ? { cost: results.reduce((sum, r) => sum + (r.cost ?? 0), 0) } : {}),
   };
 }
 
-function formatAgentResult(result: AgentResult): string {
-  const lines: string[] = [];
+/**
+ * Length goal for compress / expand. Give at most one of `words`,
+ * `targetWords` and `percent`; without any, compress aims for 80% of the
+ * original and expand for 130%, or `maxWords` when that is all there is.
+ */
+export interface LengthTargetOptions {
+  /** Words to remove (compress) or add (expand). */
+  words?: number;
+  /** Absolute length to aim for. */
+  targetWords?: number;
+  /** Change as a percentage of the original, e.g. 20 removes or adds a fifth. */
+  percent?: number;
+  /** Hard upper limit, e.g. for an abstract. */
+  maxWords?: number;
+  /** Accepted deviation from the target, as a fraction. Default 0.05. */
+  tolerance?: number;
+  /** Agent runs before settling for a result outside the tolerance. Default 3. */
+  maxRounds?: number;
+}
 
-  if (result.steps.length > 0) {
-    lines.push(`\n  Agent Trace (${result.totalSteps} steps):`);
-    lines.push(`  ${"=".repeat(50)}`);
-    for (let i = 0; i < result.steps.length; i++) {
-      const step = result.steps[i];
-      lines.push(`  Step ${i + 1}: [${step.action}]`);
-      lines.push(`    Thought: ${step.thought}`);
-      const preview = step.observation.length > 200
-        ? step.observation.slice(0, 200) + "..."
-        : step.observation;
-      lines.push(`    Result: ${preview}`);
-      lines.push("");
+/** Resolve a length goal against the original's word count. */
+function lengthTarget(
+  before: number,
+  mode: "compress" | "expand",
+  options: LengthTargetOptions,
+): { target: number; min: number; max: number } {
+  const given = (["words", "targetWords", "percent"] as const).filter((k) => options[k] !== undefined);
+  if (given.length > 1) throw new Error("Give only one of --words, --target-words and --percent.");
+  for (const key of ["words", "targetWords", "percent", "maxWords", "tolerance"] as const) {
+    const value = options[key];
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new Error(`${key} must be a positive number`);
     }
   }
+  if (options.tolerance !== undefined && options.tolerance >= 1) throw new Error("tolerance must be below 1 (100%)");
+
+  const sign = mode === "compress" ? -1 : 1;
+  const raw =
+    options.targetWords ??
+    (options.words !== undefined ? before + sign * options.words : undefined) ??
+    (options.percent !== undefined ? before * (1 + (sign * options.percent) / 100) : undefined) ??
+    options.maxWords ??
+    before * (mode === "compress" ? 0.8 : 1.3);
+  const tolerance = options.tolerance ?? 0.05;
+  let target = Math.round(raw);
+  let max = Math.floor(target * (1 + tolerance));
+  if (options.maxWords !== undefined) {
+    target = Math.min(target, options.maxWords);
+    max = Math.min(max, options.maxWords);
+  }
+  const min = Math.min(Math.ceil(target * (1 - tolerance)), max);
+
+  if (target < 1) throw new Error(`A ${target}-word target leaves nothing of the ${before}-word original.`);
+  if (mode === "compress" && before <= max) {
+    throw new Error(`The text has ${before} words, already within the ${target}-word target; nothing to compress.`);
+  }
+  if (mode === "expand" && before >= min) {
+    throw new Error(`The text has ${before} words, already at the ${target}-word target; nothing to expand.`);
+  }
+  return { target, min, max };
+}
 
-  lines.push(`  Final Answer:`);
-  lines.push(`  ${"=".repeat(50)}`);
-  lines.push(result.finalAnswer);
-  lines.push(`\n  ---`);
-  lines.push(`  Agent: ${result.totalSteps} steps | Provider: ${result.provider} | Model: ${result.model}`);
+/**
+ * Run compress or expand, measure the result, and run again on the result
+ * (compressing or expanding, whichever is needed) until its word count is
+ * within the tolerance or `maxRounds` is reached. Chunks get targets (and
+ * caps) in proportion to their share of the words.
+ */
+async function rewriteToLength(
+  text: string,
+  mode: "compress" | "expand",
+  options: LengthTargetOptions & { protectLatex?: boolean; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler },
+): Promise<AgentResult> {
+  const before = wordCount(text);
+  const { target, min, max } = lengthTarget(before, mode, options);
+  const maxRounds = options.maxRounds ?? 3;
+
+  const results: AgentResult[] = [];
+  let current = text;
+  let count = before;
+  let llm = options.llm;
+  for (let round = 1; round <= maxRounds; round++) {
+    const direction = round === 1 ? mode : count > max ? "compress" : "expand";
+    if (round > 1) options.onEvent?.({ type: "round", round, words: count, target });
+    const from = count;
+    const goal = (chunk: string) => {
+      const words = wordCount(chunk.replace(/⟦TEX\d+⟧/g, " "));
+      const share = Math.max(1, Math.round((words * target) / Math.max(1, from)));
+      // A hard --max-words cap is split between chunks like the target.
+      const limit = options.maxWords !== undefined && words > 0
+        ? ` Never exceed ${Math.max(1, Math.floor((words * max) / Math.max(1, from)))} words.`
+        : "";
+      const task = direction === "compress"
+        ? `Compress this academic text from ${words} to about ${share} words. Preserve all key information.`
+        : `Expand this academic text from ${words} to about ${share} words. Add depth, logical connections, and explicit reasoning.`;
+      return `${task}${limit} Check your result with word_count before answering.\n\nText:\n${chunk}`;
+    };
+    const result = await runOnDocument(current, goal, createPolishTools({}, direction), {
+      protect: options.protectLatex !== false,
+      llm,
+      onEvent: options.onEvent,
+      glossary: options.glossary,
+    });
+    results.push(result);
+    llm = chargeBudget(llm, result);
+    current = resultText(result);
+    count = wordCount(current);
+    if (count >= min && count <= max) break;
+  }
 
-  return lines.join("\n");
+  return {
+    ...mergeAgentResults(results, "last"),
+    wordCount: { before, after: count, target, min, max, rounds: results.length, converged: count >= min && count <= max },
+  };
 }
 
-function readInputFile(filePath: string): string {
+/**
+ * Deliver a rewrite per --out / --in-place / --diff. With any of these
+ * flags the agent trace goes to stderr so stdout carries only the diff.
+ * Without them, the trace and final answer print to stdout as before.
+ * A multi-file project is split back into its files: the diff covers each
+ * changed file, --in-place updates each one, and --out names a directory.
+ * --interactive first asks about each changed sentence, and writes in place
+ * unless --out or --diff says otherwise.
+ */
+async function emitRewrite(
+  project: LatexProject,
+  result: AgentResult,
+  flags: Record<string, string>,
+  format: OutputFormat,
+): Promise<void> {
+  if (flags.interactive && !flags.out && !flags.diff) flags = { ...flags, "in-place": "true" };
+  const writeBack = Boolean(flags.diff || flags.out || flags["in-place"]);
+  if (!writeBack) {
+    console.log(formatResult(result, format));
+    return;
+  }
+  if (flags.out && flags["in-place"]) {
+    console.error("Use either --out <file> or --in-place, not both.");
+    process.exit(1);
+  }
+
+  const rewritten = resultText(result);
+  const multiFile = project.files.length > 1;
+  const files = multiFile ? splitProject(project, rewritten) : { [project.root]: rewritten };
+  for (const file of project.files) {
+    if (project.sources[file].endsWith("\n") && !files[file].endsWith("\n")) files[file] += "\n";
+  }
+  console.error(formatResult(result, format));
+
+  if (flags.interactive) {
+    if (!process.stdin.isTTY) throw new Error("--interactive needs a terminal on stdin.");
+    const log = extractModificationLog(result.finalAnswer);
+    const plans = project.files.map((file) =>
+      planEdits(project.sources[file], files[file], log, multiFile ? file : undefined));
+    const replacements = await reviewEdits(plans.flatMap((plan) => plan.hunks), {
+      editor: process.env.VISUAL || process.env.EDITOR,
+    });
+    let next = 0;
+    project.files.forEach((file, i) => {
+      const count = plans[i].hunks.length;
+      files[file] = mergeEdits(plans[i], replacements.slice(next, next + count));
+      next += count;
+    });
+  }
+  const changed = project.files.filter((file) => files[file] !== project.sources[file]);
+
+  if (flags.diff) {
+    const diff = project.files
+      .map((file) => unifiedDiff(project.sources[file], files[file], { fromFile: `a/${file}`, toFile: `b/${file}` }))
+      .join("");
+    process.stdout.write(diff);
+    if (!diff) console.error("\n  No changes.");
+  }
+  if (flags.out) writeProjectCopy(project, files, flags.out);
+  if (flags["in-place"]) {
+    for (const file of changed) {
+      fs.copyFileSync(file, `${file}.bak`);
+      fs.writeFileSync(file, files[file], "utf-8");
+      console.error(`\n  Updated ${file} (backup: ${file}.bak)`);
+    }
+    if (changed.length === 0) console.error("\n  No changes.");
+  }
+}
+
+/**
+ * Write a changed copy of a project to `out`: a file for a single-file
+ * project, a directory mirroring the files' layout for a multi-file one.
+ */
+function writeProjectCopy(project: LatexProject, files: Record<string, string>, out: string): void {
+  if (project.files.length > 1) {
+    const rootDir = path.dirname(project.root);
+    for (const file of project.files) {
+      const target = path.join(out, path.relative(rootDir, file));
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, files[file], "utf-8");
+    }
+    console.error(`\n  Wrote ${project.files.length} files under ${out}`);
+  } else {
+    fs.writeFileSync(out, files[project.root], "utf-8");
+    console.error(`\n  Wrote ${out}`);
+  }
+}
+
+/** Read a file, following \input / \include / \subfile into a multi-file project. */
+function readInputProject(filePath: string): LatexProject {
   if (!fs.existsSync(filePath)) {
     console.error(`File not found: ${filePath}`);
     process.exit(1);
   }
-  return fs.readFileSync(filePath, "utf-8");
+  return loadProject(filePath);
 }
 
 // ============================================================================
@@ -124,117 +654,338 @@ function readInputFile(filePath: string): string {
 /** Polish academic text using multi-step agent with analysis, fixes, and validation. */
 export async function polish(
   text: string,
-  options: { venue?: string; lang?: string } = {},
+  options: { venue?: string; lang?: string; protectLatex?: boolean; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler } = {},
 ): Promise<AgentResult> {
-  const { text: truncated } = truncateText(text);
   const venueCtx = options.venue ? ` Target venue: ${options.venue}.` : "";
   const langCtx = options.lang ? ` Language: ${options.lang}.` : "";
-  return runAgent({
-    goal: `Polish this academic text to publication standard.${venueCtx}${langCtx}\n\nText:\n${truncated}`,
-    tools: createPolishTools(),
-  });
+  return runOnDocument(
+    text,
+    (chunk) => `Polish this academic text to publication standard.${venueCtx}${langCtx}\n\nText:\n${chunk}`,
+    createPolishTools({ venue: options.venue, lang: options.lang }),
+    { protect: options.protectLatex !== false, llm: options.llm, onEvent: options.onEvent, glossary: options.glossary },
+  );
 }
 
-/** Simulate multi-step peer review: novelty, methodology, experiments, then draft review. */
+/**
+ * Simulate multi-step peer review: novelty, methodology, experiments, then
+ * draft review. A known venue (name or profile) sets its rules in the goal
+ * and its reviewer form for the review; other names are used as given.
+ */
 export async function review(
   text: string,
-  options: { venue: string; strictness?: string },
+  options: { venue: string | VenueProfile; strictness?: string; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler },
 ): Promise<AgentResult> {
-  const { text: truncated } = truncateText(text);
-  return runAgent({
-    goal: `Review this paper as a ${options.strictness || "harsh"} reviewer for ${options.venue}. Assess novelty, methodology, experiments, then draft a structured review.\n\nPaper:\n${truncated}`,
-    tools: createReviewTools(),
-  });
+  const profile = typeof options.venue === "string" ? resolveVenue(options.venue) : options.venue;
+  const venue = profile ? describeVenue(profile) : (options.venue as string);
+  const form = profile?.reviewForm?.length ? ` in the ${profile.name} reviewer form` : "";
+  const reviewer = `a ${options.strictness || "harsh"} reviewer for ${venue}`;
+  const tools = createReviewTools({ venue: profile?.name ?? venue, strictness: options.strictness }, profile);
+  return runOnPaper(
+    text,
+    (chunk) => `Review this paper as ${reviewer}. Assess novelty, methodology, experiments, then draft a structured review${form}.\n\nPaper:\n${chunk}`,
+    tools,
+    {
+      partGoal: (chunk) =>
+        `Assess the novelty, methodology and experiments in this part of the paper as ${reviewer}. Answer with your ` +
+        `findings (strengths, weaknesses, questions) for this part only; the review is drafted once from all parts.\n\nPaper:\n${chunk}`,
+      partTools: tools.filter((t) => t.name !== "draft_review"),
+      finalGoal: (findings, parts) =>
+        `Draft one structured review${form} of the whole paper as ${reviewer} with draft_review, from the findings below ` +
+        `on its ${parts} parts. Give one overall score.\n\nFindings:\n${findings}`,
+      finalTools: tools.filter((t) => t.name === "draft_review"),
+    },
+    { llm: options.llm, onEvent: options.onEvent, glossary: options.glossary },
+  );
+}
+
+/** Options of `rebuttal`; `maxChars` defaults to 5000, OpenReview's usual limit. */
+export interface RebuttalOptions {
+  reviews: ReviewerComments[];
+  /** Most characters of one reviewer's response. */
+  maxChars?: number;
+  venue?: string;
+  /** Agent runs per reviewer before settling for a response over the limit. Default 3. */
+  maxRounds?: number;
+  glossary?: Glossary;
+  llm?: LlmOptions;
+  onEvent?: AgentEventHandler;
+}
+
+/**
+ * Draft the author response to real reviews, one agent run per reviewer:
+ * split the comments into atomic concerns, find each one's evidence in the
+ * paper, classify it (clarify / new experiment / disagree) and answer point
+ * by point. A response over `maxChars` is shortened by another run until it
+ * fits or `maxRounds` is reached. The answer has one "## Response to ..."
+ * section per reviewer.
+ */
+export async function rebuttal(text: string, options: RebuttalOptions): Promise<AgentResult> {
+  const maxChars = options.maxChars ?? 5000;
+  const maxRounds = options.maxRounds ?? 3;
+  if (options.reviews.length === 0) throw new Error("Give at least one review to respond to.");
+  if (!Number.isInteger(maxChars) || maxChars <= 0) throw new Error("maxChars must be a positive whole number");
+
+  const context = extractDocumentContext(text);
+  const paper = [
+    context.title ? `Paper title: ${context.title}` : "",
+    context.abstract ? `Paper abstract: ${context.abstract}` : "",
+  ].filter(Boolean).join("\n");
+  const shared = (paper ? `${paper}\n\n` : "") + formatGlossary(options.glossary ?? { terms: [] });
+  const tools = createRebuttalTools(text, maxChars, { venue: options.venue });
+  const venueCtx = options.venue ? ` at ${options.venue}` : "";
+
+  const results: AgentResult[] = [];
+  const responses: CharacterLimitCheck["responses"] = [];
+  let llm = options.llm;
+  for (const [i, { reviewer, text: comments }] of options.reviews.entries()) {
+    if (options.reviews.length > 1) options.onEvent?.({ type: "chunk", chunk: i + 1, total: options.reviews.length });
+    const rounds: AgentResult[] = [];
+    let goal =
+      `${shared}Draft the author response to ${reviewer}${venueCtx}. Split the comments into atomic concerns, find the ` +
+      "paper's evidence for each with find_evidence, classify them, draft the point-by-point response and check it with " +
+      `count_characters: at most ${maxChars} characters.\n\nReview by ${reviewer}:\n${comments}`;
+    let answer = "";
+    while (rounds.length < maxRounds) {
+      const result = await runAgent({ goal, tools, llm, onEvent: options.onEvent });
+      rounds.push(result);
+      llm = chargeBudget(llm, result);
+      answer = extractFinalText(result.finalAnswer).trim();
+      if (answer.length <= maxChars) break;
+      goal =
+        `Shorten this author response to ${reviewer} from ${answer.length} to at most ${maxChars} characters. Keep every ` +
+        "concern and its evidence; cut thanks, repetition and hedging first. Check it with count_characters before answering." +
+        `\n\nResponse:\n${answer}`;
+    }
+    results.push({ ...mergeAgentResults(rounds, "last"), finalAnswer: `## Response to ${reviewer}\n\n${answer}` });
+    responses.push({ reviewer, characters: answer.length, rounds: rounds.length });
+  }
+
+  // Reviewers, unlike chunks, are not reported as parts of the document.
+  const { chunks: _, ...merged } = mergeAgentResults(results);
+  return {
+    ...merged,
+    characters: { limit: maxChars, responses, within: responses.every((r) => r.characters <= maxChars) },
+  };
 }
 
 /** Translate with term analysis, translation, and verification steps. */
 export async function translate(
   text: string,
-  options: { from: string; to: string; domain?: string },
+  options: { from: string; to: string; domain?: string; protectLatex?: boolean; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler },
 ): Promise<AgentResult> {
-  const { text: truncated } = truncateText(text);
   const domainCtx = options.domain ? ` Academic domain: ${options.domain}.` : "";
-  return runAgent({
-    goal: `Translate this academic text from ${options.from} to ${options.to}.${domainCtx} Preserve all LaTeX, citations, and equations.\n\nText:\n${truncated}`,
-    tools: createTranslateTools(),
-  });
+  return runOnDocument(
+    text,
+    (chunk) => `Translate this academic text from ${options.from} to ${options.to}.${domainCtx} Preserve all LaTeX, citations, and equations.\n\nText:\n${chunk}`,
+    createTranslateTools({ from: options.from, to: options.to, domain: options.domain }),
+    {
+      protect: options.protectLatex !== false,
+      llm: options.llm,
+      onEvent: options.onEvent,
+      glossary: options.glossary,
+      glossaryLang: options.to,
+    },
+  );
 }
 
 /** Detect AI signatures then rewrite to sound natural. */
-export async function deAi(text: string): Promise<AgentResult> {
-  const { text: truncated } = truncateText(text);
-  return runAgent({
-    goal: `Remove all AI-generated writing signatures from this text. First detect AI patterns, then rewrite to sound natural.\n\nText:\n${truncated}`,
-    tools: createDeAiTools(),
-  });
+export async function deAi(
+  text: string,
+  options: { protectLatex?: boolean; signatures?: SignatureLexicon; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler } = {},
+): Promise<AgentResult> {
+  return runOnDocument(
+    text,
+    (chunk) => `Remove all AI-generated writing signatures from this text. First detect AI patterns, then rewrite to sound natural.\n\nText:\n${chunk}`,
+    createDeAiTools(options.signatures),
+    { protect: options.protectLatex !== false, llm: options.llm, onEvent: options.onEvent, glossary: options.glossary },
+  );
 }
 
-/** Deep logic and consistency check with contradiction scanning. */
+/**
+ * Deep logic and consistency check with contradiction scanning. Cross-
+ * references (and \cite keys against `bib`, when given) and numeric claims
+ * are checked locally over the whole text and handed to the model's tools.
+ */
 export async function checkLogic(
   text: string,
-  options: { type?: string } = {},
+  options: { type?: string; bib?: BibSource[]; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler } = {},
 ): Promise<AgentResult> {
-  const { text: truncated } = truncateText(text);
   const focusCtx = options.type && options.type !== "all"
     ? ` Focus on: ${options.type}.`
     : "";
-  return runAgent({
-    goal: `Check this academic text for logical issues, contradictions, and inconsistencies.${focusCtx}\n\nText:\n${truncated}`,
-    tools: createLogicTools(),
+  const references = checkReferences(text, {
+    citationKeys: options.bib?.flatMap((b) => parseBibtex(b.text, b.file).map((e) => e.key)),
   });
+  return runOnDocument(
+    text,
+    (chunk) => `Check this academic text for logical issues, contradictions, and inconsistencies.${focusCtx}\n\nText:\n${chunk}`,
+    createLogicTools(
+      { type: options.type && options.type !== "all" ? options.type : undefined },
+      options.glossary,
+      { references, numbers: checkNumbers(text) },
+    ),
+    { llm: options.llm, onEvent: options.onEvent, glossary: options.glossary },
+  );
 }
 
-/** Comprehensive analysis: issues, AI patterns, quality score. */
-export async function analyze(text: string): Promise<AgentResult> {
-  const { text: truncated } = truncateText(text);
-  return runAgent({
-    goal: `Analyze this academic paper comprehensively. Check for issues, detect AI patterns, and score overall quality.\n\nText:\n${truncated}`,
-    tools: createAnalyzeTools(),
-  });
+/**
+ * Comprehensive analysis: issues, AI patterns, quality score. With a venue
+ * (name or profile), the paper is also checked against its rules.
+ */
+export async function analyze(
+  text: string,
+  options: { venue?: string | VenueProfile; signatures?: SignatureLexicon; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler } = {},
+): Promise<AgentResult> {
+  let profile: VenueProfile | undefined;
+  if (typeof options.venue === "string") {
+    profile = resolveVenue(options.venue);
+    if (!profile) {
+      throw new Error(`Unknown venue "${options.venue}". Known: ${Object.keys(VENUES).join(", ")}, or a .json profile`);
+    }
+  } else {
+    profile = options.venue;
+  }
+  const venueCtx = profile
+    ? ` Target venue: ${describeVenue(profile)}; check it against the venue's rules and report every violation.`
+    : "";
+  const venueReport = profile ? checkVenue(text, profile) : undefined;
+  return runOnPaper(
+    text,
+    (chunk) => `Analyze this academic paper comprehensively. Check for issues, detect AI patterns, and score overall quality.${venueCtx}\n\nText:\n${chunk}`,
+    createAnalyzeTools(options.signatures, venueReport),
+    {
+      partGoal: (chunk) =>
+        "Check this part of the academic paper for issues and detect AI patterns. Answer with your findings for this " +
+        `part only; the paper is scored once from all parts.\n\nText:\n${chunk}`,
+      partTools: createAnalyzeTools(options.signatures).filter((t) => t.name !== "score_paper"),
+      finalGoal: (findings, parts) =>
+        `Score this academic paper's overall quality with score_paper, from the findings below on its ${parts} parts, ` +
+        `and report the issues and AI patterns they found.${venueCtx}\n\nFindings:\n${findings}`,
+      finalTools: createAnalyzeTools(options.signatures, venueReport, text)
+        .filter((t) => t.name === "score_paper" || t.name === "check_venue"),
+    },
+    { llm: options.llm, onEvent: options.onEvent, glossary: options.glossary },
+  );
 }
 
-/** Compress text with word count tracking. */
+/** Compress text to a word-count target, re-running until it is within tolerance. */
 export async function compress(
   text: string,
-  options: { words?: number } = {},
+  options: LengthTargetOptions & { protectLatex?: boolean; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler } = {},
 ): Promise<AgentResult> {
-  const { text: truncated } = truncateText(text);
-  const target = options.words
-    ? `Reduce by approximately ${options.words} words.`
-    : `Reduce word count by approximately 20%.`;
-  return runAgent({
-    goal: `Compress this academic text. ${target} Preserve all key information.\n\nText:\n${truncated}`,
-    tools: createPolishTools(),
-  });
+  return rewriteToLength(text, "compress", options);
 }
 
-/** Expand text with depth and logical connections. */
+/** Expand text with depth and logical connections, to a word-count target. */
 export async function expand(
   text: string,
-  options: { words?: number } = {},
+  options: LengthTargetOptions & { protectLatex?: boolean; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler } = {},
 ): Promise<AgentResult> {
-  const { text: truncated } = truncateText(text);
-  const target = options.words
-    ? `Expand by approximately ${options.words} words.`
-    : `Expand by approximately 30%.`;
-  return runAgent({
-    goal: `Expand this academic text. ${target} Add depth, logical connections, and explicit reasoning.\n\nText:\n${truncated}`,
-    tools: createPolishTools(),
-  });
+  return rewriteToLength(text, "expand", options);
 }
 
 /** Generate a publication-quality caption. */
 export async function caption(
   description: string,
-  options: { type: "figure" | "table" },
+  options: { type: "figure" | "table"; glossary?: Glossary; llm?: LlmOptions; onEvent?: AgentEventHandler },
 ): Promise<AgentResult> {
   return runAgent({
-    goal: `Generate a publication-quality ${options.type} caption for: ${description}`,
-    tools: createPolishTools(),
+    goal: `${formatGlossary(options.glossary ?? { terms: [] })}Generate a publication-quality ${options.type} caption for: ${description}`,
+    tools: createCaptionTools({ type: options.type }),
     maxSteps: 3,
+    llm: options.llm,
+    onEvent: options.onEvent,
   });
 }
 
+const GLOSSARY_TERMS_PROMPT =
+  "Identify the technical terms of this academic text that need a fixed translation and translate each into " +
+  "the requested languages. Keep LaTeX commands, acronyms and proper names as they are. " +
+  'Return JSON only: {"terms": [{"term": "...", "translations": {"<lang>": "..."}}]}';
+
+/**
+ * Draft a glossary from a manuscript: spelling variants found locally, plus,
+ * when `langs` is given, the model's technical terms and their translations
+ * (one LLM call per document chunk). The result is merged into `glossary`,
+ * whose hand-edited entries are kept.
+ */
+export async function extractGlossary(
+  text: string,
+  options: { glossary?: Glossary; langs?: string[]; llm?: LlmOptions } = {},
+): Promise<Glossary> {
+  let glossary = mergeGlossary(options.glossary ?? { terms: [] }, findTermVariants(text));
+  if (!options.langs?.length) return glossary;
+
+  for (const chunk of chunkDocument(text, { maxChars: MAX_CHUNK_CHARS })) {
+    const r = await callLlm(GLOSSARY_TERMS_PROMPT, `Languages: ${options.langs.join(", ")}\n\nText:\n${chunk.text}`, options.llm);
+    const terms = (parseModelJson(r.text) as { terms?: unknown } | undefined)?.terms;
+    if (!Array.isArray(terms)) throw new Error("Could not read the term list from the model's reply; re-run to retry.");
+    const entries: GlossaryEntry[] = terms
+      .filter((t) => typeof t?.term === "string" && t.term.trim())
+      .map((t) => ({
+        term: t.term.trim(),
+        translations: Object.fromEntries(
+          Object.entries(t.translations ?? {}).filter(([, v]) => typeof v === "string" && v.trim()),
+        ) as Record<string, string>,
+      }));
+    glossary = mergeGlossary(glossary, entries);
+  }
+  return glossary;
+}
+
+const SELF_REFERENCE_PROMPT =
+  "This paper is submitted for double-blind review. Find passages where the authors reveal who they are: " +
+  "first-person references to their own earlier work, systems, datasets or results (\"our previous work\", " +
+  "\"as we showed in [12]\", \"we extend our XYZ system\"), or naming their institution, lab or funding as their own. " +
+  "Ignore \"we\" and \"our\" about the contributions of this paper. Quote each passage exactly as it appears in the " +
+  "text, LaTeX included, and give a third-person rewrite. " +
+  'Return JSON only: {"findings": [{"quote": "...", "reason": "...", "rewrite": "..."}]}';
+
+/**
+ * Check a double-blind submission for what identifies its authors: the
+ * local scan (author blocks, e-mails, links, acknowledgements, funding, PDF
+ * metadata, explicit self-citations), then, unless `local` is set, a model
+ * pass per chunk for subtler self-reference. Model findings are located by
+ * their exact quote; one the model paraphrased rather than quoted is dropped.
+ */
+export async function checkAnonymity(
+  text: string,
+  options: { local?: boolean; llm?: LlmOptions } = {},
+): Promise<AnonymityReport> {
+  const report = scanAnonymity(text);
+  if (options.local) return report;
+
+  const locate = lineLocator(text);
+  for (const chunk of chunkDocument(text, { maxChars: MAX_CHUNK_CHARS })) {
+    const r = await callLlm(SELF_REFERENCE_PROMPT, chunk.text, options.llm);
+    const found = (parseModelJson(r.text) as { findings?: unknown } | undefined)?.findings;
+    if (!Array.isArray(found)) throw new Error("Could not read the self-reference findings from the model's reply; re-run to retry.");
+    for (const f of found) {
+      if (typeof f?.quote !== "string" || !f.quote.trim()) continue;
+      const at = chunk.text.indexOf(f.quote);
+      if (at < 0) continue;
+      const offset = chunk.start + at;
+      const length = f.quote.length;
+      if (report.findings.some((g) => offset < g.offset + g.length && g.offset < offset + length)) continue;
+      report.findings.push({
+        type: "self_citation",
+        severity: "error",
+        ...locate(offset),
+        offset,
+        length,
+        match: f.quote,
+        message: typeof f.reason === "string" && f.reason.trim()
+          ? f.reason.trim()
+          : `"${f.quote}" refers to the authors' own work`,
+        redaction: typeof f.rewrite === "string" && f.rewrite.trim() ? f.rewrite : undefined,
+        source: "model",
+      });
+    }
+  }
+  report.findings.sort((a, b) => a.offset - b.offset);
+  return report;
+}
+
 // ============================================================================
 // CLI
 // ============================================================================
@@ -253,7 +1004,7 @@ function parseArgs(argv: string[]): {
   while (i < args.length) {
     if (args[i].startsWith("--")) {
       const key = args[i].slice(2);
-      const value = args[i + 1] && !args[i + 1].startsWith("--")
+      const value = !BOOLEAN_FLAGS.has(key) && args[i + 1] && !args[i + 1].startsWith("--")
         ? args[i + 1]
         : "true";
       flags[key] = value;
@@ -267,6 +1018,24 @@ function parseArgs(argv: string[]): {
   return { command, positional, flags };
 }
 
+/** Length flags of compress and expand; --tolerance is a percentage. */
+function lengthFlags(flags: Record<string, string>): LengthTargetOptions {
+  const num = (name: string) => {
+    if (flags[name] === undefined) return undefined;
+    const n = Number(flags[name].replace(/%$/, ""));
+    if (!Number.isFinite(n) || n <= 0) throw new Error(`--${name} must be a positive number`);
+    return n;
+  };
+  const tolerance = num("tolerance");
+  return {
+    words: num("words"),
+    targetWords: num("target-words"),
+    percent: num("percent"),
+    maxWords: num("max-words"),
+    tolerance: tolerance === undefined ? undefined : tolerance / 100,
+  };
+}
+
 function printHelp(): void {
   console.log(`ai-research-writer v${VERSION} - Deep agent for academic writing
 
@@ -279,6 +1048,8 @@ Usage:
 
 Agent Commands (multi-step, require API key):
   analyze <file>      Deep analysis: issues, AI patterns, quality score
+    --venue <name>    Also check the venue's rules: page limit, abstract
+                      length, required sections, anonymity, citations
   polish <file>       Polish text to publication standard (multi-step)
     --venue <name>    Target venue (e.g., "NeurIPS 2026")
     --lang <code>     Language code (default: en)
@@ -286,36 +1057,150 @@ Agent Commands (multi-step, require API key):
     --from <lang>     Source language (required)
     --to <lang>       Target language (required)
     --domain <field>  Academic domain
-  compress <file>     Reduce word count with precision
-    --words <n>       Target word reduction
-  expand <file>       Expand with depth and clarity
-    --words <n>       Target word expansion
+  compress <file>     Reduce word count with precision (default: by 20%)
+    --words <n>       Words to remove
+    --target-words <n>  Length to reach
+    --percent <p>     Share to remove, e.g. 15
+    --max-words <n>   Hard limit (e.g. an abstract's), alone or with
+                      one of the above
+    --tolerance <p>   Accepted deviation from the target in percent
+                      (default 5); the rewrite is re-run on its own
+                      output until it lands within it (3 rounds at most)
+  expand <file>       Expand with depth and clarity (default: by 30%)
+    --words <n>       Words to add
+    --target-words <n>, --percent <p>, --max-words <n>, --tolerance <p>
+                      As for compress
   de-ai <file>        Detect + remove AI writing signatures
   check-logic <file>  Deep logic and consistency analysis
-    --type <type>     Focus: all|contradictions|terminology|grammar
+    --type <type>     Focus: all|contradictions|terminology|grammar|
+                      references|numbers (references and numbers are
+                      always checked locally, and terminology is when
+                      a glossary exists; --type references and
+                      --type numbers need no API key)
+    --bib <files>     Bibliography for the \\cite key check (default:
+                      from \\bibliography if the files exist)
   review <file>       Multi-step peer review simulation
-    --venue <name>    Target venue (required)
+    --venue <name>    Target venue (required); a known venue's review
+                      is written in its reviewer form
     --strictness <s>  harsh|moderate|kind
+  rebuttal <file> <review>...
+                      Draft the author response to each review file:
+                      atomic concerns, evidence from the paper, and a
+                      point-by-point answer (clarify / new experiment /
+                      disagree)
+    --max-chars <n>   Limit for each reviewer's response (default 5000);
+                      a longer one is shortened, 3 rounds at most
+    --venue <name>    Venue the response is for
   caption             Generate figure/table captions
     --desc <text>     Description (required)
     --type <type>     figure or table (required)
   demo                Run agent on built-in sample text
 
+Model selection (all agent commands):
+  --provider <name>   gemini | openai | anthropic | openai-compatible | mock
+  --model <id>        Model for the selected provider
+  --base-url <url>    OpenAI-compatible endpoint (Ollama, vLLM, llama.cpp)
+  --temperature <t>   Sampling temperature, 0-2 (default 0.3)
+  --max-tokens <n>    Max output tokens per call (default 4096)
+  --retries <n>       Retries on 429/5xx/network errors (default 2)
+  --timeout <sec>     Per-request timeout (default 120)
+  --fallback <list>   Providers to fail over to, e.g. openai,anthropic,
+                      or "none" (default: all other configured providers)
+  --budget <usd>      Stop before a run's estimated cost exceeds this
+  --config <file>     Config file (default: nearest .airwriterrc.json)
+
+Terminology (all agent commands):
+  --glossary <file>   Glossary given to the model in every goal
+                      (default: nearest .airwriter/glossary.json)
+
+Saved runs (all agent commands):
+  Each run's transcripts are saved under .airwriter/runs as it goes
+  --resume <id>       Continue a failed run from its last completed step
+                      (same file and flags; options given now override)
+
+Output (all agent commands):
+  --format <fmt>      text (default) | markdown | json
+                      json emits the full result with parsed tool JSON
+  --stream            Echo the model's replies to stderr as they stream
+                      (step progress is shown on stderr when it is a terminal)
+
+Write-back (polish, translate, compress, expand, de-ai):
+  --diff              Print a unified diff of the file vs. the result
+  --out <file>        Write the result to <file>
+  --in-place          Overwrite the input file (keeps <file>.bak)
+  --interactive       Accept, reject or edit each changed sentence, with
+                      the model's rationale, before writing (in place
+                      unless --out or --diff is given)
+  --no-protect        Skip LaTeX protection (math, \\cite, \\ref, code are
+                      normally hidden from the model and verified afterwards)
+
 Free Commands (no API key):
+  scan-ai <file>      Local AI-signature scan with line:column findings
+                      (exits 1 when anything is found; --format applies)
+  stats <file>        Per-section word counts, readability grades,
+                      passive voice, contractions and hedges
+  cite-check <file>   Check \\cite keys against the .bib: undefined keys,
+                      unused and duplicate entries, missing fields,
+                      mixed inline citation styles (exits 1 on problems)
+    --bib <files>     Bibliography files (default: from \\bibliography
+                      or \\addbibresource in the file)
+  glossary extract <file>
+                      Draft .airwriter/glossary.json from terms the file
+                      spells several ways (data set / dataset); existing
+                      entries are kept. --lang de,fr adds the model's
+                      translations of technical terms (needs an API key)
+  anonymize-check <file>
+                      Double-blind check: author blocks, e-mails, links,
+                      acknowledgements, funding, pdfauthor metadata and
+                      self-citations, plus a model pass for subtler
+                      self-reference when an API key is set (exits 1
+                      on findings)
+    --local           Skip the model pass
+    --out <file|dir>  Also write a redacted copy (a directory for a
+                      multi-file project)
+  venues              Venue profiles for --venue (NeurIPS, ICML, ACL,
+                      CVPR, IEEE and the "venues" of .airwriterrc.json);
+                      --venue also takes a profile .json file
+  runs list           Saved agent runs, newest first
+  runs show <id>      A run's goals, steps and answers (or error)
   prompts             List all 9 prompt templates
   help                Show this help
 
-BYOK (Gemini -> OpenAI -> Anthropic):
+BYOK (Gemini -> OpenAI -> Anthropic, failing over in that order):
   GEMINI_API_KEY      gemini-3-flash-preview
   OPENAI_API_KEY      gpt-5
   ANTHROPIC_API_KEY   claude-sonnet-4-5-20250929
 
+Self-hosted (takes priority when set):
+  OPENAI_COMPATIBLE_BASE_URL   e.g. http://localhost:11434/v1
+  OPENAI_COMPATIBLE_MODEL      e.g. llama3.1:70b
+  OPENAI_COMPATIBLE_API_KEY    optional
+
+Offline testing (no network):
+  AIRWRITER_MOCK=echo          Deterministic mock provider (or --provider mock)
+  AIRWRITER_MOCK=<file.json>   Replay a recorded or scripted fixture
+  AIRWRITER_RECORD=<file.json> Record real responses into a fixture
+
 Examples:
   ai-research-writer demo
   ai-research-writer analyze paper.tex
+  ai-research-writer stats paper.tex
+  ai-research-writer cite-check paper.tex
+  ai-research-writer glossary extract paper.tex --lang de
+  ai-research-writer check-logic paper.tex --type terminology
+  ai-research-writer check-logic paper.tex --type references
+  ai-research-writer check-logic paper.tex --type numbers
+  ai-research-writer anonymize-check main.tex --out anonymous/
+  ai-research-writer rebuttal paper.tex reviews/R1.txt reviews/R2.txt --max-chars 5000
   ai-research-writer polish paper.tex --venue "NeurIPS 2026"
-  ai-research-writer de-ai draft.tex
+  ai-research-writer scan-ai draft.tex
+  ai-research-writer de-ai draft.tex --diff
+  ai-research-writer polish intro.tex --in-place
+  ai-research-writer de-ai draft.tex --interactive
+  ai-research-writer compress abstract.tex --max-words 250
   ai-research-writer review paper.tex --venue "ICML 2026"
+  ai-research-writer analyze paper.tex --venue acl
+  ai-research-writer review --resume 20261019-142501-review-3fa2
   ai-research-writer prompts`);
 }
 
@@ -346,7 +1231,7 @@ function printPrompts(): void {
 }
 
 async function main(): Promise<void> {
-  const { command, positional, flags } = parseArgs(process.argv);
+  let { command, positional, flags } = parseArgs(process.argv);
 
   // --- Free commands ---
   if (command === "help" || command === "--help" || flags.help) {
@@ -362,14 +1247,257 @@ async function main(): Promise<void> {
     return;
   }
 
-  // --- Agent commands ---
+  // A resumed run takes its file and flags from the record; flags given
+  // now win, so a run can continue with another provider.
+  let run: RunRecord | undefined;
+  if (flags.resume) {
+    try {
+      run = loadRun(flags.resume);
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
+    if (run.command !== command) {
+      console.error(`Run ${run.id} is a "${run.command}" run. Resume it with: ai-research-writer ${run.command} --resume ${run.id}`);
+      process.exit(1);
+    }
+    const saved = parseArgs(["", "", run.command, ...run.args]);
+    positional = positional.length > 0 ? positional : saved.positional;
+    flags = { ...saved.flags, ...flags };
+  }
+
+  const format = (flags.format || "text") as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`Invalid --format "${flags.format}". Use one of: ${OUTPUT_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  if (command === "runs") {
+    const [action, id] = positional;
+    if (action !== "list" && !(action === "show" && id)) {
+      console.error("Usage: ai-research-writer runs list | runs show <id>");
+      process.exit(1);
+    }
+    try {
+      console.log(action === "list" ? formatRunList(listRuns(), format) : formatRun(loadRun(id), format));
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  let config: ResearchWriterConfig;
+  let llm: LlmOptions;
+  try {
+    config = loadConfig(flags.config).config;
+    llm = resolveLlmOptions(config, command, flags);
+  } catch (e: any) {
+    console.error(e.message);
+    process.exit(1);
+  }
+
+  if (command === "venues") {
+    // A project profile replaces the built-in one of the same name.
+    console.log(formatVenueList({ ...VENUES, ...config.venues }, format));
+    return;
+  }
+
+  if (command === "glossary") {
+    const [action, filePath] = positional;
+    if (action !== "extract" || !filePath) {
+      console.error("Usage: ai-research-writer glossary extract <file> [--lang <codes>] [--glossary <file>]");
+      process.exit(1);
+    }
+    const target = flags.glossary ?? findConfigFile(process.cwd(), GLOSSARY_FILENAME) ?? GLOSSARY_FILENAME;
+    try {
+      const existing = fs.existsSync(target) ? loadGlossary(target).glossary : { terms: [] };
+      const glossary = await extractGlossary(readInputProject(filePath).text, {
+        glossary: existing,
+        langs: flags.lang ? flags.lang.split(",").map((l) => l.trim()).filter(Boolean) : undefined,
+        llm,
+      });
+      saveGlossary(glossary, target);
+      const added = glossary.terms.length - existing.terms.length;
+      console.log(`Glossary: ${glossary.terms.length} terms (${added} new) in ${target}. Edit it to pick preferred forms.`);
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (command === "anonymize-check") {
+    const filePath = positional[0];
+    if (!filePath) {
+      console.error("Missing file path. Usage: ai-research-writer anonymize-check <file> [--local] [--out <file|dir>]");
+      process.exit(1);
+    }
+    const local = Boolean(flags.local) || !detectProviderName(llm);
+    if (!flags.local && local) {
+      console.error("  No API key found; running the local scan only (self-references need the model pass).");
+    }
+    let report: AnonymityReport;
+    try {
+      const project = readInputProject(filePath);
+      report = await checkAnonymity(project.text, { local, llm });
+      if (flags.out) {
+        const redacted = redactAnonymity(project.text, report.findings);
+        const files = project.files.length > 1 ? splitProject(project, redacted.text) : { [project.root]: redacted.text };
+        writeProjectCopy(project, files, flags.out);
+        console.error(`  Redacted ${redacted.redacted} of ${report.findings.length} findings; reword the rest by hand.\n`);
+      }
+      if (project.files.length > 1) {
+        report.findings = report.findings.map((f) => ({ ...f, ...locateInProject(project, f.offset) }));
+      }
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
+    console.log(formatAnonymityReport(report, format, filePath));
+    if (report.findings.length > 0) process.exitCode = 1;
+    return;
+  }
+
+  let glossary: Glossary;
+  try {
+    glossary = loadGlossary(flags.glossary).glossary;
+  } catch (e: any) {
+    console.error(e.message);
+    process.exit(1);
+  }
+
+  // Live progress goes to stderr, and only where someone is watching.
+  const onEvent = flags.stream || process.stderr.isTTY
+    ? createProgressReporter(process.stderr, { tokens: Boolean(flags.stream) })
+    : undefined;
+
+  // --- Local scans (no API key) ---
+  if (command === "scan-ai") {
+    const filePath = positional[0];
+    if (!filePath) {
+      console.error("Missing file path. Usage: ai-research-writer scan-ai <file>");
+      process.exit(1);
+    }
+    let report: SignatureReport;
+    try {
+      const project = readInputProject(filePath);
+      report = scanAiSignatures(project.text, config.signatures);
+      if (project.files.length > 1) {
+        report.findings = report.findings.map((f) => ({ ...f, ...locateInProject(project, f.offset) }));
+      }
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
+    console.log(formatSignatureReport(report, format, filePath));
+    // Findings fail the run, so the scan can gate commits and CI.
+    if (report.findings.length > 0) process.exitCode = 1;
+    return;
+  }
+
+  if (command === "stats") {
+    const filePath = positional[0];
+    if (!filePath) {
+      console.error("Missing file path. Usage: ai-research-writer stats <file>");
+      process.exit(1);
+    }
+    try {
+      const project = readInputProject(filePath);
+      const stats = documentStats(project.text);
+      if (project.files.length > 1) {
+        stats.sections = stats.sections.map((s) => ({
+          ...s,
+          ...locateRange(project, offsetOf(project.text, s.lineStart), offsetOf(project.text, s.lineEnd)),
+        }));
+      }
+      console.log(formatDocumentStats(stats, format, filePath));
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (command === "cite-check") {
+    const filePath = positional[0];
+    if (!filePath) {
+      console.error("Missing file path. Usage: ai-research-writer cite-check <file> [--bib <refs.bib>]");
+      process.exit(1);
+    }
+    let report: CitationReport;
+    try {
+      const project = readInputProject(filePath);
+      const bibFiles = flags.bib
+        ? flags.bib.split(",").map((f) => f.trim()).filter(Boolean)
+        : findBibFiles(project.text, filePath);
+      report = checkBibliography(project.text, readBibFiles(bibFiles), { texFile: filePath });
+      if (project.files.length > 1) {
+        report.issues = report.issues.map((i) => i.file === filePath
+          ? { ...i, ...locateInProject(project, offsetOf(project.text, i.line, i.column)) }
+          : i);
+      }
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
+    console.log(formatCitationReport(report, format));
+    // Errors and warnings fail the run; missing DOIs (info) do not.
+    if (report.issues.some((i) => i.severity !== "info")) process.exitCode = 1;
+    return;
+  }
+
+  // --- Agent commands (saved under .airwriter/runs as they go) ---
+  const record = run ?? createRun(command, process.argv.slice(3));
+  process.on("exit", () => finishRun(record));
+  await recordTranscripts(createRunRecorder(record), () =>
+    runAgentCommand(command, positional, flags, { format, config, llm, glossary, onEvent }));
+  record.status = "completed";
+}
+
+/**
+ * Save a run's final status as the process exits; a failed run gets a resume
+ * hint. A command that errors exits before it is marked completed, whatever
+ * the exit code of one that finished.
+ */
+function finishRun(run: RunRecord): void {
+  if (run.agents.length === 0) return;
+  if (run.status !== "completed") run.status = "failed";
+  saveRun(run);
+  if (run.status === "failed") {
+    console.error(`Saved run ${run.id}; continue it with: ai-research-writer ${run.command} --resume ${run.id}`);
+  }
+}
+
+interface AgentCommandContext {
+  format: OutputFormat;
+  config: ResearchWriterConfig;
+  llm: LlmOptions;
+  glossary: Glossary;
+  onEvent?: AgentEventHandler;
+}
+
+async function runAgentCommand(
+  command: string,
+  positional: string[],
+  flags: Record<string, string>,
+  context: AgentCommandContext,
+): Promise<void> {
+  const { format, config, glossary, onEvent } = context;
+  let { llm } = context;
+
   if (command === "demo") {
     console.log(`\nRunning deep agent analysis on built-in sample text...\n`);
+    if (!detectProviderName(llm)) {
+      console.log(`  No API key found; running offline with the mock provider (echo mode).\n`);
+      llm = { ...llm, provider: "mock" };
+    }
     try {
-      const result = await analyze(SAMPLE_TEXT);
-      console.log(formatAgentResult(result));
-      const providerName = detectProviderName();
-      const providerModel = detectProviderModel();
+      const result = await analyze(SAMPLE_TEXT, { signatures: config.signatures, glossary, llm, onEvent });
+      console.log(formatResult(result, format));
+      if (format === "json") return;
+      const providerName = detectProviderName(llm);
+      const providerModel = detectProviderModel(llm);
       console.log(
         `\n  LLM Provider: ${providerName ? `${providerName} (${providerModel}) - ready` : "none configured"}`,
       );
@@ -387,8 +1515,14 @@ async function main(): Promise<void> {
       process.exit(1);
     }
     try {
-      const result = await analyze(readInputFile(filePath));
-      console.log(formatAgentResult(result));
+      const result = await analyze(readInputProject(filePath).text, {
+        venue: flags.venue ? resolveVenue(flags.venue, config.venues) ?? flags.venue : undefined,
+        signatures: config.signatures,
+        glossary,
+        llm,
+        onEvent,
+      });
+      console.log(formatResult(result, format));
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
@@ -403,11 +1537,16 @@ async function main(): Promise<void> {
       process.exit(1);
     }
     try {
-      const result = await polish(readInputFile(filePath), {
+      const project = readInputProject(filePath);
+      const result = await polish(project.text, {
         venue: flags.venue,
         lang: flags.lang,
+        protectLatex: !flags["no-protect"],
+        glossary,
+        llm,
+        onEvent,
       });
-      console.log(formatAgentResult(result));
+      await emitRewrite(project, result, flags, format);
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
@@ -422,12 +1561,17 @@ async function main(): Promise<void> {
       process.exit(1);
     }
     try {
-      const result = await translate(readInputFile(filePath), {
+      const project = readInputProject(filePath);
+      const result = await translate(project.text, {
         from: flags.from,
         to: flags.to,
         domain: flags.domain,
+        protectLatex: !flags["no-protect"],
+        glossary,
+        llm,
+        onEvent,
       });
-      console.log(formatAgentResult(result));
+      await emitRewrite(project, result, flags, format);
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
@@ -442,10 +1586,15 @@ async function main(): Promise<void> {
       process.exit(1);
     }
     try {
-      const result = await compress(readInputFile(filePath), {
-        words: flags.words ? parseInt(flags.words, 10) : undefined,
+      const project = readInputProject(filePath);
+      const result = await compress(project.text, {
+        ...lengthFlags(flags),
+        protectLatex: !flags["no-protect"],
+        glossary,
+        llm,
+        onEvent,
       });
-      console.log(formatAgentResult(result));
+      await emitRewrite(project, result, flags, format);
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
@@ -460,10 +1609,15 @@ async function main(): Promise<void> {
       process.exit(1);
     }
     try {
-      const result = await expand(readInputFile(filePath), {
-        words: flags.words ? parseInt(flags.words, 10) : undefined,
+      const project = readInputProject(filePath);
+      const result = await expand(project.text, {
+        ...lengthFlags(flags),
+        protectLatex: !flags["no-protect"],
+        glossary,
+        llm,
+        onEvent,
       });
-      console.log(formatAgentResult(result));
+      await emitRewrite(project, result, flags, format);
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
@@ -478,8 +1632,15 @@ async function main(): Promise<void> {
       process.exit(1);
     }
     try {
-      const result = await deAi(readInputFile(filePath));
-      console.log(formatAgentResult(result));
+      const project = readInputProject(filePath);
+      const result = await deAi(project.text, {
+        protectLatex: !flags["no-protect"],
+        signatures: config.signatures,
+        glossary,
+        llm,
+        onEvent,
+      });
+      await emitRewrite(project, result, flags, format);
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
@@ -493,11 +1654,75 @@ async function main(): Promise<void> {
       console.error("Missing file path. Usage: ai-research-writer check-logic <file>");
       process.exit(1);
     }
+    if (flags.type === "terminology" && glossary.terms.length > 0) {
+      // With a glossary, terminology is checked locally and deterministically.
+      let report: GlossaryReport;
+      try {
+        const project = readInputProject(filePath);
+        report = checkGlossary(project.text, glossary);
+        if (project.files.length > 1) {
+          report.findings = report.findings.map((f) => ({ ...f, ...locateInProject(project, f.offset) }));
+        }
+      } catch (e: any) {
+        console.error(e.message);
+        process.exit(1);
+      }
+      console.log(formatGlossaryReport(report, format, filePath));
+      if (report.findings.length > 0) process.exitCode = 1;
+      return;
+    }
+    // \cite keys are checked when the bibliography can be found.
+    const bibFor = (project: LatexProject) => readBibFiles(flags.bib
+      ? flags.bib.split(",").map((f) => f.trim()).filter(Boolean)
+      : findBibFiles(project.text, filePath).filter((f) => fs.existsSync(f)));
+    if (flags.type === "references") {
+      // Cross-references are decidable from the source: no model needed.
+      let report: ReferenceReport;
+      try {
+        const project = readInputProject(filePath);
+        const bib = bibFor(project);
+        report = checkReferences(project.text, {
+          citationKeys: bib.length > 0 ? bib.flatMap((b) => parseBibtex(b.text, b.file).map((e) => e.key)) : undefined,
+        });
+        if (project.files.length > 1) {
+          report.issues = report.issues.map((i) => ({ ...i, ...locateInProject(project, i.offset) }));
+        }
+      } catch (e: any) {
+        console.error(e.message);
+        process.exit(1);
+      }
+      console.log(formatReferenceReport(report, format, filePath));
+      if (report.issues.length > 0) process.exitCode = 1;
+      return;
+    }
+    if (flags.type === "numbers") {
+      // Numbers are compared locally; the full check hands them to the model too.
+      let report: NumberReport;
+      try {
+        const project = readInputProject(filePath);
+        report = checkNumbers(project.text);
+        if (project.files.length > 1) {
+          report.issues = report.issues.map((i) => ({ ...i, ...locateInProject(project, i.offset) }));
+        }
+      } catch (e: any) {
+        console.error(e.message);
+        process.exit(1);
+      }
+      console.log(formatNumberReport(report, format, filePath));
+      if (report.issues.length > 0) process.exitCode = 1;
+      return;
+    }
     try {
-      const result = await checkLogic(readInputFile(filePath), {
+      const project = readInputProject(filePath);
+      const bib = bibFor(project);
+      const result = await checkLogic(project.text, {
         type: flags.type,
+        bib: bib.length > 0 ? bib : undefined,
+        glossary,
+        llm,
+        onEvent,
       });
-      console.log(formatAgentResult(result));
+      console.log(formatResult(result, format));
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
@@ -517,8 +1742,11 @@ async function main(): Promise<void> {
     try {
       const result = await caption(flags.desc || flags.describe, {
         type: flags.type as "figure" | "table",
+        glossary,
+        llm,
+        onEvent,
       });
-      console.log(formatAgentResult(result));
+      console.log(formatResult(result, format));
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
@@ -537,11 +1765,41 @@ async function main(): Promise<void> {
       process.exit(1);
     }
     try {
-      const result = await review(readInputFile(filePath), {
-        venue: flags.venue,
+      const result = await review(readInputProject(filePath).text, {
+        venue: resolveVenue(flags.venue, config.venues) ?? flags.venue,
         strictness: flags.strictness,
+        glossary,
+        llm,
+        onEvent,
+      });
+      console.log(formatResult(result, format));
+    } catch (e: any) {
+      console.error(e.message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (command === "rebuttal") {
+    const [filePath, ...reviewFiles] = positional;
+    if (!filePath || reviewFiles.length === 0) {
+      console.error("Missing files. Usage: ai-research-writer rebuttal <file> <review>... [--max-chars <n>]");
+      process.exit(1);
+    }
+    try {
+      const reviews = reviewFiles.map((file) => {
+        if (!fs.existsSync(file)) throw new Error(`File not found: ${file}`);
+        return { reviewer: path.basename(file, path.extname(file)), text: fs.readFileSync(file, "utf-8") };
+      });
+      const result = await rebuttal(readInputProject(filePath).text, {
+        reviews,
+        maxChars: flags["max-chars"] !== undefined ? Number(flags["max-chars"]) : undefined,
+        venue: flags.venue,
+        glossary,
+        llm,
+        onEvent,
       });
-      console.log(formatAgentResult(result));
+      console.log(formatResult(result, format));
     } catch (e: any) {
       console.error(e.message);
       process.exit(1);
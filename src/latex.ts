@@ -0,0 +1,180 @@
+/**
+ * LaTeX protection layer.
+ *
+ * Before text reaches the model, math, citation/reference/label commands,
+ * and verbatim/code blocks are swapped for opaque placeholder tokens. After
+ * the rewrite, the tokens are swapped back, and a strict restore fails
+ * loudly if the model dropped, duplicated, or invented any of them.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProtectedText {
+  /** Text with protected spans replaced by placeholder tokens. */
+  text: string;
+  /** Placeholder token -> original LaTeX. */
+  placeholders: Record<string, string>;
+}
+
+export interface PlaceholderCheck {
+  missing: string[];
+  duplicated: string[];
+  unknown: string[];
+}
+
+export interface RestoreOptions {
+  /** Throw unless every placeholder appears exactly once. Default false. */
+  strict?: boolean;
+}
+
+// ============================================================================
+// Patterns (applied in order; earlier spans win)
+// ============================================================================
+
+const PROTECTED_PATTERNS: RegExp[] = [
+  // File markers of an assembled multi-file project (project.ts)
+  /%%% (?:begin|end)-file\{[^}\n]*\}/g,
+  // Verbatim and code environments
+  /\\begin\{((?:verbatim|Verbatim|lstlisting|minted|alltt|comment)\*?)\}[\s\S]*?\\end\{\1\}/g,
+  /\\verb\*?([^a-zA-Z\s*])[^\n]*?\1/g,
+  /```[\s\S]*?```/g,
+  /(?<!`)`(?!`)[^`'\n]+`(?!`)/g,
+  // Math environments and delimiters
+  /\\begin\{((?:equation|align|alignat|gather|multline|flalign|eqnarray|math|displaymath|split)\*?)\}[\s\S]*?\\end\{\1\}/g,
+  /\$\$[\s\S]+?\$\$/g,
+  /\\\[[\s\S]+?\\\]/g,
+  /\\\([\s\S]+?\\\)/g,
+  /(?<!\\)\$(?:\\.|[^$\\])+?\$/g,
+  // Citation, cross-reference, and label commands
+  /\\(?:[a-zA-Z]*cite[a-zA-Z]*|[cCvV]ref|ref|eqref|autoref|pageref|nameref|labelcref|label|url)\*?(?:\s*\[[^\]]*\]){0,2}\s*\{[^}]*\}/g,
+];
+
+const PLACEHOLDER_RE = /⟦TEX\d+⟧/g;
+
+/** Instruction appended to goals whose text has been protected. */
+export const PLACEHOLDER_INSTRUCTION =
+  "Tokens of the form ⟦TEX0⟧ stand for protected LaTeX (math, citations, references, labels, code). " +
+  "Keep every token exactly once and unchanged; never edit, merge, split, or drop them.";
+
+// ============================================================================
+// Protect / Restore
+// ============================================================================
+
+/** Replace protected LaTeX spans with placeholder tokens. */
+export function protectLatex(text: string): ProtectedText {
+  const placeholders: Record<string, string> = {};
+  let next = 0;
+  let result = text;
+
+  for (const pattern of PROTECTED_PATTERNS) {
+    result = result.replace(pattern, (match) => {
+      const token = `⟦TEX${next++}⟧`;
+      placeholders[token] = match;
+      return token;
+    });
+  }
+
+  return { text: result, placeholders };
+}
+
+/**
+ * Offsets of the spans protectLatex would hide, as [start, end) pairs in
+ * document order. Used by local scanners that must skip math and code but
+ * report positions in the original text.
+ */
+export function findProtectedSpans(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  let masked = text;
+
+  for (const pattern of PROTECTED_PATTERNS) {
+    const found = [...masked.matchAll(pattern)].map((m): [number, number] => [m.index!, m.index! + m[0].length]);
+    if (found.length === 0) continue;
+    spans.push(...found);
+    // Blank out what this pattern took, as protectLatex does with tokens.
+    masked = masked.replace(pattern, (match) => "\0".repeat(match.length));
+  }
+
+  return spans.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Copy of `text` with protected spans and % comments replaced by spaces
+ * (newlines kept), so offsets still line up with the original.
+ */
+export function maskProtected(text: string): string {
+  const chars = text.split("");
+  const blank = (start: number, end: number) => {
+    for (let i = start; i < end; i++) if (chars[i] !== "\n") chars[i] = " ";
+  };
+  for (const [start, end] of findProtectedSpans(text)) blank(start, end);
+  for (const m of text.matchAll(/(?<!\\)%.*$/gm)) blank(m.index!, m.index! + m[0].length);
+  return chars.join("");
+}
+
+/** Map 0-based offsets in `text` to 1-based line and column. */
+export function lineLocator(text: string): (offset: number) => { line: number; column: number } {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === "\n") starts.push(i + 1);
+  return (offset) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, column: offset - starts[lo] + 1 };
+  };
+}
+
+/** Count how often each placeholder survives in a model's output. */
+export function checkPlaceholders(text: string, placeholders: Record<string, string>): PlaceholderCheck {
+  const counts = new Map<string, number>();
+  for (const m of text.matchAll(PLACEHOLDER_RE)) {
+    counts.set(m[0], (counts.get(m[0]) ?? 0) + 1);
+  }
+
+  // A later span can enclose an earlier token (e.g. \verb inside $...$);
+  // only the outermost tokens are expected in the model's output.
+  const nested = new Set(Object.values(placeholders).flatMap((original) => original.match(PLACEHOLDER_RE) ?? []));
+  const tokens = Object.keys(placeholders).filter((t) => !nested.has(t));
+  return {
+    missing: tokens.filter((t) => !counts.has(t)),
+    duplicated: tokens.filter((t) => (counts.get(t) ?? 0) > 1),
+    unknown: [...counts.keys()].filter((t) => !(t in placeholders)),
+  };
+}
+
+/**
+ * Put the original LaTeX back in place of every placeholder. With
+ * `strict`, throws when any placeholder was dropped, duplicated, or invented.
+ */
+export function restoreLatex(
+  text: string,
+  placeholders: Record<string, string>,
+  options: RestoreOptions = {},
+): string {
+  if (options.strict) {
+    const check = checkPlaceholders(text, placeholders);
+    const problems: string[] = [];
+    const describe = (tokens: string[]) =>
+      tokens.map((t) => `${t} (${placeholders[t] ?? "?"})`).join(", ");
+    if (check.missing.length > 0) problems.push(`dropped ${describe(check.missing)}`);
+    if (check.duplicated.length > 0) problems.push(`duplicated ${describe(check.duplicated)}`);
+    if (check.unknown.length > 0) problems.push(`invented ${check.unknown.join(", ")}`);
+    if (problems.length > 0) {
+      throw new Error(`LaTeX protection check failed: ${problems.join("; ")}`);
+    }
+  }
+
+  // Repeat to expand tokens nested inside other protected spans.
+  let restored = text;
+  for (let depth = 0; depth < 10; depth++) {
+    const next = restored.replace(PLACEHOLDER_RE, (token) => placeholders[token] ?? token);
+    if (next === restored) break;
+    restored = next;
+  }
+  return restored;
+}
@@ -0,0 +1,204 @@
+/**
+ * Offline mock provider for tests, CI and demos.
+ *
+ * AIRWRITER_MOCK=echo answers without a network: an agent calls its first
+ * tool once and then returns the input text unchanged, and plain calls echo
+ * the user message. AIRWRITER_MOCK=<fixture.json> replays scripted or
+ * recorded responses instead. AIRWRITER_RECORD=<fixture.json> appends every
+ * real provider response to a fixture, so a session can be replayed later.
+ *
+ * Fixture format:
+ *
+ * {
+ *   "responses": [
+ *     { "text": "Thought: ...\nAction: analyze_issues\nAction Input: ..." },
+ *     { "match": "3f2a9c0d1b7e4a55", "text": "...", "toolCalls": [ ... ] }
+ *   ]
+ * }
+ *
+ * Entries with `match` (written by recording) answer the request with that
+ * fingerprint; entries without it are served in order.
+ */
+
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { PLACEHOLDER_INSTRUCTION } from "./latex";
+import { estimateTokens } from "./pricing";
+import type { TokenUsage } from "./pricing";
+import type { ChatMessage, ToolCall, ToolDefinition } from "./provider";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MockRequest {
+  systemPrompt: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: "auto" | "none";
+}
+
+export interface MockReply {
+  text: string;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+}
+
+export interface FixtureEntry extends MockReply {
+  /** Request fingerprint this entry answers; unmatched entries play in order. */
+  match?: string;
+  /** Provider and model the entry was recorded from. */
+  provider?: string;
+  model?: string;
+}
+
+export interface Fixture {
+  responses: FixtureEntry[];
+}
+
+/** "echo", or the path of a fixture to replay. Selects the mock provider. */
+export const MOCK_ENV = "AIRWRITER_MOCK";
+/** Path of a fixture to append real responses to. */
+export const RECORD_ENV = "AIRWRITER_RECORD";
+
+// ============================================================================
+// Fingerprints + Fixtures
+// ============================================================================
+
+/**
+ * Stable hash of what the model was asked. Tool call ids are left out
+ * because some providers (Gemini) have none and they are generated locally.
+ */
+export function requestFingerprint(request: MockRequest): string {
+  const canonical = JSON.stringify({
+    system: request.systemPrompt,
+    messages: request.messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+      name: m.name,
+      toolCalls: m.toolCalls?.map((c) => ({ name: c.name, arguments: c.arguments })),
+    })),
+    tools: request.tools?.map((t) => t.name),
+    toolChoice: request.toolChoice,
+  });
+  return createHash("sha256").update(canonical).digest("hex").slice(0, 16);
+}
+
+function readFixture(file: string): Fixture {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Cannot read mock fixture ${file}: ${err.message}`);
+  }
+  const responses = (raw as Fixture)?.responses;
+  if (!Array.isArray(responses) || responses.some((r) => typeof r?.text !== "string")) {
+    throw new Error(`Mock fixture ${file} must have a "responses" array of { "text": ... } entries`);
+  }
+  return { responses };
+}
+
+/** Loaded fixtures and which of their entries have been played, by path. */
+const replays = new Map<string, { fixture: Fixture; used: Set<number> }>();
+
+/** Forget replay progress so fixtures play from the start again. */
+export function resetMockReplay(): void {
+  replays.clear();
+}
+
+function replay(file: string, request: MockRequest): MockReply {
+  let state = replays.get(file);
+  if (!state) {
+    state = { fixture: readFixture(file), used: new Set() };
+    replays.set(file, state);
+  }
+  const { fixture, used } = state;
+  const fingerprint = requestFingerprint(request);
+  let index = fixture.responses.findIndex((r, i) => !used.has(i) && r.match === fingerprint);
+  if (index < 0) index = fixture.responses.findIndex((r, i) => !used.has(i) && r.match === undefined);
+  if (index < 0) {
+    throw new Error(
+      `Mock fixture ${file} has no response left for request ${fingerprint} ` +
+        `(${used.size} of ${fixture.responses.length} used). Re-record it with ${RECORD_ENV}.`,
+    );
+  }
+  used.add(index);
+  const { text, toolCalls, usage } = fixture.responses[index];
+  return { text, ...(toolCalls ? { toolCalls } : {}), usage: usage ?? estimateUsage(request, text) };
+}
+
+/** Append a real response to the fixture at `file`, creating it if needed. */
+export function recordResponse(
+  file: string,
+  request: MockRequest,
+  reply: MockReply,
+  source: { provider: string; model: string },
+): void {
+  const fixture: Fixture = fs.existsSync(file) ? readFixture(file) : { responses: [] };
+  fixture.responses.push({
+    match: requestFingerprint(request),
+    provider: source.provider,
+    model: source.model,
+    text: reply.text,
+    ...(reply.toolCalls ? { toolCalls: reply.toolCalls } : {}),
+    ...(reply.usage ? { usage: reply.usage } : {}),
+  });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n", "utf-8");
+}
+
+// ============================================================================
+// Echo Mode
+// ============================================================================
+
+function estimateUsage(request: MockRequest, text: string): TokenUsage {
+  const prompt = request.systemPrompt + request.messages.map((m) => m.content).join("\n");
+  return { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) };
+}
+
+/**
+ * The document text an agent goal was built around: what follows the last
+ * "Text:" / "Paper:" label, without the protection instruction, or the
+ * whole goal when there is no label.
+ */
+function goalText(message: string): string {
+  let goal = message.replace(/^Goal: /, "").replace(/\n\nBegin\.$/, "");
+  if (goal.endsWith(`\n\n${PLACEHOLDER_INSTRUCTION}`)) {
+    goal = goal.slice(0, -(PLACEHOLDER_INSTRUCTION.length + 2));
+  }
+  const labels = [...goal.matchAll(/\n(?:Text|Paper):\n/g)];
+  const last = labels[labels.length - 1];
+  return last ? goal.slice(last.index! + last[0].length) : goal;
+}
+
+function echo(request: MockRequest): MockReply {
+  const { messages, tools, systemPrompt } = request;
+  const first = messages[0]?.content ?? "";
+  const isAgent = first.startsWith("Goal: ");
+  const text = isAgent ? goalText(first) : [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  const forced = messages.some((m) => m.content.startsWith("Maximum steps reached"));
+
+  // Native tool calling: one call to the first tool, then the answer.
+  if (tools?.length && request.toolChoice !== "none") {
+    if (!forced && !messages.some((m) => m.role === "tool")) {
+      const toolCalls = [{ id: "mock-call-1", name: tools[0].name, arguments: { input: text } }];
+      return { text: `Start with ${tools[0].name}.`, toolCalls, usage: estimateUsage(request, text) };
+    }
+    return { text, usage: estimateUsage(request, text) };
+  }
+
+  // Text ReAct format: the same script, written out.
+  if (isAgent && systemPrompt.includes("Action Input:")) {
+    const tool = /Available tools:\n\s+([\w-]+):/.exec(systemPrompt)?.[1];
+    const reply = tool && !forced && !messages.some((m) => m.content.startsWith("Observation:"))
+      ? `Thought: Start with ${tool}.\nAction: ${tool}\nAction Input: ${text}`
+      : `Thought: Done.\nFinal Answer: ${text}`;
+    return { text: reply, usage: estimateUsage(request, reply) };
+  }
+
+  return { text, usage: estimateUsage(request, text) };
+}
+
+/** Answer a request in echo mode, or from the fixture named by `source`. */
+export function mockReply(request: MockRequest, source: string = "echo"): MockReply {
+  return ["echo", "1", "true"].includes(source) ? echo(request) : replay(source, request);
+}
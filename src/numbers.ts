@@ -0,0 +1,470 @@
+/**
+ * Cross-section number consistency checker.
+ *
+ * Extracts the paper's numeric claims about its own work: metric values
+ * ("92.3% accuracy on ImageNet"), improvements ("improves F1 by 4.1"),
+ * study counts ("three benchmarks") and dataset sizes ("50k images in
+ * COCO"). They come from the prose and from the proposed method's rows in
+ * results tables. Each claim is keyed by the entity it describes, and
+ * mentions of one entity that disagree beyond the precision they were
+ * written with are reported, e.g. 92.3% in the abstract and 91.8% in a
+ * table. Claimed benchmark counts are also compared with the datasets the
+ * tables report. `check-logic --type numbers` prints the findings, and the
+ * `check_numbers` logic tool hands them to the model.
+ */
+
+import { splitSections } from "./chunker";
+import { lineLocator } from "./latex";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NumericKind = "metric" | "improvement" | "count" | "size";
+
+export interface NumericMention {
+  kind: NumericKind;
+  /** What the number describes, e.g. "accuracy on ImageNet" or "benchmarks". */
+  entity: string;
+  value: number;
+  /** Half a unit of the last written digit: "92.3" stands for 92.25-92.35. */
+  tolerance: number;
+  /** The number as written, with its unit or noun. */
+  text: string;
+  /** Section heading, "Abstract", or "Table N" for table cells. */
+  section: string;
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface NumberIssue {
+  type: "numbers";
+  severity: "warning";
+  /** File the issue is in, when a multi-file project was checked. */
+  file?: string;
+  line: number;
+  column: number;
+  offset: number;
+  entity: string;
+  /** The disagreeing mention as written. */
+  match: string;
+  /** The earlier mention it disagrees with. */
+  conflictsWith: { text: string; section: string; line: number };
+  message: string;
+}
+
+export interface NumberReport {
+  issues: NumberIssue[];
+  /** Every claim found, in document order. */
+  mentions: NumericMention[];
+}
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+/** Metric names and the key they are grouped under. */
+const METRICS: Array<[RegExp, string]> = [
+  [/\btop-?1(?:\s+accuracy)?\b/i, "top-1 accuracy"],
+  [/\btop-?5(?:\s+accuracy)?\b/i, "top-5 accuracy"],
+  [/\baccurac(?:y|ies)\b|\bacc\.?(?![\w])/i, "accuracy"],
+  [/\bF[-_]?\{?1\}?(?:[-\s]score)?(?![\w])|\bF-?measure\b/, "F1"],
+  [/\bprecision\b/i, "precision"],
+  [/\brecall\b/i, "recall"],
+  [/\bm?AP\b|\bmean average precision\b/, "mAP"],
+  [/\bAUC\b|\bAUROC\b/, "AUC"],
+  [/\bBLEU\b/, "BLEU"],
+  [/\bROUGE(?:-[L12])?\b/, "ROUGE"],
+  [/\bexact match\b|\bEM\b/i, "exact match"],
+  [/\bm?IoU\b/, "IoU"],
+  [/\bPSNR\b/, "PSNR"],
+  [/\bSSIM\b/, "SSIM"],
+  [/\bFID\b/, "FID"],
+  [/\bWER\b|\bword error rate\b/i, "WER"],
+  [/\berror rate\b/i, "error rate"],
+  [/\bsuccess rate\b/i, "success rate"],
+  [/\bwin rate\b/i, "win rate"],
+  [/\bpass@\d+\b/i, "pass@k"],
+  [/\bperplexity\b/i, "perplexity"],
+];
+
+/** Metrics also written as fractions (0.923), normalized to percent. */
+const FRACTION_METRICS = new Set(["accuracy", "top-1 accuracy", "top-5 accuracy", "F1", "precision", "recall", "mAP", "AUC", "exact match", "IoU", "success rate", "win rate"]);
+
+/** Things a study has a fixed number of: "three benchmarks". */
+const COUNT_NOUNS = /^(benchmark|dataset|task|language|baseline|domain|participant|annotator|metric|modalit(?:y|ie)|environment)s\b/i;
+
+/** Things a dataset has a size in: "50k images". */
+const SIZE_NOUNS = /^(image|sample|example|sentence|document|question|video|pair|instance|utterance|dialogue|token|hour|clip)s\b/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, twenty: 20,
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, K: 1e3, thousand: 1e3, M: 1e6, million: 1e6, B: 1e9, billion: 1e9,
+};
+
+/** Capitalized names that look like datasets: ImageNet, CIFAR-10, SQuAD. */
+const NAME_RE = /(?<![\w-])(?:[A-Z][a-z]*[A-Z0-9][\w-]*|[A-Z]{2,}[\w-]*)(?![\w-])/g;
+const NOT_NAMES = new Set(["GPU", "GPUs", "CPU", "CPUs", "TPU", "TPUs", "API", "AI", "NLP", "LLM", "LLMs", "ML", "RL", "CNN", "CNNs", "RNN", "FLOPs", "SOTA"]);
+
+/** Sentences about the paper's own method. */
+const OWN_RE = /\b(?:we|our|ours|proposed)\b/i;
+/** Sentences and rows about variants of it, whose numbers differ on purpose. */
+const VARIANT_RE = /\b(?:without|w\/o|ablat\w*|remov\w*|drops?|only|variant)\b/i;
+/** Words that make a count partial: "the first three datasets". */
+const PARTIAL_WORDS = new Set(["of", "first", "last", "other", "remaining", "additional", "top", "these", "those", "both", "all", "each", "per", "every"]);
+
+const NUMBER_RE =
+  /(?<![\w.\\-])(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(?:\s*(\\?%|percent\b|points?\b|pp\b)|\s*(k|K|M|B)(?![\w])|\s+(thousand|million|billion)\b)?/g;
+const NUMBER_WORD_RE = new RegExp(`\\b(${Object.keys(NUMBER_WORDS).join("|")})\\b`, "gi");
+
+/** Numbers that are names of things, not claims: "Table 2", "Section 3". */
+const LABEL_BEFORE_RE = /(?:\b(?:Tables?|Tab|Figures?|Figs?|Sections?|Sec|Eqs?|Equations?|Appendix|Algorithm|Step|Lines?|Chapter|Stage|Phase|Version|Layer)\.?|\[|\bv)\s*~?$/i;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/**
+ * Hide what holds numbers that are not claims: comments, code, citations,
+ * references and lengths in optional arguments.
+ */
+function maskSource(text: string): string {
+  return text
+    .replace(/\\begin\{((?:verbatim|Verbatim|lstlisting|minted|alltt|comment)\*?)\}[\s\S]*?\\end\{\1\}/g, blank)
+    .replace(/(?<!\\)%.*$/gm, blank)
+    .replace(/\\(?:[a-zA-Z]*cite[a-zA-Z]*|[cC]ref|ref|eqref|autoref|pageref|label|url|href|includegraphics|input|include|[vh]space|setlength|usepackage|documentclass)\*?(?:\s*\[[^\]]*\])*\s*\{[^}]*\}/g, blank)
+    .replace(/\\[a-zA-Z]+\*?\s*\[[^\]]*\]/g, blank);
+}
+
+function parseNumber(raw: string, unit = ""): { value: number; tolerance: number } {
+  const digits = raw.replace(/,/g, "");
+  const decimals = digits.includes(".") ? digits.split(".")[1].length : 0;
+  const scale = MULTIPLIERS[unit] ?? 1;
+  return { value: Number(digits) * scale, tolerance: (0.5 / 10 ** decimals) * scale };
+}
+
+/** The metric named nearest to `at` in `text`, if any. */
+function nearestMetric(text: string, at: number): string | undefined {
+  let best: { name: string; distance: number } | undefined;
+  for (const [re, name] of METRICS) {
+    for (const m of text.matchAll(new RegExp(re.source, re.flags.includes("i") ? "gi" : "g"))) {
+      const distance = Math.abs(m.index! - at);
+      if (!best || distance < best.distance) best = { name, distance };
+    }
+  }
+  return best?.name;
+}
+
+/**
+ * The metric a number is written with: right after it ("92.3% top-1
+ * accuracy") or right before it ("an F1 score of 0.87").
+ */
+function adjacentMetric(before: string, after: string): string | undefined {
+  for (const [re, name] of METRICS) {
+    const flags = re.flags.includes("i") ? "i" : "";
+    if (new RegExp(`^[\\s)]*(?:[\\w-]+\\s+)?(?:${re.source})`, flags).test(after.slice(0, 40))) return name;
+    const lead = `(?:${re.source})(?:\\s+score)?\\s*(?:of|=|:|is|was|reaches|reached|to|at|\\()?\\s*(?:about|around|approximately|~)?\\s*$`;
+    if (new RegExp(lead, flags).test(before.slice(-60))) return name;
+  }
+  return undefined;
+}
+
+/**
+ * A dataset-like name in `text`: of those after "on"/"for"/"in"/"of", the
+ * one nearest `at`; otherwise the only name in the text.
+ */
+function datasetName(text: string, exclude: Set<string>, at = 0): string | undefined {
+  const names = [...text.matchAll(NAME_RE)]
+    .map((m) => ({ name: m[0], index: m.index!, after: /\b(?:on|for|in|of)\s+(?:the\s+)?$/i.test(text.slice(0, m.index!)) }))
+    .filter(({ name }) => !NOT_NAMES.has(name) && !exclude.has(name) && !METRICS.some(([re]) => new RegExp(`^(?:${re.source})$`, re.flags).test(name)));
+  const preferred = names.filter((n) => n.after).sort((a, b) => Math.abs(a.index - at) - Math.abs(b.index - at));
+  return (preferred[0] ?? (names.length === 1 ? names[0] : undefined))?.name;
+}
+
+/**
+ * The first of the next three words that is one of `nouns`, unless a word
+ * before it makes the number partial ("three of the datasets").
+ */
+function nounAfter(after: string, nouns: RegExp): string | undefined {
+  const words = after.match(/^(?:\s+[A-Za-z-]+){1,3}/)?.[0].trim().split(/\s+/) ?? [];
+  const index = words.findIndex((w) => nouns.test(w));
+  if (index < 0 || words.slice(0, index).some((w) => ["of", "and", "or", "per"].includes(w.toLowerCase()))) return undefined;
+  return words[index];
+}
+
+/** Names the paper gives its own method: "We propose FooNet". */
+function methodNames(text: string): Set<string> {
+  const names = new Set<string>();
+  for (const m of text.matchAll(/\b(?:we|this (?:paper|work))\s+(?:propose|introduce|present)s?\b([^.]{0,80})/gi)) {
+    const name = m[1].match(NAME_RE)?.[0];
+    if (name && !NOT_NAMES.has(name)) names.add(name);
+  }
+  return names;
+}
+
+function singular(noun: string): string {
+  return noun.toLowerCase().replace(/ies$/, "y").replace(/s$/, "");
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+interface Region {
+  start: number;
+  end: number;
+  name: string;
+}
+
+/** Named regions for locating mentions: the abstract, tables, and sections. */
+function regionsOf(text: string): { sectionAt: (offset: number) => string; tables: Region[] } {
+  const tables = [...text.matchAll(/\\begin\{(table\*?)\}[\s\S]*?\\end\{\1\}/g)].map((m, i) => ({
+    start: m.index!, end: m.index! + m[0].length, name: `Table ${i + 1}`,
+  }));
+  const abstract = /\\begin\{abstract\}[\s\S]*?\\end\{abstract\}/.exec(text);
+  const sections = splitSections(text);
+  return {
+    tables,
+    sectionAt: (offset) => {
+      const table = tables.find((t) => offset >= t.start && offset < t.end);
+      if (table) return table.name;
+      if (abstract && offset >= abstract.index && offset < abstract.index + abstract[0].length) return "Abstract";
+      const section = [...sections].reverse().find((s) => s.start <= offset);
+      return section?.heading ?? "Front matter";
+    },
+  };
+}
+
+function proseMentions(source: string, methods: Set<string>): Array<Omit<NumericMention, "section" | "line" | "column">> {
+  const mentions: Array<Omit<NumericMention, "section" | "line" | "column">> = [];
+  const own = (sentence: string) => OWN_RE.test(sentence) || [...methods].some((n) => sentence.includes(n));
+
+  for (const s of source.matchAll(/(?:[^.!?\n]|\n(?![ \t]*\n)|[.!?](?!\s))+/g)) {
+    const sentence = s[0];
+    const seen = new Set<string>();
+    const add = (mention: Omit<NumericMention, "section" | "line" | "column">) => {
+      const key = `${mention.kind}|${mention.entity}`;
+      // A second number for the same entity in one sentence is usually a baseline's.
+      if (seen.has(key)) return;
+      seen.add(key);
+      mentions.push(mention);
+    };
+
+    for (const m of sentence.matchAll(NUMBER_RE)) {
+      const before = sentence.slice(0, m.index!);
+      const after = sentence.slice(m.index! + m[0].length);
+      const unit = m[3] ?? m[4];
+      if (LABEL_BEFORE_RE.test(before)) continue;
+      if (!m[2] && !unit && /^(?:19|20)\d\d$/.test(m[1])) continue;
+      const offset = s.index! + m.index!;
+      const { value, tolerance } = parseNumber(m[1], unit);
+      const prevWord = before.match(/([a-z]+)\s*$/i)?.[1]?.toLowerCase() ?? "";
+
+      const sizeNoun = m[2] ? undefined : nounAfter(after, SIZE_NOUNS);
+      if (sizeNoun) {
+        const ours = /\b(?:our|the|this)\s+(?:new\s+)?(?:dataset|corpus|benchmark)\b/i.test(sentence);
+        const dataset = datasetName(sentence, methods, m.index!) ?? (ours ? "our dataset" : undefined);
+        if (dataset) {
+          add({ kind: "size", entity: `${singular(sizeNoun)}s in ${dataset}`, value, tolerance, text: `${m[0]} ${sizeNoun}`, offset });
+        }
+        continue;
+      }
+      const countNoun = m[2] || unit || m[1].includes(".") ? undefined : nounAfter(after, COUNT_NOUNS);
+      if (countNoun) {
+        if (own(sentence) && !PARTIAL_WORDS.has(prevWord)) {
+          add({ kind: "count", entity: `${singular(countNoun)}s`, value, tolerance: 0, text: `${m[0]} ${countNoun}`, offset });
+        }
+        continue;
+      }
+
+      if (!own(sentence)) continue;
+      const improvement = /\b(?:improv|outperform|gain|boost|surpass|exceed|reduc|increas|lower|rais)\w*\b[^.]*\bby\s*~?$/i.test(before);
+      const metric = improvement ? nearestMetric(sentence, m.index!) : adjacentMetric(before, after);
+      if (!metric || (!improvement && VARIANT_RE.test(sentence))) continue;
+      const percent = /%|percent/.test(m[2] ?? "");
+      const fraction = !percent && value <= 1 && FRACTION_METRICS.has(metric);
+      const dataset = datasetName(sentence, methods, m.index!);
+      const entity = `${metric}${dataset ? ` on ${dataset}` : ""}`;
+      add({
+        kind: improvement ? "improvement" : "metric",
+        entity: improvement ? `improvement in ${entity}` : entity,
+        value: fraction ? value * 100 : value,
+        tolerance: fraction ? tolerance * 100 : tolerance,
+        text: m[0],
+        offset,
+      });
+    }
+
+    for (const m of sentence.matchAll(NUMBER_WORD_RE)) {
+      const noun = nounAfter(sentence.slice(m.index! + m[0].length), COUNT_NOUNS);
+      const prevWord = sentence.slice(0, m.index!).match(/([a-z]+)\s*$/i)?.[1]?.toLowerCase() ?? "";
+      if (!noun || !own(sentence) || PARTIAL_WORDS.has(prevWord)) continue;
+      add({
+        kind: "count", entity: `${singular(noun)}s`, value: NUMBER_WORDS[m[1].toLowerCase()], tolerance: 0,
+        text: `${m[0]} ${noun}`, offset: s.index! + m.index!,
+      });
+    }
+  }
+  return mentions;
+}
+
+interface Cell {
+  text: string;
+  offset: number;
+  /** Columns the cell spans (\multicolumn). */
+  span: number;
+}
+
+/** Rows of a tabular body as cells with offsets into the source. */
+function tableRows(body: string, start: number): Cell[][] {
+  const parts: Array<[string, number]> = [];
+  let from = 0;
+  for (const m of body.matchAll(/\\\\(?:\s*\[[^\]]*\])?/g)) {
+    parts.push([body.slice(from, m.index!), from]);
+    from = m.index! + m[0].length;
+  }
+  parts.push([body.slice(from), from]);
+
+  const rows: Cell[][] = [];
+  for (const [part, partStart] of parts) {
+    const cells: Cell[] = [];
+    let cellStart = partStart;
+    for (const raw of part.split(/(?<!\\)&/)) {
+      const span = Number(/\\multicolumn\s*\{(\d+)\}/.exec(raw)?.[1] ?? 1);
+      const text = raw
+        .replace(/\\(?:hline|toprule|midrule|bottomrule|cmidrule(?:\([^)]*\))?\s*\{[^}]*\}|cline\s*\{[^}]*\})/g, " ")
+        .replace(/\\multicolumn\s*\{\d+\}\s*\{[^}]*\}/, " ")
+        .replace(/\\pm\b[\s\S]*$/, " ")
+        .replace(/\\[a-zA-Z]+\*?/g, " ")
+        .replace(/[{}$]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+      const lead = raw.match(/^[\s{$]*(?:\\[a-zA-Z]+\s*\{?)*/)![0].length;
+      cells.push({ text, offset: start + cellStart + lead, span });
+      cellStart += raw.length + 1;
+    }
+    if (cells.some((c) => c.text)) rows.push(cells);
+  }
+  return rows;
+}
+
+/** Expand \multicolumn cells so row[j] is column j. */
+function columns(row: Cell[]): Cell[] {
+  return row.flatMap((cell) => Array.from({ length: cell.span }, () => cell));
+}
+
+const CELL_NUMBER_RE = /^[-+]?(\d+(?:\.\d+)?)\s*(\\?%)?/;
+
+function tableMentions(source: string, tables: Region[], methods: Set<string>): Array<Omit<NumericMention, "section" | "line" | "column">> {
+  const mentions: Array<Omit<NumericMention, "section" | "line" | "column">> = [];
+  const ownRow = (label: string) =>
+    (/\b(?:ours|our\b|proposed)/i.test(label) || [...methods].some((n) => label.includes(n))) && !VARIANT_RE.test(label);
+
+  for (const table of tables) {
+    const env = source.slice(table.start, table.end);
+    const caption = env.match(/\\caption\s*(?:\[[^\]]*\])?\s*\{((?:[^{}]|\{[^{}]*\})*)\}/)?.[1] ?? "";
+    for (const t of env.matchAll(/\\begin\{(tabular\*?|tabularx|array)\}((?:\s*\{(?:[^{}]|\{[^{}]*\})*\})*)([\s\S]*?)\\end\{\1\}/g)) {
+      const bodyStart = table.start + t.index! + `\\begin{${t[1]}}`.length + t[2].length;
+      const rows = tableRows(t[3], bodyStart);
+      const isData = (row: Cell[]) => row.slice(1).filter((c) => CELL_NUMBER_RE.test(c.text)).length > row.slice(1).length / 2;
+      const firstData = rows.findIndex(isData);
+      if (firstData <= 0) continue;
+      const headers = rows.slice(0, firstData).map(columns);
+      const own = rows.slice(firstData).filter((row) => isData(row) && ownRow(row[0].text));
+      // Several rows for the method (sizes, settings) make the cells ambiguous.
+      if (own.length !== 1) continue;
+
+      columns(own[0]).forEach((cell, j) => {
+        const m = CELL_NUMBER_RE.exec(cell.text);
+        if (j === 0 || !m) return;
+        const header = headers.map((h) => h[j]?.text ?? "").join(" ");
+        const metric = nearestMetric(header, 0) ?? nearestMetric(caption, 0);
+        if (!metric) return;
+        const dataset = datasetName(header, methods) ?? datasetName(caption, methods);
+        const { value, tolerance } = parseNumber(m[1]);
+        const fraction = !m[2] && !/%/.test(header + caption) && value <= 1 && FRACTION_METRICS.has(metric);
+        mentions.push({
+          kind: "metric",
+          entity: `${metric}${dataset ? ` on ${dataset}` : ""}`,
+          value: fraction ? value * 100 : value,
+          tolerance: fraction ? tolerance * 100 : tolerance,
+          text: m[0].trim(),
+          offset: cell.offset,
+        });
+      });
+    }
+  }
+  return mentions;
+}
+
+/**
+ * Numeric claims the paper makes about its own work, from its prose and
+ * from its method's row in results tables, in document order.
+ */
+export function extractNumericClaims(text: string): NumericMention[] {
+  const source = maskSource(text);
+  const { sectionAt, tables } = regionsOf(source);
+  const methods = methodNames(source);
+  let prose = source;
+  for (const t of tables) prose = prose.slice(0, t.start) + blank(prose.slice(t.start, t.end)) + prose.slice(t.end);
+
+  const locate = lineLocator(text);
+  return [...proseMentions(prose, methods), ...tableMentions(source, tables, methods)]
+    .sort((a, b) => a.offset - b.offset)
+    .map((m) => ({ ...m, section: sectionAt(m.offset), ...locate(m.offset) }));
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Report claims that disagree with an earlier claim about the same entity,
+ * and benchmark counts that differ from the datasets the tables report.
+ */
+export function checkNumbers(text: string): NumberReport {
+  const mentions = extractNumericClaims(text);
+  const issues: NumberIssue[] = [];
+  const issue = (m: NumericMention, earlier: NumberIssue["conflictsWith"], message: string) =>
+    issues.push({
+      type: "numbers", severity: "warning", line: m.line, column: m.column, offset: m.offset,
+      entity: m.entity, match: m.text, conflictsWith: earlier, message,
+    });
+
+  const groups = new Map<string, NumericMention[]>();
+  for (const m of mentions) {
+    const key = `${m.kind}|${m.entity.toLowerCase()}`;
+    const earlier = groups.get(key) ?? [];
+    const clash = earlier.find((e) => Math.abs(e.value - m.value) > Math.max(e.tolerance, m.tolerance) + 1e-9);
+    if (clash) {
+      issue(m, { text: clash.text, section: clash.section, line: clash.line },
+        `"${m.text}" (${m.entity}, ${m.section}) disagrees with "${clash.text}" in ${clash.section} (line ${clash.line})`);
+    }
+    // A mention already reported is not held against later ones.
+    groups.set(key, clash ? earlier : [...earlier, m]);
+  }
+
+  // "three benchmarks" against the datasets the results tables report.
+  const tabled = mentions.filter((m) => m.kind === "metric" && m.section.startsWith("Table ") && m.entity.includes(" on "));
+  const datasets = [...new Set(tabled.map((m) => m.entity.slice(m.entity.indexOf(" on ") + 4)))];
+  if (datasets.length >= 2) {
+    for (const m of mentions.filter((m) => m.kind === "count" && /^(?:benchmark|dataset)s$/.test(m.entity))) {
+      if (m.value === datasets.length) continue;
+      const first = tabled[0];
+      issue(m, { text: `${datasets.length} datasets`, section: first.section, line: first.line },
+        `"${m.text}" (${m.section}), but the results tables report ${datasets.length}: ${datasets.join(", ")}`);
+    }
+  }
+
+  issues.sort((a, b) => a.offset - b.offset);
+  return { issues, mentions };
+}
@@ -0,0 +1,85 @@
+/**
+ * Token prices and cost estimates.
+ *
+ * Prices are USD per million tokens, matched by exact model name or by the
+ * longest known prefix (so dated snapshots such as
+ * "claude-sonnet-4-5-20250929" use the "claude-sonnet-4-5" price). Override
+ * or extend the table with "prices" in .airwriterrc.json; self-hosted models
+ * have no default price.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelPrice {
+  /** USD per million input tokens. */
+  input: number;
+  /** USD per million output tokens. */
+  output: number;
+}
+
+// ============================================================================
+// Price Table
+// ============================================================================
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gemini-3-flash-preview": { input: 0.5, output: 3 },
+  "gemini-3-pro-preview": { input: 2, output: 12 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+  mock: { input: 0, output: 0 },
+};
+
+/** Rough token count for text not yet sent: about four characters per token. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Price for a model, with `overrides` taking precedence over the defaults. */
+export function findPrice(model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | null {
+  const table = { ...DEFAULT_PRICES, ...overrides };
+  if (table[model]) return table[model];
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : null;
+}
+
+/** Cost in USD of `usage` on `model`, or null when the model has no price. */
+export function estimateCost(
+  usage: TokenUsage,
+  model: string,
+  overrides: Record<string, ModelPrice> = {},
+): number | null {
+  const price = findPrice(model, overrides);
+  if (!price) return null;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/** Sum token usage; undefined entries (calls without usage data) are skipped. */
+export function addUsage(...usages: Array<TokenUsage | undefined>): TokenUsage {
+  const total: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  for (const usage of usages) {
+    if (!usage) continue;
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+  }
+  return total;
+}
+
+/** Format a USD amount with enough precision for sub-cent calls. */
+export function formatCost(usd: number): string {
+  return usd >= 1 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(4)}`;
+}
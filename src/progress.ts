@@ -0,0 +1,68 @@
+/**
+ * Live progress rendering for the CLI.
+ *
+ * Turns runAgent events into short status lines on stderr, so stdout keeps
+ * only the result. With `tokens`, the model's replies are echoed as they
+ * stream in instead of the parsed thought/action lines.
+ */
+
+import type { AgentEvent, AgentEventHandler } from "./agent";
+
+export interface ProgressOptions {
+  /** Echo streamed tokens as they arrive. Default false. */
+  tokens?: boolean;
+}
+
+function preview(text: string, max = 100): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? flat.slice(0, max) + "..." : flat;
+}
+
+/** Build an onEvent handler that writes progress to `out`. */
+export function createProgressReporter(
+  out: NodeJS.WritableStream = process.stderr,
+  options: ProgressOptions = {},
+): AgentEventHandler {
+  // True while echoed tokens have left the cursor mid-line.
+  let midLine = false;
+  const line = (text: string) => {
+    if (midLine) out.write("\n");
+    midLine = false;
+    out.write(text + "\n");
+  };
+
+  return (event: AgentEvent) => {
+    switch (event.type) {
+      case "chunk":
+        line(`\n  Part ${event.chunk} of ${event.total}`);
+        break;
+      case "round":
+        line(`\n  Round ${event.round}: ${event.words} words, target ${event.target}`);
+        break;
+      case "step_start":
+        line(`  Step ${event.step}: thinking...`);
+        break;
+      case "token":
+        if (!options.tokens) break;
+        out.write(event.delta);
+        midLine = !event.delta.endsWith("\n");
+        break;
+      case "stream_reset":
+        // Only the echoed tokens need retracting; the step lines stay true.
+        if (options.tokens) line(`\n  [${event.provider} failed mid-reply (${preview(event.error)}); the reply restarts from the next provider]`);
+        break;
+      case "thought":
+        if (!options.tokens) line(`    Thought: ${preview(event.thought)}`);
+        break;
+      case "action":
+        if (!options.tokens) line(`    Action: ${event.action}`);
+        break;
+      case "observation":
+        line(`    ${event.action} returned ${event.observation.length} chars`);
+        break;
+      case "final_answer":
+        line(`  Final answer ready.`);
+        break;
+    }
+  };
+}
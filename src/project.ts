@@ -0,0 +1,230 @@
+/**
+ * Multi-file LaTeX projects.
+ *
+ * A root .tex is assembled into one document by replacing each
+ * \input{...}, \include{...} and \subfile{...} with the file it names,
+ * recursively, between marker comments:
+ *
+ *   %%% begin-file{sections/intro.tex}
+ *   ...contents of sections/intro.tex...
+ *   %%% end-file{sections/intro.tex}
+ *
+ * The markers are protected like math, so the model keeps them, and they
+ * let a rewrite of the assembled document be split back into its files.
+ * A source map turns offsets in the assembled text into file:line:column.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProjectSegment {
+  /** File the text came from, as a path relative to the working directory. */
+  file: string;
+  /** [start, end) offsets in the assembled text. */
+  start: number;
+  end: number;
+  /** Offset of `start` in the file. */
+  fileOffset: number;
+}
+
+export interface LatexProject {
+  /** Root file, as given. */
+  root: string;
+  /** Assembled document, with marker comments around every included file. */
+  text: string;
+  /** Every file in the project, root first, in inclusion order. */
+  files: string[];
+  /** Original contents of every file. */
+  sources: Record<string, string>;
+  segments: ProjectSegment[];
+  /** The command that included each non-root file, e.g. "\\input{sections/intro}". */
+  includes: Record<string, string>;
+}
+
+export interface SourceLocation {
+  file: string;
+  /** 1-based line and column in `file`. */
+  line: number;
+  column: number;
+}
+
+// ============================================================================
+// Assembly
+// ============================================================================
+
+const INCLUDE_RE = /\\(input|include|subfile)\s*\{([^}]+)\}/g;
+const MARKER_RE = /%%% (begin|end)-file\{([^}\n]*)\}/g;
+
+const beginMarker = (id: string) => `%%% begin-file{${id}}\n`;
+const endMarker = (id: string) => `\n%%% end-file{${id}}`;
+
+/** Whether `offset` is inside a % comment, so commented-out includes are skipped. */
+function isCommented(text: string, offset: number): boolean {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return /(?<!\\)%/.test(text.slice(lineStart, offset));
+}
+
+/**
+ * Resolve an include target like LaTeX does: \input and \include are
+ * relative to the root's directory, \subfile to the including file; ".tex"
+ * is added when the name has no extension.
+ */
+function resolveInclude(command: string, name: string, rootDir: string, fromFile: string): string {
+  const base = command === "subfile" ? path.dirname(fromFile) : rootDir;
+  const target = path.join(base, name.trim());
+  if (path.extname(target) === "" || !fs.existsSync(target)) {
+    if (fs.existsSync(`${target}.tex`)) return `${target}.tex`;
+  }
+  return target;
+}
+
+/**
+ * Load a root file and everything it includes. A file without include
+ * commands yields a one-file project whose text is the file unchanged.
+ */
+export function loadProject(root: string): LatexProject {
+  if (!fs.existsSync(root)) throw new Error(`File not found: ${root}`);
+  const rootDir = path.dirname(root);
+  const project: LatexProject = { root, text: "", files: [], sources: {}, segments: [], includes: {} };
+
+  const visit = (file: string, stack: string[]) => {
+    const source = fs.readFileSync(file, "utf-8");
+    project.files.push(file);
+    project.sources[file] = source;
+
+    let from = 0;
+    const copy = (to: number) => {
+      if (to <= from) return;
+      const start = project.text.length;
+      project.text += source.slice(from, to);
+      project.segments.push({ file, start, end: project.text.length, fileOffset: from });
+    };
+
+    for (const m of source.matchAll(INCLUDE_RE)) {
+      if (isCommented(source, m.index!)) continue;
+      const target = resolveInclude(m[1], m[2], rootDir, file);
+      const where = `${file}:${source.slice(0, m.index!).split("\n").length}`;
+      if (!fs.existsSync(target)) throw new Error(`Cannot find ${m[0]} (${where}): no such file ${target}`);
+      if (stack.includes(target)) throw new Error(`Circular ${m[0]} (${where})`);
+      if (project.sources[target] !== undefined) {
+        throw new Error(`${target} is included more than once (again at ${where}); run on its files separately`);
+      }
+
+      copy(m.index!);
+      const id = path.relative(rootDir, target);
+      project.includes[target] = m[0];
+      project.text += beginMarker(id);
+      visit(target, [...stack, target]);
+      project.text += endMarker(id);
+      from = m.index! + m[0].length;
+    }
+    copy(source.length);
+  };
+
+  visit(root, [root]);
+  return project;
+}
+
+// ============================================================================
+// Source Map
+// ============================================================================
+
+/**
+ * Where an offset in the assembled text comes from. Offsets inside a
+ * marker map to the end of the text before it.
+ */
+export function locateInProject(project: LatexProject, offset: number): SourceLocation {
+  let segment = project.segments[0];
+  for (const s of project.segments) {
+    if (s.start > offset) break;
+    segment = s;
+  }
+  if (!segment) return { file: project.root, line: 1, column: 1 };
+
+  const fileOffset = segment.fileOffset + Math.min(offset, segment.end) - segment.start;
+  const source = project.sources[segment.file];
+  const before = source.slice(0, fileOffset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return { file: segment.file, line: before.split("\n").length, column: fileOffset - lineStart + 1 };
+}
+
+/**
+ * The file and line range of the assembled text between `start` and `end`,
+ * in the file `start` comes from. Included files in between are skipped,
+ * so the range ends at the last line of that file in the span.
+ */
+export function locateRange(
+  project: LatexProject,
+  start: number,
+  end: number,
+): { file: string; lineStart: number; lineEnd: number } {
+  const first = locateInProject(project, start);
+  const last = project.segments
+    .filter((s) => s.file === first.file && s.start <= end && s.end > start)
+    .pop();
+  const lineEnd = last ? locateInProject(project, Math.min(end, last.end - 1)).line : first.line;
+  return { file: first.file, lineStart: first.line, lineEnd: Math.max(first.line, lineEnd) };
+}
+
+/** Offset of a 1-based line and column in `text`. */
+export function offsetOf(text: string, line: number, column = 1): number {
+  let offset = 0;
+  for (let l = 1; l < line; l++) {
+    const next = text.indexOf("\n", offset);
+    if (next < 0) return text.length;
+    offset = next + 1;
+  }
+  return offset + column - 1;
+}
+
+// ============================================================================
+// Write-Back
+// ============================================================================
+
+/**
+ * Split a rewrite of the assembled document back into per-file contents.
+ * Throws when the markers were dropped, duplicated, or reordered.
+ */
+export function splitProject(project: LatexProject, text: string): Record<string, string> {
+  const rootDir = path.dirname(project.root);
+  const files: Record<string, string> = {};
+  const stack: Array<{ file: string; parts: string[] }> = [{ file: project.root, parts: [] }];
+  let from = 0;
+
+  for (const m of text.matchAll(MARKER_RE)) {
+    const current = stack[stack.length - 1];
+    const file = path.join(rootDir, m[2]);
+    if (m[1] === "begin") {
+      if (project.includes[file] === undefined || files[file] !== undefined) {
+        throw new Error(`Unexpected file marker for ${m[2]} in the rewritten text`);
+      }
+      current.parts.push(text.slice(from, m.index!));
+      stack.push({ file, parts: [] });
+      from = m.index! + m[0].length + (text[m.index! + m[0].length] === "\n" ? 1 : 0);
+    } else {
+      if (current.file !== file || stack.length === 1) {
+        throw new Error(`File markers for ${m[2]} are out of order in the rewritten text`);
+      }
+      const body = text.slice(from, m.index!);
+      current.parts.push(body.endsWith("\n") ? body.slice(0, -1) : body);
+      files[file] = current.parts.join("");
+      stack.pop();
+      stack[stack.length - 1].parts.push(project.includes[file]);
+      from = m.index! + m[0].length;
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`File marker for the end of ${stack[stack.length - 1].file} is missing`);
+  stack[0].parts.push(text.slice(from));
+  files[project.root] = stack[0].parts.join("");
+
+  const missing = project.files.filter((f) => files[f] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`The rewrite lost the file markers for ${missing.join(", ")}; re-run to keep them`);
+  }
+  return files;
+}
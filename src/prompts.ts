@@ -16,6 +16,9 @@ export interface PromptTemplate {
   example: string;
 }
 
+/** Task parameters for a template, usually taken straight from CLI flags. */
+export type PromptFields = Record<string, string | undefined>;
+
 export const PROMPTS: Record<string, PromptTemplate> = {
   analyze: {
     name: "LLM Paper Judge",
@@ -340,3 +343,54 @@ Output format:
       'ai-research-writer review paper.tex --venue "ICML 2026" --strictness harsh',
   },
 };
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/** Fields that carry the user content itself rather than a task parameter. */
+const CONTENT_FIELDS = new Set(["text", "describe"]);
+
+/**
+ * Render a template's system prompt for the given task parameters.
+ *
+ * Required fields (other than the content itself) must be present and
+ * unknown fields are rejected. `{{field}}` placeholders are substituted;
+ * any remaining parameters are appended as a "Task parameters" block.
+ */
+export function renderPrompt(key: string, fields: PromptFields = {}): string {
+  const template = PROMPTS[key];
+  if (!template) {
+    throw new Error(`Unknown prompt template: ${key}. Available: ${Object.keys(PROMPTS).join(", ")}`);
+  }
+
+  const known = [...template.requiredFields, ...template.optionalFields];
+  const provided = Object.entries(fields).filter(
+    (entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== "",
+  );
+
+  const unknown = provided.map(([name]) => name).filter((name) => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Prompt "${key}" does not accept field(s): ${unknown.join(", ")}. Accepted: ${known.join(", ")}`);
+  }
+
+  const missing = template.requiredFields.filter(
+    (name) => !CONTENT_FIELDS.has(name) && !provided.some(([p]) => p === name),
+  );
+  if (missing.length > 0) {
+    throw new Error(`Prompt "${key}" is missing required field(s): ${missing.join(", ")}`);
+  }
+
+  let prompt = template.systemPrompt;
+  const extra: string[] = [];
+  for (const [name, value] of provided) {
+    const placeholder = `{{${name}}}`;
+    if (prompt.includes(placeholder)) {
+      prompt = prompt.split(placeholder).join(value);
+    } else {
+      extra.push(`- ${name}: ${value}`);
+    }
+  }
+
+  return extra.length > 0 ? `${prompt}\n\nTask parameters:\n${extra.join("\n")}` : prompt;
+}
@@ -1,323 +1,992 @@
 /**
  * BYOK LLM provider using raw fetch() — zero npm dependencies.
  *
- * Provider priority: Gemini -> OpenAI -> Anthropic
- * Set one of: GEMINI_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY
+ * Provider priority: mock -> OpenAI-compatible endpoint -> Gemini -> OpenAI -> Anthropic
+ * Set one of: GEMINI_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY,
+ * or OPENAI_COMPATIBLE_BASE_URL for a local / self-hosted server.
+ * AIRWRITER_MOCK (or --provider mock) selects the offline mock in mock.ts.
+ *
+ * Provider, model, temperature and max tokens can be pinned per call, or
+ * for a whole agent run (tool sub-calls included) with withLlmOptions().
+ *
+ * Each request has a timeout and is retried with exponential backoff on
+ * 429/5xx and network errors. When a provider still fails, the call fails
+ * over to the next configured provider and the switch is reported in
+ * LLMResponse.failovers. Token usage reported by the API is returned in
+ * LLMResponse.usage. With `onToken` set, replies are streamed (SSE).
+ *
+ * `tools` are sent through each API's native function calling (OpenAI
+ * `tools`, Anthropic `tool_use`, Gemini `functionDeclarations`); requested
+ * calls come back in LLMResponse.toolCalls.
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+import { estimateCost } from "./pricing";
+import { mockReply, recordResponse, MOCK_ENV, RECORD_ENV } from "./mock";
+import type { ModelPrice, TokenUsage } from "./pricing";
+
 export interface LLMResponse {
   text: string;
   provider: string;
   model: string;
+  /** Providers that failed before this one answered, in the order tried. */
+  failovers?: ProviderFailover[];
+  /** Token counts reported by the provider, when it reports them. */
+  usage?: TokenUsage;
+  /** Estimated cost in USD, when usage and a price for the model are known. */
+  cost?: number;
+  /** Native tool calls the model requested, when `tools` were offered. */
+  toolCalls?: ToolCall[];
 }
 
+export interface ProviderFailover {
+  provider: string;
+  model: string;
+  error: string;
+}
 
 export interface ChatMessage {
+  /** "user", "assistant", or "tool" for the result of a native tool call. */
   role: string;
   content: string;
+  /** Native tool calls made in this assistant turn. */
+  toolCalls?: ToolCall[];
+  /** For role "tool": the call this message answers. */
+  toolCallId?: string;
+  /** For role "tool": the name of the tool that ran. */
+  name?: string;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** Opaque data the provider needs back with the call (Gemini thought signatures). */
+  signature?: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool's arguments object. */
+  inputSchema: Record<string, unknown>;
+}
+
+export interface LlmOptions {
+  /** Use this provider instead of the first one with an API key. */
+  provider?: string;
+  /** Model for the selected provider. */
+  model?: string;
+  /** Default model per provider name, used when `model` is not set. */
+  models?: Record<string, string>;
+  temperature?: number;
+  maxTokens?: number;
+  /** Endpoint for the "openai-compatible" provider, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  /** Retries per request on 429, 5xx and network errors. Default 2. */
+  retries?: number;
+  /** Per-request timeout in milliseconds. Default 120000. */
+  timeoutMs?: number;
+  /** First backoff delay in milliseconds; doubles on each retry. Default 1000. */
+  retryDelayMs?: number;
+  /**
+   * Providers to fail over to, in order. Defaults to every other configured
+   * provider, or none when `provider` is pinned or the primary is the
+   * self-hosted endpoint. An empty list disables failover.
+   */
+  fallback?: string[];
+  /** Spending cap in USD for one agent run; enforced by runAgent. */
+  budget?: number;
+  /** Price overrides (USD per million tokens) keyed by model name or prefix. */
+  prices?: Record<string, ModelPrice>;
+  /** Stream the reply, passing each text delta to this callback as it arrives. */
+  onToken?: (delta: string) => void;
+  /**
+   * Called when a streamed reply fails partway and the call fails over:
+   * the deltas already passed to `onToken` are void, and the next
+   * provider's reply streams from its start.
+   */
+  onStreamReset?: (failover: ProviderFailover) => void;
+  /** Tools the model may call natively for this request. */
+  tools?: ToolDefinition[];
+  /** "none" keeps `tools` declared but forbids calling them. */
+  toolChoice?: "auto" | "none";
+  /**
+   * Whether runAgent uses native tool calling. Defaults to true for the
+   * cloud providers and false for "openai-compatible", where support
+   * depends on the server and model.
+   */
+  nativeTools?: boolean;
 }
+
+interface CallSettings {
+  apiKey?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string;
+  retries: number;
+  timeoutMs: number;
+  retryDelayMs: number;
+  onToken?: (delta: string) => void;
+  tools?: ToolDefinition[];
+  toolChoice?: "auto" | "none";
+}
+
 interface ProviderConfig {
   name: string;
   model: string;
   envKey: string;
   altEnvKey?: string;
-  call: (apiKey: string, systemPrompt: string, userText: string) => Promise<string>;
-  callMultiTurn: (apiKey: string, systemPrompt: string, messages: ChatMessage[]) => Promise<string>;
+  /**
+   * Env var holding the endpoint. Providers with one are available whenever
+   * an endpoint is configured; the API key becomes optional.
+   */
+  baseUrlEnvKey?: string;
+  /** Env var holding the model, for providers with no sensible default. */
+  modelEnvKey?: string;
+  /** Native tool calling works out of the box. */
+  supportsTools: boolean;
+  /** Needs no key or endpoint, so it can always be pinned. */
+  offline?: boolean;
+  call: (settings: CallSettings, systemPrompt: string, messages: ChatMessage[]) => Promise<ProviderReply>;
+}
+
+interface ProviderReply {
+  text: string;
+  usage?: TokenUsage;
+  toolCalls?: ToolCall[];
 }
 
+const DEFAULT_TEMPERATURE = 0.3;
+const DEFAULT_MAX_TOKENS = 4096;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+/** Longest wait before a retry; a longer Retry-After fails over instead. */
+const MAX_RETRY_DELAY_MS = 30_000;
+
 // ---------------------------------------------------------------------------
-// Gemini (Google Generative AI)
+// HTTP (timeout + retry with backoff)
 // ---------------------------------------------------------------------------
 
-async function callGemini(
-  apiKey: string,
-  systemPrompt: string,
-  userText: string,
-): Promise<string> {
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent?key=${apiKey}`;
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
 
-  const body = {
-    system_instruction: {
-      parts: [{ text: systemPrompt }],
-    },
-    contents: [
-      {
-        role: "user",
-        parts: [{ text: userText }],
-      },
-    ],
-    generationConfig: {
-      maxOutputTokens: 4096,
-      temperature: 0.3,
-    },
-  };
+/** Retry-After in milliseconds (delta-seconds or HTTP date), or null. */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
+/** Exponential backoff with jitter: base * 2^attempt, plus up to one base. */
+function backoffDelay(baseMs: number, attempt: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, baseMs * 2 ** attempt + Math.random() * baseMs);
+}
 
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`Gemini API error (${res.status}): ${err}`);
-  }
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * POST a JSON body and hand a successful response to `read`. The timeout is
+ * an idle timeout: `read` calls `keepAlive` whenever data arrives. 408/429/5xx
+ * responses and network errors are retried up to `settings.retries` times,
+ * but never once `read` has started.
+ */
+async function post<T>(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  settings: CallSettings,
+  read: (res: Response, keepAlive: () => void) => Promise<T>,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+    };
+    const timedOut = () => new Error(`${label} request timed out after ${settings.timeoutMs}ms`);
+    keepAlive();
 
-  const data = await res.json();
-  const candidate = data?.candidates?.[0];
-  if (!candidate?.content?.parts?.[0]?.text) {
-    throw new Error(`Gemini returned no content: ${JSON.stringify(data)}`);
+    let res: Response;
+    let errorBody = "";
+    try {
+      res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (!res.ok) errorBody = await res.text();
+    } catch (err: any) {
+      clearTimeout(timer);
+      const error = controller.signal.aborted
+        ? timedOut()
+        : new Error(`${label} request failed: ${err.cause?.message ?? err.message}`);
+      if (attempt >= settings.retries) throw error;
+      await sleep(backoffDelay(settings.retryDelayMs, attempt));
+      continue;
+    }
+
+    if (res.ok) {
+      try {
+        return await read(res, keepAlive);
+      } catch (err) {
+        throw controller.signal.aborted ? timedOut() : err;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+    clearTimeout(timer);
+
+    const error = new Error(`${label} error (${res.status}): ${errorBody}`);
+    if (!isRetryableStatus(res.status) || attempt >= settings.retries) throw error;
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+    if (retryAfter !== null && retryAfter > MAX_RETRY_DELAY_MS) throw error;
+    await sleep(retryAfter ?? backoffDelay(settings.retryDelayMs, attempt));
   }
+}
 
-  return candidate.content.parts[0].text;
+/** POST and parse the JSON response; callers narrow it with `asResponse`. */
+function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  settings: CallSettings,
+): Promise<unknown> {
+  return post(url, headers, body, label, settings, async (res) => {
+    const raw = await res.text();
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new Error(`${label} returned invalid JSON: ${raw.slice(0, 200)}`);
+    }
+  });
+}
+
+/**
+ * View parsed JSON as a provider's response shape. The shapes have only
+ * optional fields, checked where they are read; anything but an object
+ * reads as an empty response.
+ */
+function asResponse<T extends object>(data: unknown): T {
+  return (typeof data === "object" && data !== null ? data : {}) as T;
 }
 
+/**
+ * POST and read a server-sent event stream, passing each event's parsed
+ * data to `onEvent`, which narrows it with `asResponse`.
+ */
+function postStream(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  settings: CallSettings,
+  onEvent: (data: unknown) => void,
+): Promise<void> {
+  return post(url, headers, body, label, settings, async (res, keepAlive) => {
+    if (!res.body) throw new Error(`${label} returned no stream`);
+    const dispatch = (block: string) => {
+      const data = block
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).replace(/^ /, ""))
+        .join("\n");
+      if (!data || data === "[DONE]") return;
+      let event: unknown;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        throw new Error(`${label} sent invalid stream data: ${data.slice(0, 200)}`);
+      }
+      onEvent(event);
+    };
 
-async function callGeminiMultiTurn(
-  apiKey: string,
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      keepAlive();
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? "";
+      blocks.forEach(dispatch);
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) dispatch(buffer);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Gemini (Google Generative AI)
+// ---------------------------------------------------------------------------
+
+/** The parts of a Gemini response (or stream chunk) read here. */
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] } }>;
+  usageMetadata?: GeminiUsage;
+}
+
+interface GeminiPart {
+  text?: string;
+  /** Set on thought summaries, which are not part of the answer. */
+  thought?: boolean;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  thoughtSignature?: string;
+}
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
+// Gemini function calls carry no ids; number them so results can be matched.
+let geminiCallSeq = 0;
+
+/** Gemini wants alternating user/model turns; tool results travel as user parts. */
+function toGeminiContents(messages: ChatMessage[]): Array<{ role: string; parts: unknown[] }> {
+  const contents: Array<{ role: string; parts: unknown[] }> = [];
+  for (const msg of messages) {
+    const role = msg.role === "assistant" ? "model" : "user";
+    const parts = msg.role === "tool"
+      ? [{ functionResponse: { name: msg.name, response: { content: msg.content } } }]
+      : [
+          ...(msg.content || !msg.toolCalls?.length ? [{ text: msg.content }] : []),
+          ...(msg.toolCalls ?? []).map((call) => ({
+            functionCall: { name: call.name, args: call.arguments },
+            ...(call.signature ? { thoughtSignature: call.signature } : {}),
+          })),
+        ];
+    const prev = contents[contents.length - 1];
+    if (prev?.role === role) prev.parts.push(...parts);
+    else contents.push({ role, parts });
+  }
+  return contents;
+}
+
+/** Collect text and function calls from response parts, skipping thought summaries. */
+function readGeminiParts(parts: GeminiPart[], reply: { text: string; toolCalls: ToolCall[] }): string {
+  let delta = "";
+  for (const part of parts) {
+    if (part.functionCall) {
+      reply.toolCalls.push({
+        id: `gemini-call-${++geminiCallSeq}`,
+        name: part.functionCall.name,
+        arguments: part.functionCall.args ?? {},
+        ...(part.thoughtSignature ? { signature: part.thoughtSignature } : {}),
+      });
+    } else if (part.text && !part.thought) {
+      delta += part.text;
+    }
+  }
+  reply.text += delta;
+  return delta;
+}
+
+async function callGemini(
+  settings: CallSettings,
   systemPrompt: string,
   messages: ChatMessage[],
-): Promise<string> {
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent?key=${apiKey}`;
-
-  const contents = messages.map((msg) => ({
-    role: msg.role === "assistant" ? "model" : "user",
-    parts: [{ text: msg.content }],
-  }));
+): Promise<ProviderReply> {
+  const base = `https://generativelanguage.googleapis.com/v1beta/models/${settings.model}`;
 
   const body = {
     system_instruction: {
       parts: [{ text: systemPrompt }],
     },
-    contents,
+    contents: toGeminiContents(messages),
     generationConfig: {
-      maxOutputTokens: 4096,
-      temperature: 0.3,
+      maxOutputTokens: settings.maxTokens,
+      temperature: settings.temperature,
     },
+    ...(settings.tools?.length
+      ? {
+          tools: [{
+            functionDeclarations: settings.tools.map((t) => ({
+              name: t.name,
+              description: t.description,
+              parameters: t.inputSchema,
+            })),
+          }],
+          toolConfig: { functionCallingConfig: { mode: settings.toolChoice === "none" ? "NONE" : "AUTO" } },
+        }
+      : {}),
   };
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
-
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`Gemini API error (${res.status}): ${err}`);
+  const reply = { text: "", toolCalls: [] as ToolCall[] };
+  let meta: GeminiUsage | undefined;
+  if (settings.onToken) {
+    const url = `${base}:streamGenerateContent?alt=sse&key=${settings.apiKey}`;
+    await postStream(url, {}, body, "Gemini API", settings, (data) => {
+      const event = asResponse<GeminiResponse>(data);
+      const delta = readGeminiParts(event.candidates?.[0]?.content?.parts ?? [], reply);
+      if (delta) settings.onToken!(delta);
+      // Every chunk carries the running totals; keep the last.
+      if (event.usageMetadata) meta = event.usageMetadata;
+    });
+  } else {
+    const url = `${base}:generateContent?key=${settings.apiKey}`;
+    const data = asResponse<GeminiResponse>(await postJson(url, {}, body, "Gemini API", settings));
+    readGeminiParts(data.candidates?.[0]?.content?.parts ?? [], reply);
+    if (!reply.text && reply.toolCalls.length === 0) {
+      throw new Error(`Gemini returned no content: ${JSON.stringify(data)}`);
+    }
+    meta = data.usageMetadata;
   }
+  if (!reply.text && reply.toolCalls.length === 0) throw new Error("Gemini returned no content");
 
-  const data = await res.json();
-  const candidate = data?.candidates?.[0];
-  if (!candidate?.content?.parts?.[0]?.text) {
-    throw new Error(`Gemini returned no content: ${JSON.stringify(data)}`);
-  }
+  return { ...withToolCalls(reply), usage: geminiUsage(meta) };
+}
 
-  return candidate.content.parts[0].text;
+function geminiUsage(meta: GeminiUsage | undefined): TokenUsage | undefined {
+  if (!meta) return undefined;
+  return {
+    inputTokens: meta.promptTokenCount ?? 0,
+    // Thinking tokens are billed as output.
+    outputTokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+  };
 }
 
 // ---------------------------------------------------------------------------
-// OpenAI
+// OpenAI (and OpenAI-compatible servers: Ollama, vLLM, llama.cpp, gateways)
 // ---------------------------------------------------------------------------
 
-async function callOpenAI(
-  apiKey: string,
-  systemPrompt: string,
-  userText: string,
-): Promise<string> {
-  const url = "https://api.openai.com/v1/chat/completions";
-
-  const body = {
-    model: "gpt-5",
-    max_tokens: 4096,
-    temperature: 0.3,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userText },
-    ],
-  };
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`OpenAI API error (${res.status}): ${err}`);
-  }
+/** The parts of an OpenAI chat completion (or stream chunk) read here. */
+interface OpenAIResponse {
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    delta?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+  }>;
+  usage?: OpenAIUsage | null;
+}
 
-  const data = await res.json();
-  const content = data?.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error(`OpenAI returned no content: ${JSON.stringify(data)}`);
-  }
+/** A tool call, or in a stream a fragment of one keyed by `index`. */
+interface OpenAIToolCall {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
 
-  return content;
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
 }
 
+function toOpenAIMessages(systemPrompt: string, messages: ChatMessage[]): unknown[] {
+  return [
+    { role: "system", content: systemPrompt },
+    ...messages.map((msg) => {
+      if (msg.role === "tool") {
+        return { role: "tool", tool_call_id: msg.toolCallId, content: msg.content };
+      }
+      if (msg.toolCalls?.length) {
+        return {
+          role: "assistant",
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        };
+      }
+      return { role: msg.role, content: msg.content };
+    }),
+  ];
+}
 
-async function callOpenAIMultiTurn(
-  apiKey: string,
+async function callOpenAI(
+  settings: CallSettings,
   systemPrompt: string,
   messages: ChatMessage[],
-): Promise<string> {
-  const url = "https://api.openai.com/v1/chat/completions";
-
-  const apiMessages = [
-    { role: "system", content: systemPrompt },
-    ...messages.map((msg) => ({ role: msg.role, content: msg.content })),
-  ];
+): Promise<ProviderReply> {
+  const baseUrl = (settings.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+  const url = `${baseUrl}/chat/completions`;
+  const label = settings.baseUrl ? `OpenAI-compatible endpoint ${baseUrl}` : "OpenAI API";
 
   const body = {
-    model: "gpt-5",
-    max_tokens: 4096,
-    temperature: 0.3,
-    messages: apiMessages,
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    temperature: settings.temperature,
+    messages: toOpenAIMessages(systemPrompt, messages),
+    ...(settings.tools?.length
+      ? {
+          tools: settings.tools.map((t) => ({
+            type: "function",
+            function: { name: t.name, description: t.description, parameters: t.inputSchema },
+          })),
+          ...(settings.toolChoice ? { tool_choice: settings.toolChoice } : {}),
+        }
+      : {}),
   };
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-  });
+  const headers: Record<string, string> = {};
+  if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
 
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`OpenAI API error (${res.status}): ${err}`);
+  if (settings.onToken) {
+    // stream_options is OpenAI's; some compatible servers reject unknown fields.
+    const streamBody = {
+      ...body,
+      stream: true,
+      ...(settings.baseUrl ? {} : { stream_options: { include_usage: true } }),
+    };
+    let text = "";
+    let usage: TokenUsage | undefined;
+    // Tool calls arrive as fragments keyed by index; arguments are split JSON.
+    const calls: Array<{ id: string; name: string; args: string }> = [];
+    await postStream(url, headers, streamBody, label, settings, (data) => {
+      const event = asResponse<OpenAIResponse>(data);
+      const delta = event.choices?.[0]?.delta;
+      if (delta?.content) {
+        text += delta.content;
+        settings.onToken!(delta.content);
+      }
+      for (const fragment of delta?.tool_calls ?? []) {
+        const call = (calls[fragment.index ?? 0] ??= { id: "", name: "", args: "" });
+        if (fragment.id) call.id = fragment.id;
+        call.name += fragment.function?.name ?? "";
+        call.args += fragment.function?.arguments ?? "";
+      }
+      if (event.usage) usage = openAIUsage(event.usage);
+    });
+    const toolCalls = calls.filter(Boolean).map((c) => ({ id: c.id, name: c.name, arguments: parseToolArguments(c.args) }));
+    if (!text && toolCalls.length === 0) throw new Error(`${label} returned no content`);
+    return { ...withToolCalls({ text, toolCalls }), usage };
   }
 
-  const data = await res.json();
-  const content = data?.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error(`OpenAI returned no content: ${JSON.stringify(data)}`);
+  const data = asResponse<OpenAIResponse>(await postJson(url, headers, body, label, settings));
+  const message = data.choices?.[0]?.message;
+  const toolCalls: ToolCall[] = (message?.tool_calls ?? []).map((c) => ({
+    id: c.id ?? "",
+    name: c.function?.name ?? "",
+    arguments: parseToolArguments(c.function?.arguments),
+  }));
+  if (!message?.content && toolCalls.length === 0) {
+    throw new Error(`${label} returned no content: ${JSON.stringify(data)}`);
   }
 
-  return content;
+  return { ...withToolCalls({ text: message?.content ?? "", toolCalls }), usage: openAIUsage(data.usage) };
+}
+
+function openAIUsage(usage: OpenAIUsage | null | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
 }
 
 // ---------------------------------------------------------------------------
 // Anthropic
 // ---------------------------------------------------------------------------
 
+/** The parts of an Anthropic message read here. */
+interface AnthropicResponse {
+  content?: AnthropicBlock[];
+  usage?: AnthropicUsage;
+}
+
+/** A streamed Anthropic event; which fields are set depends on `type`. */
+interface AnthropicStreamEvent {
+  type?: string;
+  index?: number;
+  message?: { usage?: AnthropicUsage };
+  content_block?: AnthropicBlock;
+  delta?: { type?: string; text?: string; partial_json?: string };
+  usage?: AnthropicUsage;
+  error?: unknown;
+}
+
+interface AnthropicBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/** Anthropic wants alternating turns; tool results are user-side content blocks. */
+function toAnthropicMessages(messages: ChatMessage[]): Array<{ role: string; content: unknown[] }> {
+  const out: Array<{ role: string; content: unknown[] }> = [];
+  for (const msg of messages) {
+    const role = msg.role === "assistant" ? "assistant" : "user";
+    const blocks = msg.role === "tool"
+      ? [{ type: "tool_result", tool_use_id: msg.toolCallId, content: msg.content }]
+      : [
+          ...(msg.content || !msg.toolCalls?.length ? [{ type: "text", text: msg.content }] : []),
+          ...(msg.toolCalls ?? []).map((call) => ({ type: "tool_use", id: call.id, name: call.name, input: call.arguments })),
+        ];
+    const prev = out[out.length - 1];
+    if (prev?.role === role) prev.content.push(...blocks);
+    else out.push({ role, content: blocks });
+  }
+  return out;
+}
+
 async function callAnthropic(
-  apiKey: string,
+  settings: CallSettings,
   systemPrompt: string,
-  userText: string,
-): Promise<string> {
+  messages: ChatMessage[],
+): Promise<ProviderReply> {
   const url = "https://api.anthropic.com/v1/messages";
 
   const body = {
-    model: "claude-sonnet-4-5-20250929",
-    max_tokens: 4096,
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    temperature: settings.temperature,
     system: systemPrompt,
-    messages: [{ role: "user", content: userText }],
+    messages: toAnthropicMessages(messages),
+    ...(settings.tools?.length
+      ? {
+          tools: settings.tools.map((t) => ({ name: t.name, description: t.description, input_schema: t.inputSchema })),
+          ...(settings.toolChoice ? { tool_choice: { type: settings.toolChoice } } : {}),
+        }
+      : {}),
   };
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify(body),
-  });
+  const headers = {
+    "x-api-key": settings.apiKey ?? "",
+    "anthropic-version": "2023-06-01",
+  };
 
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`Anthropic API error (${res.status}): ${err}`);
+  if (settings.onToken) {
+    let text = "";
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const calls: Array<{ id: string; name: string; json: string }> = [];
+    await postStream(url, headers, { ...body, stream: true }, "Anthropic API", settings, (data) => {
+      const event = asResponse<AnthropicStreamEvent>(data);
+      const index = event.index ?? 0;
+      if (event.type === "message_start") {
+        usage.inputTokens = event.message?.usage?.input_tokens ?? 0;
+      } else if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+        calls[index] = { id: event.content_block.id ?? "", name: event.content_block.name ?? "", json: "" };
+      } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        const delta = event.delta.text ?? "";
+        text += delta;
+        settings.onToken!(delta);
+      } else if (event.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+        if (calls[index]) calls[index].json += event.delta.partial_json ?? "";
+      } else if (event.type === "message_delta") {
+        usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+      } else if (event.type === "error") {
+        throw new Error(`Anthropic API stream error: ${JSON.stringify(event.error)}`);
+      }
+    });
+    const toolCalls = calls.filter(Boolean).map((c) => ({ id: c.id, name: c.name, arguments: parseToolArguments(c.json || "{}") }));
+    if (!text && toolCalls.length === 0) throw new Error("Anthropic returned no content");
+    return { ...withToolCalls({ text, toolCalls }), usage };
   }
 
-  const data = await res.json();
-  const block = data?.content?.[0];
-  if (!block?.text) {
+  const data = asResponse<AnthropicResponse>(await postJson(url, headers, body, "Anthropic API", settings));
+  const blocks = data.content ?? [];
+  const text = blocks.filter((b) => b.type === "text").map((b) => b.text ?? "").join("");
+  const toolCalls: ToolCall[] = blocks
+    .filter((b) => b.type === "tool_use")
+    .map((b) => ({ id: b.id ?? "", name: b.name ?? "", arguments: b.input ?? {} }));
+  if (!text && toolCalls.length === 0) {
     throw new Error(`Anthropic returned no content: ${JSON.stringify(data)}`);
   }
 
-  return block.text;
+  return {
+    ...withToolCalls({ text, toolCalls }),
+    usage: data.usage && {
+      inputTokens: data.usage.input_tokens ?? 0,
+      outputTokens: data.usage.output_tokens ?? 0,
+    },
+  };
 }
 
+// ---------------------------------------------------------------------------
+// Mock (offline; see mock.ts)
+// ---------------------------------------------------------------------------
 
-async function callAnthropicMultiTurn(
-  apiKey: string,
+async function callMock(
+  settings: CallSettings,
   systemPrompt: string,
   messages: ChatMessage[],
-): Promise<string> {
-  const url = "https://api.anthropic.com/v1/messages";
-
-  const apiMessages = messages.map((msg) => ({
-    role: msg.role as "user" | "assistant",
-    content: msg.content,
-  }));
-
-  const body = {
-    model: "claude-sonnet-4-5-20250929",
-    max_tokens: 4096,
-    system: systemPrompt,
-    messages: apiMessages,
-  };
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify(body),
-  });
+): Promise<ProviderReply> {
+  const reply = mockReply(
+    { systemPrompt, messages, tools: settings.tools, toolChoice: settings.toolChoice },
+    process.env[MOCK_ENV] || "echo",
+  );
+  if (reply.text) settings.onToken?.(reply.text);
+  return reply;
+}
 
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`Anthropic API error (${res.status}): ${err}`);
-  }
+// ---------------------------------------------------------------------------
+// Tool Call Helpers
+// ---------------------------------------------------------------------------
 
-  const data = await res.json();
-  const block = data?.content?.[0];
-  if (!block?.text) {
-    throw new Error(`Anthropic returned no content: ${JSON.stringify(data)}`);
+/** Tool arguments arrive as JSON text; keep unparseable text as `input`. */
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : { input: parsed };
+  } catch {
+    return { input: raw };
   }
+}
 
-  return block.text;
+/** Drop an empty toolCalls list so text-only replies look as before. */
+function withToolCalls(reply: { text: string; toolCalls: ToolCall[] }): ProviderReply {
+  return reply.toolCalls.length > 0 ? reply : { text: reply.text };
 }
 
 // ---------------------------------------------------------------------------
-// Provider Registry (Gemini -> OpenAI -> Anthropic)
+// Provider Registry (OpenAI-compatible -> Gemini -> OpenAI -> Anthropic)
 // ---------------------------------------------------------------------------
 
+// AIRWRITER_MOCK only appears in tests and demos, so it wins outright. A
+// configured self-hosted endpoint comes next: setting one is an explicit
+// choice, and manuscripts routed there must not silently go to a cloud API.
 const PROVIDERS: ProviderConfig[] = [
+  {
+    name: "mock",
+    model: "mock",
+    envKey: MOCK_ENV,
+    supportsTools: true,
+    offline: true,
+    call: callMock,
+  },
+  {
+    name: "openai-compatible",
+    model: "",
+    envKey: "OPENAI_COMPATIBLE_API_KEY",
+    baseUrlEnvKey: "OPENAI_COMPATIBLE_BASE_URL",
+    modelEnvKey: "OPENAI_COMPATIBLE_MODEL",
+    supportsTools: false,
+    call: callOpenAI,
+  },
   {
     name: "gemini",
     model: "gemini-3-flash-preview",
     envKey: "GEMINI_API_KEY",
     altEnvKey: "GOOGLE_AI_API_KEY",
+    supportsTools: true,
     call: callGemini,
-    callMultiTurn: callGeminiMultiTurn,
   },
   {
     name: "openai",
     model: "gpt-5",
     envKey: "OPENAI_API_KEY",
+    supportsTools: true,
     call: callOpenAI,
-    callMultiTurn: callOpenAIMultiTurn,
   },
   {
     name: "anthropic",
     model: "claude-sonnet-4-5-20250929",
     envKey: "ANTHROPIC_API_KEY",
+    supportsTools: true,
     call: callAnthropic,
-    callMultiTurn: callAnthropicMultiTurn,
   },
 ];
 
+/** Names of all registered providers, in priority order. */
+export const PROVIDER_NAMES = PROVIDERS.map((p) => p.name);
+
+// ---------------------------------------------------------------------------
+// Option Scoping + Resolution
+// ---------------------------------------------------------------------------
+
+const llmScope = new AsyncLocalStorage<LlmOptions>();
+const observerScope = new AsyncLocalStorage<LlmCallObserver[]>();
+
+/** A request about to be sent to one provider. */
+export interface LlmCallRequest {
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  messages: ChatMessage[];
+  /** Effective options for the call, after scoping. */
+  options: LlmOptions;
+}
+
+/** Hooks for every LLM call made inside observeLlmCalls(). */
+export interface LlmCallObserver {
+  /** Called before each provider attempt; throwing cancels the call. */
+  onRequest?: (request: LlmCallRequest) => void;
+  /** Called with every successful response. */
+  onResponse?: (response: LLMResponse) => void;
+}
+
+/**
+ * Merge option layers left to right, ignoring undefined values. A layer that
+ * switches provider without naming a model drops the lower layer's model,
+ * since a model name only makes sense for the provider it was chosen for.
+ */
+export function mergeLlmOptions(...layers: Array<LlmOptions | undefined>): LlmOptions {
+  const merged: LlmOptions = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.provider !== undefined && layer.provider !== merged.provider && layer.model === undefined) {
+      delete merged.model;
+    }
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+      if (key === "models") {
+        merged.models = { ...merged.models, ...(value as Record<string, string>) };
+      } else if (key === "prices") {
+        merged.prices = { ...merged.prices, ...(value as Record<string, ModelPrice>) };
+      } else {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Run `fn` with default LLM options for every callLlm / callLlmMultiTurn
+ * made inside it, including calls made by agent tools. Scopes nest.
+ */
+export function withLlmOptions<T>(options: LlmOptions, fn: () => Promise<T>): Promise<T> {
+  return llmScope.run(mergeLlmOptions(llmScope.getStore(), options), fn);
+}
+
+/**
+ * Run `fn` and report every LLM response made inside it (agent tool calls
+ * included) to `observer`. Scopes nest; outer observers still see calls.
+ */
+export function observeLlmCalls<T>(observer: LlmCallObserver, fn: () => Promise<T>): Promise<T> {
+  return observerScope.run([...(observerScope.getStore() ?? []), observer], fn);
+}
+
+function getApiKey(p: ProviderConfig): string | undefined {
+  return process.env[p.envKey] || (p.altEnvKey ? process.env[p.altEnvKey] : undefined);
+}
+
+function getBaseUrl(p: ProviderConfig, options: LlmOptions): string | undefined {
+  if (!p.baseUrlEnvKey) return undefined;
+  return options.baseUrl || process.env[p.baseUrlEnvKey] || undefined;
+}
+
+function supportsTools(p: ProviderConfig, options: LlmOptions): boolean {
+  return options.nativeTools ?? p.supportsTools;
+}
+
+function isConfigured(p: ProviderConfig, options: LlmOptions): boolean {
+  return p.baseUrlEnvKey ? Boolean(getBaseUrl(p, options)) : Boolean(getApiKey(p));
+}
+
+interface Selection {
+  provider: ProviderConfig;
+  settings: CallSettings;
+}
+
+function findProvider(name: string, what = "provider"): ProviderConfig {
+  const provider = PROVIDERS.find((p) => p.name === name);
+  if (!provider) {
+    throw new Error(`Unknown ${what}: ${name}. Available: ${PROVIDER_NAMES.join(", ")}`);
+  }
+  return provider;
+}
+
+function buildSettings(provider: ProviderConfig, model: string, options: LlmOptions): CallSettings {
+  return {
+    apiKey: getApiKey(provider),
+    model,
+    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+    baseUrl: getBaseUrl(provider, options),
+    retries: options.retries ?? DEFAULT_RETRIES,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    retryDelayMs: options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+    onToken: options.onToken,
+    tools: options.tools,
+    toolChoice: options.toolChoice,
+  };
+}
+
+/** Model configured for a provider, ignoring the primary-only `model` option. */
+function configuredModel(provider: ProviderConfig, options: LlmOptions): string {
+  return options.models?.[provider.name]
+    ?? (provider.modelEnvKey ? process.env[provider.modelEnvKey] : undefined)
+    ?? provider.model;
+}
+
+/**
+ * Pick the provider for a call: the pinned one if `provider` is set (its key
+ * must be configured), otherwise the first provider with a key.
+ */
+function selectProvider(options: LlmOptions): Selection | null {
+  let provider: ProviderConfig | undefined;
+  if (options.provider) {
+    provider = findProvider(options.provider);
+    if (!provider.offline && !isConfigured(provider, options)) {
+      const missing = provider.baseUrlEnvKey
+        ? `${provider.baseUrlEnvKey} (or --base-url)`
+        : provider.envKey;
+      throw new Error(`Provider "${provider.name}" is selected but ${missing} is not set.`);
+    }
+  } else {
+    provider = PROVIDERS.find((p) => isConfigured(p, options));
+    if (!provider) return null;
+  }
+
+  const model = options.model ?? configuredModel(provider, options);
+  if (!model) {
+    throw new Error(
+      `Provider "${provider.name}" needs a model: pass --model, set ${provider.modelEnvKey}, ` +
+        `or add "models": { "${provider.name}": "<model>" } to the config file.`,
+    );
+  }
+
+  return { provider, settings: buildSettings(provider, model, options) };
+}
+
+/**
+ * The selected provider followed by its fallbacks. Fallbacks that are not
+ * configured, have no model, or cannot take the request's native tools are
+ * skipped. A self-hosted or offline primary never falls back to a cloud
+ * API unless `fallback` asks for it.
+ */
+function providerChain(options: LlmOptions): Selection[] {
+  const primary = selectProvider(options);
+  if (!primary) return [];
+
+  const names = options.fallback
+    ?? (options.provider || primary.provider.baseUrlEnvKey || primary.provider.offline ? [] : PROVIDER_NAMES);
+  const chain = [primary];
+  for (const name of names) {
+    const provider = findProvider(name, "fallback provider");
+    if (chain.some((s) => s.provider === provider) || !isConfigured(provider, options)) continue;
+    if (options.tools?.length && !supportsTools(provider, options)) continue;
+    const model = configuredModel(provider, options);
+    if (model) chain.push({ provider, settings: buildSettings(provider, model, options) });
+  }
+  return chain;
+}
+
+const NO_PROVIDER_MESSAGE =
+  `No LLM provider available. Set one of these environment variables:\n` +
+  `  GEMINI_API_KEY     (uses gemini-3-flash-preview) - free tier available\n` +
+  `  OPENAI_API_KEY     (uses gpt-5)\n` +
+  `  ANTHROPIC_API_KEY  (uses claude-sonnet-4-5-20250929)\n` +
+  `  GOOGLE_AI_API_KEY  (alias for Gemini)\n` +
+  `  OPENAI_COMPATIBLE_BASE_URL  (Ollama, vLLM, llama.cpp server, internal gateway;\n` +
+  `                               with OPENAI_COMPATIBLE_MODEL, optional OPENAI_COMPATIBLE_API_KEY)\n` +
+  `  AIRWRITER_MOCK=echo          (offline mock for tests and demos, or a fixture path)\n\n` +
+  `Get a free API key:\n` +
+  `  Gemini:    https://aistudio.google.com/apikey\n` +
+  `  OpenAI:    https://platform.openai.com/api-keys\n` +
+  `  Anthropic: https://console.anthropic.com/`;
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -326,90 +995,109 @@ const PROVIDERS: ProviderConfig[] = [
  * Detect which provider name would be used, without making any API calls.
  * Returns null if no API key is configured.
  */
-export function detectProviderName(): string | null {
-  for (const p of PROVIDERS) {
-    const key = process.env[p.envKey] || (p.altEnvKey ? process.env[p.altEnvKey] : undefined);
-    if (key) return p.name;
-  }
-  return null;
+export function detectProviderName(options: LlmOptions = {}): string | null {
+  return detectSelection(options)?.provider.name ?? null;
 }
 
 /**
  * Detect the model that would be used.
  */
-export function detectProviderModel(): string | null {
-  for (const p of PROVIDERS) {
-    const key = process.env[p.envKey] || (p.altEnvKey ? process.env[p.altEnvKey] : undefined);
-    if (key) return p.model;
+export function detectProviderModel(options: LlmOptions = {}): string | null {
+  return detectSelection(options)?.settings.model ?? null;
+}
+
+/**
+ * Whether the provider that would be used supports native tool calling
+ * (see LlmOptions.nativeTools). False when no provider is configured.
+ */
+export function supportsNativeTools(options: LlmOptions = {}): boolean {
+  const merged = mergeLlmOptions(llmScope.getStore(), options);
+  const selected = detectSelection(merged);
+  return selected ? supportsTools(selected.provider, merged) : false;
+}
+
+/** Like selectProvider, but a pinned provider without a key reads as "none". */
+function detectSelection(options: LlmOptions): Selection | null {
+  try {
+    return selectProvider(mergeLlmOptions(llmScope.getStore(), options));
+  } catch {
+    return null;
   }
-  return null;
 }
 
 /**
- * Call the first available LLM provider with the given prompts.
+ * Call the selected LLM provider with the given prompts.
  * Throws if no provider is configured.
  */
 export async function callLlm(
   systemPrompt: string,
   userText: string,
+  options: LlmOptions = {},
 ): Promise<LLMResponse> {
-  for (const p of PROVIDERS) {
-    const apiKey = process.env[p.envKey] || (p.altEnvKey ? process.env[p.altEnvKey] : undefined);
-    if (!apiKey) continue;
-
-    const text = await p.call(apiKey, systemPrompt, userText);
-    return { text, provider: p.name, model: p.model };
-  }
-
-  throw new Error(
-    `No LLM provider available. Set one of these environment variables:\n` +
-      `  GEMINI_API_KEY     (uses gemini-3-flash-preview) - free tier available\n` +
-      `  OPENAI_API_KEY     (uses gpt-5)\n` +
-      `  ANTHROPIC_API_KEY  (uses claude-sonnet-4-5-20250929)\n` +
-      `  GOOGLE_AI_API_KEY  (alias for Gemini)\n\n` +
-      `Get a free API key:\n` +
-      `  Gemini:    https://aistudio.google.com/apikey\n` +
-      `  OpenAI:    https://platform.openai.com/api-keys\n` +
-      `  Anthropic: https://console.anthropic.com/`,
-  );
+  return callLlmMultiTurn(systemPrompt, [{ role: "user", content: userText }], options);
 }
 
 
 /**
- * Call the first available LLM provider with multi-turn message history.
+ * Call the selected LLM provider with multi-turn message history.
  * Used by the ReAct agent loop for multi-step conversations.
- * Throws if no provider is configured.
+ * Fails over along the provider chain; throws if no provider is configured
+ * or every provider in the chain fails.
  */
 export async function callLlmMultiTurn(
   systemPrompt: string,
   messages: ChatMessage[],
+  options: LlmOptions = {},
 ): Promise<LLMResponse> {
-  for (const p of PROVIDERS) {
-    const apiKey = process.env[p.envKey] || (p.altEnvKey ? process.env[p.altEnvKey] : undefined);
-    if (!apiKey) continue;
+  const merged = mergeLlmOptions(llmScope.getStore(), options);
+  const chain = providerChain(merged);
+  if (chain.length === 0) throw new Error(NO_PROVIDER_MESSAGE);
+
+  const observers = observerScope.getStore() ?? [];
+  const failovers: ProviderFailover[] = [];
+  for (const [i, { provider, settings }] of chain.entries()) {
+    const request = { provider: provider.name, model: settings.model, systemPrompt, messages, options: merged };
+    for (const observer of observers) observer.onRequest?.(request);
+
+    let streamed = false;
+    const onToken = settings.onToken;
+    let reply: ProviderReply;
+    try {
+      reply = await provider.call(
+        onToken ? { ...settings, onToken: (delta) => { streamed = true; onToken(delta); } } : settings,
+        systemPrompt,
+        messages,
+      );
+    } catch (err: any) {
+      if (chain.length === 1) throw err;
+      const failover = { provider: provider.name, model: settings.model, error: err.message || String(err) };
+      failovers.push(failover);
+      if (streamed && i < chain.length - 1) merged.onStreamReset?.(failover);
+      continue;
+    }
+
+    const recordTo = process.env[RECORD_ENV];
+    if (recordTo && !provider.offline) {
+      recordResponse(recordTo, { systemPrompt, messages, tools: settings.tools, toolChoice: settings.toolChoice }, reply, {
+        provider: provider.name,
+        model: settings.model,
+      });
+    }
 
-    const text = await p.callMultiTurn(apiKey, systemPrompt, messages);
-    return { text, provider: p.name, model: p.model };
+    const response: LLMResponse = { text: reply.text, provider: provider.name, model: settings.model };
+    if (failovers.length > 0) response.failovers = failovers;
+    if (reply.toolCalls) response.toolCalls = reply.toolCalls;
+    if (reply.usage) {
+      response.usage = reply.usage;
+      const cost = estimateCost(reply.usage, settings.model, merged.prices);
+      if (cost !== null) response.cost = cost;
+    }
+    for (const observer of observers) observer.onResponse?.(response);
+    return response;
   }
 
   throw new Error(
-    `No LLM provider available. Set one of these environment variables:
-` +
-      `  GEMINI_API_KEY     (uses gemini-3-flash-preview) - free tier available
-` +
-      `  OPENAI_API_KEY     (uses gpt-5)
-` +
-      `  ANTHROPIC_API_KEY  (uses claude-sonnet-4-5-20250929)
-` +
-      `  GOOGLE_AI_API_KEY  (alias for Gemini)
-
-` +
-      `Get a free API key:
-` +
-      `  Gemini:    https://aistudio.google.com/apikey
-` +
-      `  OpenAI:    https://platform.openai.com/api-keys
-` +
-      `  Anthropic: https://console.anthropic.com/`,
+    "All providers failed:\n" +
+      failovers.map((f) => `  ${f.provider} (${f.model}): ${f.error}`).join("\n"),
   );
 }
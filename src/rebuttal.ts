@@ -0,0 +1,106 @@
+/**
+ * Local support for the `rebuttal` workflow.
+ *
+ * Reviews are answered one reviewer at a time, and each answer has to point
+ * at the paper. `findEvidence` ranks the paper's paragraphs against a
+ * reviewer's concern by the rare words they share, so the agent quotes real
+ * passages with their section and line instead of recalling the paper from
+ * a summary.
+ */
+
+import { splitSections } from "./chunker";
+import { lineLocator } from "./latex";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One reviewer's comments, as pasted from the review system. */
+export interface ReviewerComments {
+  /** How the response addresses the reviewer, e.g. "Reviewer 2" or "R2". */
+  reviewer: string;
+  text: string;
+}
+
+/** How a concern is answered. */
+export type ConcernCategory = "clarify" | "new_experiment" | "disagree";
+
+export const CONCERN_CATEGORIES: ConcernCategory[] = ["clarify", "new_experiment", "disagree"];
+
+/** A paragraph of the paper that bears on a concern. */
+export interface EvidencePassage {
+  section?: string;
+  /** 1-based line where the paragraph starts. */
+  line: number;
+  /** 0-based offset of the paragraph in the paper. */
+  offset: number;
+  text: string;
+  /** Sum of the rarity weights of the concern's words found in the paragraph. */
+  score: number;
+}
+
+// ============================================================================
+// Evidence search
+// ============================================================================
+
+const STOPWORDS = new Set(
+  ("the and for are but not you all any can had her was one our out has have been were they this that with " +
+    "from what when which while will would there their them then than these those into also more most such " +
+    "only other some very should could does did how why who its it's may might must each per via using used use " +
+    "paper authors author work section results result show shows shown figure table approach method methods " +
+    "reviewer review comment comments please unclear clear whether").split(" "),
+);
+
+const TOKEN_RE = /[a-z][a-z0-9-]{2,}|\d+(?:\.\d+)?/g;
+
+/** Longest passage text returned, so a few passages fit in one observation. */
+const MAX_PASSAGE_CHARS = 600;
+
+function tokens(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/(?<!\\)%.*$/gm, " ")
+    .replace(/\\[a-z]+\*?/g, " ")
+    .match(TOKEN_RE) ?? [];
+  return new Set(words.filter((w) => !STOPWORDS.has(w)));
+}
+
+/**
+ * The paragraphs of `paper` that best match `query` (a reviewer's concern),
+ * best first. Words that occur in few paragraphs weigh most, so "ablation"
+ * or "ImageNet" steer the search and common words barely do.
+ */
+export function findEvidence(paper: string, query: string, max = 3): EvidencePassage[] {
+  const locate = lineLocator(paper);
+  const paragraphs: Array<{ section?: string; offset: number; text: string; words: Set<string> }> = [];
+  for (const section of splitSections(paper)) {
+    // The heading line is not evidence, and would put paragraphs a line early.
+    const head = section.heading ? section.text.indexOf("\n") + 1 || section.text.length : 0;
+    for (const m of section.text.slice(head).matchAll(/[^\n]+(?:\n(?![ \t]*\n)[^\n]*)*/g)) {
+      const text = m[0].trim();
+      if (!text) continue;
+      const offset = section.start + head + m.index! + m[0].indexOf(text);
+      paragraphs.push({ section: section.heading, offset, text, words: tokens(text) });
+    }
+  }
+
+  const wanted = [...tokens(query)];
+  const weight = new Map(
+    wanted.map((w) => {
+      const df = paragraphs.filter((p) => p.words.has(w)).length;
+      return [w, df === 0 ? 0 : Math.log(1 + paragraphs.length / df)];
+    }),
+  );
+  return paragraphs
+    .map((p) => ({ p, score: wanted.reduce((sum, w) => sum + (p.words.has(w) ? weight.get(w)! : 0), 0) }))
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.p.offset - b.p.offset)
+    .slice(0, max)
+    .map(({ p, score }) => ({
+      ...(p.section ? { section: p.section } : {}),
+      line: locate(p.offset).line,
+      offset: p.offset,
+      text: p.text.length > MAX_PASSAGE_CHARS ? `${p.text.slice(0, MAX_PASSAGE_CHARS)}...` : p.text,
+      score: Math.round(score * 100) / 100,
+    }));
+}
@@ -0,0 +1,245 @@
+/**
+ * Cross-reference integrity checker.
+ *
+ * Indexes every \label and checks the references against it: \ref-family
+ * targets that no \label defines, labels defined twice, figures and tables
+ * the text never refers to, references written in mixed styles ("Figure~\ref"
+ * here, "Fig. \ref" there) and, given the bibliography keys, \cite keys with
+ * no entry. All of this is decidable from the source, so it runs locally;
+ * `check-logic --type references` prints it and `scan_contradictions` merges
+ * it into the model's findings.
+ */
+
+import { lineLocator } from "./latex";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReferenceIssueType =
+  | "undefined_label"
+  | "duplicate_label"
+  | "unreferenced_float"
+  | "inconsistent_ref_style"
+  | "undefined_citation";
+
+export type LabelKind = "figure" | "table" | "equation" | "section" | "other";
+
+export interface LabelDefinition {
+  label: string;
+  kind: LabelKind;
+  line: number;
+  column: number;
+  offset: number;
+  /** Number of references to the label. */
+  refs: number;
+}
+
+export interface ReferenceIssue {
+  type: ReferenceIssueType;
+  severity: "error" | "warning";
+  /** File the issue is in, when a multi-file project was checked. */
+  file?: string;
+  line: number;
+  column: number;
+  offset: number;
+  label?: string;
+  /** Source text the issue points at, e.g. "\ref{fig:setup}". */
+  match: string;
+  message: string;
+}
+
+export interface ReferenceReport {
+  issues: ReferenceIssue[];
+  /** Every \label, in document order. */
+  labels: LabelDefinition[];
+  /** Number of \ref-family references. */
+  refCount: number;
+}
+
+export interface ReferenceCheckOptions {
+  /** Bibliography keys; when given, \cite keys outside them are reported. */
+  citationKeys?: string[];
+}
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/** Replace % comments and verbatim/code blocks with spaces, keeping offsets. */
+function maskCode(text: string): string {
+  return text
+    .replace(/\\begin\{((?:verbatim|Verbatim|lstlisting|minted|alltt|comment)\*?)\}[\s\S]*?\\end\{\1\}/g, (m) =>
+      m.replace(/[^\n]/g, " "))
+    .replace(/\\verb\*?([^a-zA-Z\s*])[^\n]*?\1/g, (m) => " ".repeat(m.length))
+    .replace(/(?<!\\)%.*$/gm, (m) => " ".repeat(m.length));
+}
+
+const LABEL_RE = /\\label\s*\{([^}]*)\}/g;
+
+/** \ref-family commands with one argument (a comma list for cleveref). */
+const REF_RE = /\\(?:[cC]ref|[vV]ref|ref|eqref|autoref|pageref|[cC]pageref|nameref|labelcref)\*?\s*\{([^}]*)\}/g;
+const REF_RANGE_RE = /\\(?:[cC]refrange|[cC]pagerefrange)\*?\s*\{([^}]*)\}\s*\{([^}]*)\}/g;
+const HYPERREF_RE = /\\hyperref\s*\[([^\]]*)\]/g;
+
+const CITE_RE = /\\[a-zA-Z]*cite[a-zA-Z]*\*?(?:\s*\[[^\]]*\]){0,2}\s*\{([^}]*)\}/g;
+
+const FLOAT_RE =
+  /\\begin\{((?:figure|table|wrapfigure|wraptable|sidewaysfigure|sidewaystable)\*?)\}[\s\S]*?\\end\{\1\}/g;
+const MATH_ENV_RE =
+  /\\begin\{((?:equation|align|alignat|gather|multline|flalign|eqnarray)\*?)\}[\s\S]*?\\end\{\1\}/g;
+const HEADING_BEFORE_RE = /\\(?:part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{[^}]*\}\s*$/;
+
+/** "Figure~\ref", "Fig. \ref", "Eq.~\eqref", ... : word, separator, target. */
+const NAMED_REF_RE =
+  /(?<![\w.])(Figures?|Figs?\.|Tables?|Tabs?\.|Equations?|Eqs?\.|Sections?|Secs?\.)(~|\s+)\\(?:ref|eqref)\s*\{([^}]*)\}/gi;
+
+const NAMED_KINDS: Array<[RegExp, LabelKind]> = [
+  [/^fig/i, "figure"],
+  [/^tab/i, "table"],
+  [/^eq/i, "equation"],
+  [/^sec/i, "section"],
+];
+
+/** "figs." -> "Fig.", "Tables" -> "Table": the form a style guide would pick. */
+function namedForm(word: string, separator: string): string {
+  const singular = word.replace(/^(fig|tab|eq|sec)s\./i, "$1.").replace(/s$/i, "");
+  return singular[0].toUpperCase() + singular.slice(1).toLowerCase() + (separator === "~" ? "~" : " ");
+}
+
+function splitKeys(list: string): string[] {
+  return list.split(",").map((k) => k.trim()).filter(Boolean);
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Check cross-references in a LaTeX text. Comments and verbatim blocks are
+ * ignored; math is not, since equations carry labels.
+ */
+export function checkReferences(text: string, options: ReferenceCheckOptions = {}): ReferenceReport {
+  const source = maskCode(text);
+  const locate = lineLocator(text);
+  const issues: ReferenceIssue[] = [];
+  const issue = (fields: Omit<ReferenceIssue, "line" | "column">) => issues.push({ ...locate(fields.offset), ...fields });
+
+  const floats = [...source.matchAll(FLOAT_RE)].map((m) => ({
+    start: m.index!,
+    end: m.index! + m[0].length,
+    kind: (m[1].includes("table") ? "table" : "figure") as LabelKind,
+    begin: `\\begin{${m[1]}}`,
+    labels: [] as string[],
+  }));
+  const mathEnvs = [...source.matchAll(MATH_ENV_RE)].map((m) => [m.index!, m.index! + m[0].length]);
+
+  // Labels
+  const labels: LabelDefinition[] = [];
+  const byName = new Map<string, LabelDefinition>();
+  for (const m of source.matchAll(LABEL_RE)) {
+    const label = m[1].trim();
+    const offset = m.index!;
+    const float = floats.find((f) => offset > f.start && offset < f.end);
+    float?.labels.push(label);
+    const kind: LabelKind = float
+      ? float.kind
+      : mathEnvs.some(([start, end]) => offset > start && offset < end)
+        ? "equation"
+        : HEADING_BEFORE_RE.test(source.slice(Math.max(0, offset - 300), offset))
+          ? "section"
+          : "other";
+
+    const first = byName.get(label);
+    if (first) {
+      issue({
+        type: "duplicate_label", severity: "error", offset, label, match: m[0],
+        message: `Label "${label}" is defined twice (first at line ${first.line})`,
+      });
+      continue;
+    }
+    const definition = { label, kind, ...locate(offset), offset, refs: 0 };
+    labels.push(definition);
+    byName.set(label, definition);
+  }
+
+  // References
+  const refs: Array<{ label: string; offset: number; match: string }> = [];
+  for (const m of source.matchAll(REF_RE)) {
+    for (const label of splitKeys(m[1])) refs.push({ label, offset: m.index!, match: m[0] });
+  }
+  for (const m of source.matchAll(REF_RANGE_RE)) {
+    for (const label of [m[1], m[2]].map((l) => l.trim()).filter(Boolean)) {
+      refs.push({ label, offset: m.index!, match: m[0] });
+    }
+  }
+  for (const m of source.matchAll(HYPERREF_RE)) {
+    if (m[1].trim()) refs.push({ label: m[1].trim(), offset: m.index!, match: m[0] });
+  }
+  refs.sort((a, b) => a.offset - b.offset);
+
+  for (const ref of refs) {
+    const target = byName.get(ref.label);
+    if (target) {
+      target.refs++;
+    } else {
+      issue({
+        type: "undefined_label", severity: "error", offset: ref.offset, label: ref.label, match: ref.match,
+        message: `"${ref.label}" in ${ref.match} is never defined by a \\label`,
+      });
+    }
+  }
+
+  // Floats the text never points to (any label of a float, subfigures included, counts).
+  for (const float of floats) {
+    if (float.labels.some((l) => (byName.get(l)?.refs ?? 0) > 0)) continue;
+    const label = float.labels[0];
+    issue({
+      type: "unreferenced_float", severity: "warning", offset: float.start, label, match: label ? `\\label{${label}}` : float.begin,
+      message: label
+        ? `${float.kind === "table" ? "Table" : "Figure"} "${label}" is never referenced in the text`
+        : `${float.kind === "table" ? "Table" : "Figure"} has no \\label, so the text cannot refer to it`,
+    });
+  }
+
+  // Reference style: each kind should be written one way throughout.
+  const named = new Map<LabelKind, Array<{ form: string; offset: number; match: string; label: string }>>();
+  for (const m of source.matchAll(NAMED_REF_RE)) {
+    const kind = NAMED_KINDS.find(([re]) => re.test(m[1]))![1];
+    const list = named.get(kind) ?? [];
+    list.push({ form: namedForm(m[1], m[2]), offset: m.index!, match: m[0], label: splitKeys(m[3])[0] ?? "" });
+    named.set(kind, list);
+  }
+  for (const [kind, uses] of named) {
+    const counts = new Map<string, number>();
+    for (const use of uses) counts.set(use.form, (counts.get(use.form) ?? 0) + 1);
+    if (counts.size < 2) continue;
+    // Ties go to the form used first.
+    const dominant = [...counts].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+    for (const use of uses.filter((u) => u.form !== dominant)) {
+      issue({
+        type: "inconsistent_ref_style", severity: "warning", offset: use.offset, label: use.label, match: use.match,
+        message: `"${use.match.replace(/\s+/g, " ")}" is written differently from the other ${kind} references ("${dominant}\\ref")`,
+      });
+    }
+  }
+
+  // Citations, when the bibliography is known.
+  if (options.citationKeys) {
+    const known = new Set(options.citationKeys);
+    const reported = new Set<string>();
+    for (const m of source.matchAll(CITE_RE)) {
+      for (const key of splitKeys(m[1])) {
+        if (key === "*" || known.has(key) || reported.has(key)) continue;
+        reported.add(key);
+        issue({
+          type: "undefined_citation", severity: "error", offset: m.index!, label: key, match: m[0],
+          message: `Cited key "${key}" has no bibliography entry`,
+        });
+      }
+    }
+  }
+
+  issues.sort((a, b) => a.offset - b.offset);
+  return { issues, labels, refCount: refs.length };
+}
@@ -0,0 +1,132 @@
+/**
+ * Saved agent runs (.airwriter/runs/<id>.json).
+ *
+ * Every agent command is recorded as it goes: the command line, and the
+ * transcript of each agent loop it ran (one per document chunk or length
+ * round) with goal, system prompt, messages, steps and provider. The file
+ * is rewritten after every step, so when step 4 of a review fails the
+ * first three survive, and `--resume <id>` replays the finished loops
+ * and continues the failed one where it stopped.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { findConfigFile } from "./config";
+import type { AgentTranscript, TranscriptRecorder } from "./agent";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RunRecord {
+  id: string;
+  command: string;
+  /** Command-line arguments after the command, re-used on --resume. */
+  args: string[];
+  status: "running" | "completed" | "failed";
+  /** ISO timestamps. */
+  startedAt: string;
+  updatedAt: string;
+  /** One transcript per agent loop, in the order the command ran them. */
+  agents: AgentTranscript[];
+}
+
+export const RUNS_DIRNAME = path.join(".airwriter", "runs");
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/** The nearest .airwriter/runs directory, or one under the working directory. */
+export function findRunsDir(startDir: string = process.cwd()): string {
+  const found = findConfigFile(startDir, ".airwriter");
+  return found ? path.join(found, "runs") : path.join(startDir, RUNS_DIRNAME);
+}
+
+/** Start a record for `command`, e.g. id "20261019-142501-review-3fa2". */
+export function createRun(command: string, args: string[], now: Date = new Date()): RunRecord {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return {
+    id: `${stamp}-${command}-${randomBytes(2).toString("hex")}`,
+    command,
+    args,
+    status: "running",
+    startedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    agents: [],
+  };
+}
+
+export function saveRun(run: RunRecord, dir: string = findRunsDir()): void {
+  fs.mkdirSync(dir, { recursive: true });
+  run.updatedAt = new Date().toISOString();
+  fs.writeFileSync(path.join(dir, `${run.id}.json`), JSON.stringify(run, null, 2) + "\n", "utf-8");
+}
+
+/** Load a run by id, or by a prefix that names exactly one run. */
+export function loadRun(id: string, dir: string = findRunsDir()): RunRecord {
+  const exact = path.join(dir, `${id}.json`);
+  let file = exact;
+  if (!fs.existsSync(exact)) {
+    const matches = fs.existsSync(dir) ? fs.readdirSync(dir).filter((f) => f.startsWith(id) && f.endsWith(".json")) : [];
+    if (matches.length !== 1) {
+      throw new Error(matches.length === 0 ? `No saved run "${id}" in ${dir}` : `"${id}" matches ${matches.length} runs; give more of the id`);
+    }
+    file = path.join(dir, matches[0]);
+  }
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid run file ${file}: ${err.message}`);
+  }
+}
+
+/** Every saved run, newest first. Unreadable files are skipped. */
+export function listRuns(dir: string = findRunsDir()): RunRecord[] {
+  if (!fs.existsSync(dir)) return [];
+  const runs: RunRecord[] = [];
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+    try {
+      runs.push(JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")));
+    } catch {
+      // a run being written by another process, or a stray file
+    }
+  }
+  return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * A recorder that keeps `run` on disk as its agent loops progress. Loops
+ * already in the record (from a run being resumed) are matched by
+ * position and must have the same goal, or the input has changed since.
+ */
+export function createRunRecorder(run: RunRecord, dir: string = findRunsDir()): TranscriptRecorder {
+  let next = 0;
+  return {
+    start: (transcript) => {
+      const index = next++;
+      const earlier = run.agents[index];
+      if (earlier) {
+        if (earlier.goal !== transcript.goal) {
+          throw new Error(`Cannot resume run ${run.id}: the input of agent loop ${index + 1} has changed since it was saved.`);
+        }
+        if (earlier.mode !== transcript.mode && !earlier.result) {
+          throw new Error(
+            `Cannot resume run ${run.id}: it used ${earlier.mode === "native" ? "native tool calling" : "the text format"}; ` +
+              "resume it with a provider that does the same.",
+          );
+        }
+        return earlier;
+      }
+      run.agents.push(transcript);
+      saveRun(run, dir);
+      return undefined;
+    },
+    save: () => saveRun(run, dir),
+  };
+}
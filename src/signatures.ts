@@ -0,0 +1,299 @@
+/**
+ * Local, rule-based AI-signature scanner.
+ *
+ * Finds the patterns the de-ai and analyze templates enumerate without an
+ * LLM call: overused AI vocabulary, mechanical connectors, paragraphs of
+ * uniform sentence length, and dense hedging. Every finding carries the
+ * exact line, column and offset in the scanned text. Math, citations,
+ * references and code (the spans LaTeX protection hides) and % comments
+ * are skipped.
+ *
+ * The lexicon can be extended or trimmed under "signatures" in
+ * .airwriterrc.json:
+ *
+ * {
+ *   "signatures": {
+ *     "words": ["synergy"],
+ *     "connectors": ["Notably"],
+ *     "hedges": ["conceivably"],
+ *     "ignore": ["comprehensive"]
+ *   }
+ * }
+ */
+
+import { lineLocator, maskProtected } from "./latex";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SignatureType = "signature_word" | "mechanical_connector" | "uniform_sentences" | "hedging";
+
+export interface SignatureFinding {
+  /** File the finding is in, when a multi-file project was scanned. */
+  file?: string;
+  type: SignatureType;
+  severity: "warning" | "info";
+  /** 1-based line and column of the match. */
+  line: number;
+  column: number;
+  /** 0-based offset and length of the match in the scanned text. */
+  offset: number;
+  length: number;
+  match: string;
+  message: string;
+  suggestion?: string;
+}
+
+export interface SentenceLengthStats {
+  sentences: number;
+  /** Mean sentence length in words. */
+  mean: number;
+  stdDev: number;
+  /** Coefficient of variation (stdDev / mean); low values read as machine-made. */
+  variation: number;
+}
+
+export interface SignatureReport {
+  findings: SignatureFinding[];
+  counts: Record<SignatureType, number>;
+  wordCount: number;
+  sentenceLength: SentenceLengthStats;
+  /** Hedges per 100 words over the whole text. */
+  hedgingDensity: number;
+}
+
+export interface SignatureLexicon {
+  /** Extra AI-signature words, added to the defaults. */
+  words?: string[];
+  /** Extra mechanical connectors, added to the defaults. */
+  connectors?: string[];
+  /** Extra hedging words, added to the defaults. */
+  hedges?: string[];
+  /** Default terms (from any list) to stop flagging. */
+  ignore?: string[];
+}
+
+// ============================================================================
+// Default Lexicon (from the de-ai template)
+// ============================================================================
+
+/** Overused AI vocabulary and a suggested replacement for each. */
+export const DEFAULT_SIGNATURE_WORDS: Record<string, string> = {
+  leverage: "use or apply",
+  delve: "examine or investigate",
+  utilize: "use",
+  tapestry: "landscape or context",
+  multifaceted: "complex, or describe it specifically",
+  comprehensive: "thorough or detailed, or remove",
+  "cutting-edge": "recent or state-of-the-art",
+  groundbreaking: "novel or significant",
+  pivotal: "important or key",
+  "game-changing": "remove, or state the actual impact",
+  "dive into": "examine or analyze",
+  spearhead: "lead or initiate",
+  foster: "encourage or support",
+  unleash: "enable or release",
+  realm: "area or domain",
+};
+
+/** Transitions that mark text as mechanically connected. */
+export const DEFAULT_CONNECTORS: Record<string, string> = {
+  furthermore: "vary the transition or restructure",
+  moreover: "vary the transition or restructure",
+  additionally: "vary the transition or restructure",
+  "it is worth noting that": "remove",
+  "in conclusion": "remove, or lead with the substance",
+  "this is particularly important because": "integrate the reason into the sentence",
+  "let's": "rephrase without the imperative",
+  "this is not an exhaustive list": "remove",
+  "in the realm of": "in",
+};
+
+export const DEFAULT_HEDGES: string[] = [
+  "perhaps",
+  "maybe",
+  "somewhat",
+  "arguably",
+  "possibly",
+  "presumably",
+  "seemingly",
+  "might",
+  "it seems",
+  "appears to",
+  "to some extent",
+  "could potentially",
+];
+
+/** Paragraphs with at least this many sentences are checked for uniformity. */
+const MIN_SENTENCES = 4;
+/** Sentence-length variation below this is flagged as uniform. */
+const UNIFORM_VARIATION = 0.2;
+/** Paragraphs with more hedges than this per 100 words have each flagged. */
+const HEDGE_DENSITY = 3;
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whole-word pattern for a term, matching common inflections of its first
+ * word (leverage -> leverages, leveraged, leveraging).
+ */
+function termPattern(term: string, inflect: boolean): string {
+  const [head, ...rest] = term.toLowerCase().split(/\s+/);
+  let first = escapeRegExp(head);
+  if (inflect && /^[a-z]+$/.test(head)) {
+    first = head.endsWith("e")
+      ? `${escapeRegExp(head.slice(0, -1))}(?:e|es|ed|ing)`
+      : `${first}(?:s|es|ed|ing)?`;
+  }
+  return [first, ...rest.map(escapeRegExp)].join("\\s+");
+}
+
+function lexiconRegex(terms: string[], inflect: boolean): RegExp | null {
+  if (terms.length === 0) return null;
+  // Longest first so "in the realm of" wins over "realm".
+  const sorted = [...terms].sort((a, b) => b.length - a.length);
+  return new RegExp(`(?<![\\w-])(?:${sorted.map((t) => termPattern(t, inflect)).join("|")})(?![\\w-])`, "gi");
+}
+
+/** The lexicon entry a matched span came from. */
+function entryFor(match: string, terms: string[], inflect: boolean): string {
+  return terms.find((t) => new RegExp(`^${termPattern(t, inflect)}$`, "i").test(match)) ?? match;
+}
+
+function countWords(text: string): number {
+  return (text.match(/[A-Za-z0-9][\w'-]*/g) ?? []).length;
+}
+
+function sentenceLengths(paragraph: string): number[] {
+  return (paragraph.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [])
+    .map(countWords)
+    .filter((n) => n > 0);
+}
+
+function lengthStats(lengths: number[]): SentenceLengthStats {
+  if (lengths.length === 0) return { sentences: 0, mean: 0, stdDev: 0, variation: 0 };
+  const mean = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+  const stdDev = Math.sqrt(lengths.reduce((a, n) => a + (n - mean) ** 2, 0) / lengths.length);
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return { sentences: lengths.length, mean: round(mean), stdDev: round(stdDev), variation: round(stdDev / mean) };
+}
+
+function withoutIgnored(terms: string[], ignore: string[]): string[] {
+  const ignored = new Set(ignore.map((t) => t.toLowerCase()));
+  return [...new Set(terms.map((t) => t.toLowerCase()))].filter((t) => !ignored.has(t));
+}
+
+// ============================================================================
+// Scanner
+// ============================================================================
+
+/** Scan text for AI writing signatures. Findings are sorted by position. */
+export function scanAiSignatures(text: string, lexicon: SignatureLexicon = {}): SignatureReport {
+  const ignore = lexicon.ignore ?? [];
+  const words = withoutIgnored([...Object.keys(DEFAULT_SIGNATURE_WORDS), ...(lexicon.words ?? [])], ignore);
+  const connectors = withoutIgnored([...Object.keys(DEFAULT_CONNECTORS), ...(lexicon.connectors ?? [])], ignore);
+  const hedges = withoutIgnored([...DEFAULT_HEDGES, ...(lexicon.hedges ?? [])], ignore);
+
+  const masked = maskProtected(text);
+  const locate = lineLocator(text);
+  const findings: SignatureFinding[] = [];
+  const add = (finding: Omit<SignatureFinding, "line" | "column">) =>
+    findings.push({ ...locate(finding.offset), ...finding });
+
+  // Connectors first, so a word inside one ("in the realm of") is not reported twice.
+  const claimed: Array<[number, number]> = [];
+  const connectorRe = lexiconRegex(connectors, false);
+  for (const m of connectorRe ? masked.matchAll(connectorRe) : []) {
+    const entry = entryFor(m[0], connectors, false);
+    claimed.push([m.index!, m.index! + m[0].length]);
+    add({
+      type: "mechanical_connector",
+      severity: "warning",
+      offset: m.index!,
+      length: m[0].length,
+      match: text.slice(m.index!, m.index! + m[0].length),
+      message: `Mechanical connector "${m[0]}"`,
+      ...(DEFAULT_CONNECTORS[entry] ? { suggestion: DEFAULT_CONNECTORS[entry] } : {}),
+    });
+  }
+
+  const wordRe = lexiconRegex(words, true);
+  for (const m of wordRe ? masked.matchAll(wordRe) : []) {
+    if (claimed.some(([s, e]) => m.index! >= s && m.index! < e)) continue;
+    const entry = entryFor(m[0], words, true);
+    add({
+      type: "signature_word",
+      severity: "warning",
+      offset: m.index!,
+      length: m[0].length,
+      match: text.slice(m.index!, m.index! + m[0].length),
+      message: `AI-signature word "${m[0]}"`,
+      ...(DEFAULT_SIGNATURE_WORDS[entry] ? { suggestion: DEFAULT_SIGNATURE_WORDS[entry] } : {}),
+    });
+  }
+
+  // Paragraph-level checks: sentence-length uniformity and hedging density.
+  const hedgeRe = lexiconRegex(hedges, false);
+  const allLengths: number[] = [];
+  let hedgeCount = 0;
+  for (const para of masked.matchAll(/\S[\s\S]*?(?=\n[ \t]*\n|$)/g)) {
+    const paragraph = para[0];
+    const lengths = sentenceLengths(paragraph);
+    allLengths.push(...lengths);
+
+    const stats = lengthStats(lengths);
+    if (stats.sentences >= MIN_SENTENCES && stats.variation < UNIFORM_VARIATION) {
+      const firstLine = paragraph.split("\n")[0];
+      add({
+        type: "uniform_sentences",
+        severity: "info",
+        offset: para.index!,
+        length: paragraph.length,
+        match: text.slice(para.index!, para.index! + firstLine.length),
+        message: `${stats.sentences} sentences of ${stats.mean} ± ${stats.stdDev} words; vary sentence length`,
+      });
+    }
+
+    const paraHedges = hedgeRe ? [...paragraph.matchAll(hedgeRe)] : [];
+    hedgeCount += paraHedges.length;
+    const density = (paraHedges.length * 100) / Math.max(1, countWords(paragraph));
+    if (paraHedges.length >= 2 && density > HEDGE_DENSITY) {
+      for (const m of paraHedges) {
+        const offset = para.index! + m.index!;
+        add({
+          type: "hedging",
+          severity: "info",
+          offset,
+          length: m[0].length,
+          match: text.slice(offset, offset + m[0].length),
+          message: `Hedge "${m[0]}" in a paragraph with ${density.toFixed(1)} hedges per 100 words`,
+        });
+      }
+    }
+  }
+
+  findings.sort((a, b) => a.offset - b.offset);
+  const counts: Record<SignatureType, number> = {
+    signature_word: 0,
+    mechanical_connector: 0,
+    uniform_sentences: 0,
+    hedging: 0,
+  };
+  for (const f of findings) counts[f.type]++;
+
+  const wordCount = countWords(masked);
+  return {
+    findings,
+    counts,
+    wordCount,
+    sentenceLength: lengthStats(allLengths),
+    hedgingDensity: Math.round(((hedgeCount * 100) / Math.max(1, wordCount)) * 100) / 100,
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Offline readability and style metrics.
+ *
+ * Measures what the analyze template asks the model for (per-section word
+ * counts, line ranges and readability grades) plus passive voice,
+ * contractions and hedges, directly from the file. Math, citations,
+ * references, code, comments and LaTeX command names are left out of every
+ * count. The `stats` command prints these, and `score_paper` hands them to
+ * the model so its scores rest on real numbers.
+ */
+
+import { splitSections } from "./chunker";
+import { findProtectedSpans } from "./latex";
+import { DEFAULT_HEDGES } from "./signatures";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TextStats {
+  wordCount: number;
+  sentenceCount: number;
+  /** Mean words per sentence. */
+  avgSentenceLength: number;
+  /** Flesch Reading Ease, 0-100; higher is easier, academic prose is usually 10-40. */
+  readingEase: number;
+  /** Flesch-Kincaid grade level, never below 0. */
+  readabilityGrade: number;
+  gunningFog: number;
+  colemanLiau: number;
+  passiveSentences: number;
+  /** Share of sentences in the passive voice, 0-1. */
+  passiveRatio: number;
+  contractions: number;
+  hedges: number;
+}
+
+export interface SectionStats extends TextStats {
+  name: string;
+  /** File the section starts in, when a multi-file project was measured. */
+  file?: string;
+  /** 1-based, inclusive line range of the section in the file. */
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface DocumentStats {
+  totals: TextStats;
+  sections: SectionStats[];
+}
+
+// ============================================================================
+// Prose Extraction
+// ============================================================================
+
+/** Abbreviations whose period does not end a sentence. */
+const ABBREVIATIONS = /\b(?:e\.g|i\.e|et al|etc|vs|cf|Fig|Figs|Eq|Eqs|Sec|Tab|Ref|No|Dr|Prof)\./g;
+
+/** Commands whose arguments are names or paths, not prose. */
+const NON_PROSE_COMMANDS =
+  /\\(?:documentclass|usepackage|RequirePackage|bibliographystyle|bibliography|addbibresource|input|include|subfile|includegraphics|newcommand|renewcommand)\*?\s*(?:\[[^\]]*\])?\s*\{[^}]*\}/g;
+
+/**
+ * Running prose of a LaTeX or Markdown text: protected spans and comments
+ * removed, command names dropped (their braced text kept, except for
+ * preamble and file commands), headings and environment markers removed.
+ */
+function proseText(text: string): string {
+  let prose = "";
+  let from = 0;
+  for (const [start, end] of findProtectedSpans(text)) {
+    if (start < from) continue;
+    prose += text.slice(from, start) + " ";
+    from = end;
+  }
+  prose += text.slice(from);
+
+  return prose
+    .replace(/(?<!\\)%.*$/gm, "")
+    .replace(/\\(?:begin|end)\s*\{[^}]*\}/g, " ")
+    .replace(NON_PROSE_COMMANDS, " ")
+    .replace(/\\(?:part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{[^}]*\}/g, " ")
+    .replace(/^#{1,6}\s+.*$/gm, " ")
+    .replace(/\\[a-zA-Z]+\*?/g, " ")
+    .replace(/[{}~]/g, " ")
+    .replace(ABBREVIATIONS, (m) => m.replace(/\./g, ""));
+}
+
+const WORD_RE = /[A-Za-z0-9][\w'’-]*/;
+const WORDS_RE = /[A-Za-z0-9][\w'’-]*/g;
+
+function splitSentences(prose: string): string[] {
+  return (prose.match(/[^.!?]+(?:[.!?]+|$)/g) ?? []).filter((s) => WORD_RE.test(s));
+}
+
+// ============================================================================
+// Measures
+// ============================================================================
+
+/** Vowel-group syllable estimate, good to about one syllable per word. */
+function syllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (w.length <= 3) return 1;
+  const trimmed = w.replace(/(?:[^laeiouy]es|[^laeiouytd]ed|[^laeiouy]e)$/, (m) => m[0]).replace(/^y/, "");
+  return Math.max(1, (trimmed.match(/[aeiouy]+/g) ?? []).length);
+}
+
+const PASSIVE_RE =
+  /\b(?:am|is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?(?:\w+ed|known|shown|given|seen|done|made|taken|written|found|chosen|built|drawn|driven|held|kept|left|lost|met|paid|run|set|sent|split|spent|taught|told|thought|understood|proven|begun|broken|grown|led|read)\b/i;
+
+const CONTRACTION_RE =
+  /\b(?:\w+n['’]t|\w+['’](?:re|ve|ll|d|m)|(?:it|that|there|here|what|who|let|he|she)['’]s)\b/gi;
+
+const HEDGE_RE = new RegExp(
+  `\\b(?:${DEFAULT_HEDGES.map((h) => h.replace(/\s+/g, "\\s+")).join("|")})\\b`,
+  "gi",
+);
+
+function round(n: number, places = 1): number {
+  const f = 10 ** places;
+  return Math.round(n * f) / f;
+}
+
+/** Keeps a formula's result on its published scale; very short, simple text falls off either end. */
+function clamp(n: number, min: number, max = Infinity): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+function measure(text: string): TextStats {
+  const prose = proseText(text);
+  const sentences = splitSentences(prose);
+  const words = prose.match(WORDS_RE) ?? [];
+  const wordCount = words.length;
+  const sentenceCount = sentences.length;
+
+  const passiveSentences = sentences.filter((s) => PASSIVE_RE.test(s)).length;
+  const contractions = (prose.match(CONTRACTION_RE) ?? []).length;
+  const hedges = (prose.match(HEDGE_RE) ?? []).length;
+
+  if (wordCount === 0 || sentenceCount === 0) {
+    return {
+      wordCount, sentenceCount, avgSentenceLength: 0, readingEase: 0, readabilityGrade: 0,
+      gunningFog: 0, colemanLiau: 0, passiveSentences, passiveRatio: 0, contractions, hedges,
+    };
+  }
+
+  const syllableCounts = words.map(syllables);
+  const totalSyllables = syllableCounts.reduce((a, b) => a + b, 0);
+  const complexWords = syllableCounts.filter((n) => n >= 3).length;
+  const letters = words.join("").replace(/[^A-Za-z]/g, "").length;
+
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = totalSyllables / wordCount;
+
+  return {
+    wordCount,
+    sentenceCount,
+    avgSentenceLength: round(wordsPerSentence),
+    readingEase: round(clamp(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord, 0, 100)),
+    readabilityGrade: round(clamp(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59, 0)),
+    gunningFog: round(0.4 * (wordsPerSentence + (100 * complexWords) / wordCount)),
+    colemanLiau: round(clamp(0.0588 * ((letters * 100) / wordCount) - 0.296 * ((sentenceCount * 100) / wordCount) - 15.8, 0)),
+    passiveSentences,
+    passiveRatio: round(passiveSentences / sentenceCount, 2),
+    contractions,
+    hedges,
+  };
+}
+
+/**
+ * Words of running prose, counted like `stats` does: math, citations, code,
+ * comments and command names are left out.
+ */
+export function wordCount(text: string): number {
+  return (proseText(text).match(WORDS_RE) ?? []).length;
+}
+
+function lineOf(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (text[i] === "\n") line++;
+  return line;
+}
+
+/**
+ * Measure a document as a whole and per section (split at \section / #
+ * headings). Text before the first heading is reported as "Front matter"
+ * when it has any prose.
+ */
+export function documentStats(text: string): DocumentStats {
+  const sections: SectionStats[] = [];
+  for (const section of splitSections(text)) {
+    const stats = measure(section.text);
+    if (!section.heading && stats.wordCount === 0) continue;
+    const body = section.text.replace(/\s+$/, "");
+    sections.push({
+      name: section.heading ?? "Front matter",
+      lineStart: lineOf(text, section.start),
+      lineEnd: lineOf(text, section.start + Math.max(0, body.length - 1)),
+      ...stats,
+    });
+  }
+  return { totals: measure(text), sections };
+}
@@ -0,0 +1,493 @@
+/**
+ * Venue profiles: the rules a submission is held to and the form its
+ * reviewers fill in.
+ *
+ * Built-in profiles cover NeurIPS, ICML, ACL (ARR), CVPR and IEEE journals;
+ * more come from `venues` in .airwriterrc.json or a JSON file given as
+ * `--venue my-venue.json`. A profile may `extends` a built-in one and
+ * override only what differs:
+ *
+ * {
+ *   "name": "MyWorkshop 2026",
+ *   "extends": "neurips",
+ *   "pageLimit": 4,
+ *   "requiredSections": [{ "name": "Limitations", "pattern": "^limitations?$" }]
+ * }
+ *
+ * `checkVenue` measures a manuscript against a profile locally (estimated
+ * page count, abstract length, required sections, camera-ready switches in
+ * an anonymous submission, citation style); `analyze --venue` hands the
+ * findings to the model, and `review --venue` writes its review in the
+ * venue's reviewer form.
+ */
+
+import * as fs from "fs";
+import { splitSections } from "./chunker";
+import { lineLocator } from "./latex";
+import { wordCount } from "./stats";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RequiredSection {
+  name: string;
+  /** Regular expression matched, case-insensitively, against headings and environment names. */
+  pattern: string;
+}
+
+export interface ReviewFormField {
+  field: string;
+  /** What the reviewer writes in the field. */
+  guidance: string;
+  /** Score range or choices, e.g. "1-4" or "accept | minor revision | major revision | reject". */
+  scale?: string;
+}
+
+export interface VenueProfile {
+  name: string;
+  /** Other names the profile answers to, e.g. "emnlp" for ACL. */
+  aliases?: string[];
+  /** Key of a built-in profile this one starts from (user profiles only). */
+  extends?: string;
+  /** Pages of main text; references, appendices and required sections are not counted. */
+  pageLimit?: number;
+  /** Words of running prose a page holds in the venue's template, for estimating pages. */
+  wordsPerPage?: number;
+  abstractWords?: number;
+  requiredSections?: RequiredSection[];
+  /** Double-blind: the submission must not reveal its authors. */
+  anonymous?: boolean;
+  /** Regular expressions for template switches that reveal authors, e.g. a camera-ready option. */
+  deanonymizing?: string[];
+  citationStyle?: "numeric" | "author-year";
+  reviewForm?: ReviewFormField[];
+}
+
+export type VenueIssueType = "page_limit" | "abstract_length" | "missing_section" | "anonymity" | "citation_style";
+
+export interface VenueIssue {
+  type: VenueIssueType;
+  severity: "error" | "warning";
+  /** File the issue is in, when a multi-file project was checked. */
+  file?: string;
+  line: number;
+  column: number;
+  offset: number;
+  message: string;
+}
+
+export interface VenueReport {
+  venue: string;
+  issues: VenueIssue[];
+  /** Words of main text, as counted for the page estimate. */
+  mainWords: number;
+  /** Estimated pages of main text, when the profile gives words per page. */
+  estimatedPages?: number;
+  abstractWords?: number;
+}
+
+// ============================================================================
+// Built-in Profiles
+// ============================================================================
+
+export const VENUES: Record<string, VenueProfile> = {
+  neurips: {
+    name: "NeurIPS",
+    aliases: ["nips", "neural information processing systems"],
+    pageLimit: 9,
+    wordsPerPage: 700,
+    requiredSections: [{ name: "NeurIPS Paper Checklist", pattern: "checklist" }],
+    anonymous: true,
+    deanonymizing: ["\\\\usepackage\\[[^\\]]*\\b(?:final|preprint)\\b[^\\]]*\\]\\{neurips"],
+    reviewForm: [
+      { field: "Summary", guidance: "What the paper claims and contributes, in the reviewer's own words." },
+      { field: "Strengths and Weaknesses", guidance: "Originality, quality, clarity and significance, each with specific evidence." },
+      { field: "Quality", guidance: "Are the claims supported by theory or experiments?", scale: "1-4" },
+      { field: "Clarity", guidance: "Is the paper clearly written and well organized?", scale: "1-4" },
+      { field: "Significance", guidance: "Will others build on these results?", scale: "1-4" },
+      { field: "Originality", guidance: "Does the work offer new insights beyond prior work?", scale: "1-4" },
+      { field: "Questions", guidance: "Questions whose answers could change the rating." },
+      { field: "Limitations", guidance: "Are limitations and potential negative societal impact adequately addressed?" },
+      { field: "Overall", guidance: "6 = accept, 5 = borderline accept, 4 = borderline reject, 3 = reject.", scale: "1-6" },
+      { field: "Confidence", guidance: "How sure the reviewer is of the assessment.", scale: "1-5" },
+    ],
+  },
+  icml: {
+    name: "ICML",
+    aliases: ["international conference on machine learning"],
+    pageLimit: 8,
+    wordsPerPage: 950,
+    requiredSections: [{ name: "Impact Statement", pattern: "impact statement|broader impact" }],
+    anonymous: true,
+    deanonymizing: ["\\\\usepackage\\[[^\\]]*\\baccepted\\b[^\\]]*\\]\\{icml"],
+    citationStyle: "author-year",
+    reviewForm: [
+      { field: "Summary", guidance: "The main findings, methods and results." },
+      { field: "Claims and Evidence", guidance: "Are the claims supported by clear and convincing evidence? Name any that are not." },
+      { field: "Methods and Evaluation Criteria", guidance: "Do the methods and benchmarks make sense for the problem?" },
+      { field: "Theoretical Claims", guidance: "Were proofs checked, and are they correct?" },
+      { field: "Experimental Designs or Analyses", guidance: "Are the experiments sound and valid?" },
+      { field: "Relation to Broader Scientific Literature", guidance: "How the contributions relate to prior findings." },
+      { field: "Essential References Not Discussed", guidance: "Related work needed to understand the contribution." },
+      { field: "Other Strengths and Weaknesses", guidance: "Originality, significance and clarity." },
+      { field: "Questions for Authors", guidance: "Questions whose answers could change the evaluation." },
+      { field: "Overall Recommendation", guidance: "5 = strong accept, 3 = weak reject, 1 = strong reject.", scale: "1-5" },
+    ],
+  },
+  acl: {
+    name: "ACL",
+    aliases: ["arr", "acl rolling review", "emnlp", "naacl", "eacl", "aacl"],
+    pageLimit: 8,
+    wordsPerPage: 850,
+    abstractWords: 200,
+    requiredSections: [{ name: "Limitations", pattern: "^limitations?$" }],
+    anonymous: true,
+    deanonymizing: ["\\\\usepackage(?!\\[[^\\]]*\\breview\\b)(?:\\[[^\\]]*\\])?\\{acl\\}"],
+    citationStyle: "author-year",
+    reviewForm: [
+      { field: "Paper Summary", guidance: "What the paper is about and what it contributes." },
+      { field: "Summary of Strengths", guidance: "The main reasons to publish the paper." },
+      { field: "Summary of Weaknesses", guidance: "The main reasons against publishing it, most serious first." },
+      { field: "Comments, Suggestions and Typos", guidance: "Minor points that would improve the paper." },
+      { field: "Soundness", guidance: "How well the claims are supported.", scale: "1-5" },
+      { field: "Overall Assessment", guidance: "5 = award-worthy, 3 = findings-worthy, 1 = do not publish.", scale: "1-5" },
+      { field: "Reproducibility", guidance: "How easily the results could be reproduced.", scale: "1-5" },
+      { field: "Ethical Concerns", guidance: "Any concerns that need an ethics review, or \"None\"." },
+      { field: "Confidence", guidance: "How sure the reviewer is of the assessment.", scale: "1-5" },
+    ],
+  },
+  cvpr: {
+    name: "CVPR",
+    aliases: ["iccv", "computer vision and pattern recognition"],
+    pageLimit: 8,
+    wordsPerPage: 950,
+    anonymous: true,
+    deanonymizing: ["\\\\cvprfinalcopy", "\\\\usepackage(?!\\[[^\\]]*\\breview\\b)(?:\\[[^\\]]*\\])?\\{cvpr\\}"],
+    citationStyle: "numeric",
+    reviewForm: [
+      { field: "Summary", guidance: "The problem, the approach and the claimed contributions." },
+      { field: "Strengths", guidance: "What the paper does well, with evidence." },
+      { field: "Weaknesses", guidance: "Technical flaws, missing comparisons and unclear parts, most serious first." },
+      { field: "Preliminary Rating", guidance: "Reject, weak reject, borderline, weak accept or accept.", scale: "1-5" },
+      { field: "Justification of Rating", guidance: "The main reasons for the rating, and what the rebuttal should address." },
+      { field: "Confidence", guidance: "How sure the reviewer is of the assessment.", scale: "1-5" },
+    ],
+  },
+  ieee: {
+    name: "IEEE Transactions",
+    aliases: ["ieee transactions", "tpami", "tip", "tnnls", "tkde", "tsp"],
+    wordsPerPage: 950,
+    abstractWords: 250,
+    requiredSections: [{ name: "Index Terms", pattern: "IEEEkeywords|index terms" }],
+    anonymous: false,
+    citationStyle: "numeric",
+    reviewForm: [
+      { field: "Summary", guidance: "The paper's problem, method and findings." },
+      { field: "Technical Soundness", guidance: "Correctness of the method, proofs and experiments." },
+      { field: "Novelty and Relevance", guidance: "What is new, and whether it fits the journal's scope." },
+      { field: "Presentation", guidance: "Organization, language, figures and references." },
+      { field: "Comments to the Authors", guidance: "Numbered, specific changes required for acceptance." },
+      { field: "Recommendation", guidance: "The decision the reviewer recommends.", scale: "accept | minor revision | major revision | reject" },
+    ],
+  },
+};
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/['’]?\d{2,4}\b/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * The profile for a venue name such as "NeurIPS 2026" (years are ignored),
+ * looked up in `custom` first and then the built-in profiles, or loaded from
+ * a .json path. Unknown names yield undefined: the name is still usable as
+ * free text.
+ */
+export function resolveVenue(name: string, custom: Record<string, VenueProfile> = {}): VenueProfile | undefined {
+  if (/\.json$/i.test(name)) return loadVenueFile(name, custom);
+  const wanted = normalize(name);
+  for (const profiles of [custom, VENUES]) {
+    for (const [key, profile] of Object.entries(profiles)) {
+      const names = [key, profile.name, ...(profile.aliases ?? [])].map(normalize);
+      if (names.includes(wanted)) return profile;
+    }
+  }
+  return undefined;
+}
+
+/** Load a venue profile from a JSON file. */
+export function loadVenueFile(file: string, custom: Record<string, VenueProfile> = {}): VenueProfile {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Venue file not found: ${file}`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err: any) {
+    throw new Error(`Invalid JSON in ${file}: ${err.message}`);
+  }
+  return validateVenue(raw, file, custom);
+}
+
+/**
+ * Validate a parsed venue profile, throwing with the offending key. A
+ * profile that `extends` another gets that profile's values for every key
+ * it leaves out.
+ */
+export function validateVenue(raw: unknown, source = "venue", custom: Record<string, VenueProfile> = {}): VenueProfile {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${source} must be an object`);
+  }
+  const obj = raw as Record<string, unknown>;
+  const isText = (v: unknown) => typeof v === "string" && v.trim() !== "";
+  const isRegex = (v: unknown) => {
+    try {
+      return isText(v) && Boolean(new RegExp(v as string));
+    } catch {
+      return false;
+    }
+  };
+  const isPositive = (v: unknown) => typeof v === "number" && Number.isInteger(v) && v > 0;
+
+  let base: VenueProfile | undefined;
+  if (obj.extends !== undefined) {
+    base = typeof obj.extends === "string" ? custom[obj.extends] ?? VENUES[obj.extends] : undefined;
+    if (!base) {
+      throw new Error(`${source}: "extends" must name a venue profile (${Object.keys({ ...VENUES, ...custom }).join(", ")})`);
+    }
+  }
+
+  if (!isText(obj.name)) throw new Error(`${source}: "name" must be a non-empty string`);
+  const out: VenueProfile = { ...base, name: obj.name as string };
+  delete out.aliases;
+  if (obj.aliases !== undefined) {
+    if (!Array.isArray(obj.aliases) || !obj.aliases.every(isText)) {
+      throw new Error(`${source}: "aliases" must be an array of non-empty strings`);
+    }
+    out.aliases = obj.aliases;
+  }
+  if (base) out.extends = obj.extends as string;
+  else delete out.extends;
+  for (const key of ["pageLimit", "wordsPerPage", "abstractWords"] as const) {
+    if (obj[key] === undefined) continue;
+    if (!isPositive(obj[key])) throw new Error(`${source}: "${key}" must be a positive integer`);
+    out[key] = obj[key] as number;
+  }
+  if (obj.requiredSections !== undefined) {
+    const sections = obj.requiredSections;
+    if (!Array.isArray(sections) || !sections.every((s) => isText(s?.name) && isRegex(s?.pattern))) {
+      throw new Error(`${source}: "requiredSections" must be an array of { "name", "pattern" } with valid regular expressions`);
+    }
+    out.requiredSections = sections.map((s) => ({ name: s.name, pattern: s.pattern }));
+  }
+  if (obj.anonymous !== undefined) {
+    if (typeof obj.anonymous !== "boolean") throw new Error(`${source}: "anonymous" must be true or false`);
+    out.anonymous = obj.anonymous;
+  }
+  if (obj.deanonymizing !== undefined) {
+    if (!Array.isArray(obj.deanonymizing) || !obj.deanonymizing.every(isRegex)) {
+      throw new Error(`${source}: "deanonymizing" must be an array of valid regular expressions`);
+    }
+    out.deanonymizing = obj.deanonymizing;
+  }
+  if (obj.citationStyle !== undefined) {
+    if (obj.citationStyle !== "numeric" && obj.citationStyle !== "author-year") {
+      throw new Error(`${source}: "citationStyle" must be "numeric" or "author-year"`);
+    }
+    out.citationStyle = obj.citationStyle;
+  }
+  if (obj.reviewForm !== undefined) {
+    const form = obj.reviewForm;
+    if (!Array.isArray(form) || form.length === 0 ||
+        !form.every((f) => isText(f?.field) && isText(f?.guidance) && (f.scale === undefined || isText(f.scale)))) {
+      throw new Error(`${source}: "reviewForm" must be a non-empty array of { "field", "guidance", "scale"? }`);
+    }
+    out.reviewForm = form.map((f) => ({ field: f.field, guidance: f.guidance, ...(f.scale ? { scale: f.scale } : {}) }));
+  }
+  return out;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/** Where the main text ends: the appendix or the bibliography, whichever comes first. */
+const MAIN_END_RE = /\\appendix\b|\\bibliography\s*\{|\\printbibliography\b|\\begin\{thebibliography\}|\\end\{document\}/;
+
+/** Page share of a float in the main text; starred floats span both columns. */
+const FLOAT_PAGES = { single: 0.3, wide: 0.5 };
+
+const FLOAT_RE = /\\begin\{((?:figure|table)(\*?))\}[\s\S]*?\\end\{\1\}/g;
+
+const AUTHOR_YEAR_CITE_RE = /\\cite(?:t|p|alt|alp|author|year)\*?(?:\s*\[[^\]]*\]){0,2}\s*\{/g;
+const NUMERIC_BIBSTYLE_RE = /\\bibliographystyle\s*\{\s*(plain|unsrt|abbrv|alpha|ieeetr|IEEEtran|splncs04|ACM-Reference-Format)\s*\}/;
+const NUMBERS_NATBIB_RE = /\\usepackage\s*\[[^\]]*\bnumbers\b[^\]]*\]\s*\{natbib\}/;
+
+/** Replace % comments and verbatim/code blocks with spaces, keeping offsets. */
+function maskComments(text: string): string {
+  return text
+    .replace(/\\begin\{((?:verbatim|Verbatim|lstlisting|minted|alltt|comment)\*?)\}[\s\S]*?\\end\{\1\}/g, (m) =>
+      m.replace(/[^\n]/g, " "))
+    .replace(/(?<!\\)%.*$/gm, (m) => " ".repeat(m.length));
+}
+
+/** Every heading and environment name, with the offset it starts at. */
+function structureOf(text: string): Array<{ name: string; offset: number }> {
+  return [
+    ...splitSections(text).filter((s) => s.heading).map((s) => ({ name: s.heading!, offset: s.start })),
+    ...[...text.matchAll(/\\(?:begin\s*\{([^}]*)\}|paragraph\*?\s*\{([^}]*)\})/g)].map((m) => ({ name: m[1] ?? m[2], offset: m.index! })),
+  ];
+}
+
+/**
+ * Check a manuscript against a venue profile. Page counts are estimated
+ * from words and floats, so a limit is reported when the estimate exceeds
+ * it; compile the paper to confirm.
+ */
+export function checkVenue(text: string, venue: VenueProfile): VenueReport {
+  const source = maskComments(text);
+  const locate = lineLocator(text);
+  const issues: VenueIssue[] = [];
+  const issue = (fields: Omit<VenueIssue, "line" | "column">) => issues.push({ ...locate(fields.offset), ...fields });
+
+  const begin = Math.max(0, source.search(/\\begin\{document\}/));
+  const endMatch = MAIN_END_RE.exec(source.slice(begin));
+  const mainEnd = endMatch ? begin + endMatch.index : source.length;
+  const structure = structureOf(source);
+
+  // Required sections, and the spans they cover (not counted toward the limit).
+  const excluded: Array<[number, number]> = [];
+  const sections = splitSections(source);
+  for (const required of venue.requiredSections ?? []) {
+    const re = new RegExp(required.pattern, "i");
+    const found = structure.find((s) => re.test(s.name.trim()));
+    if (!found) {
+      issue({
+        type: "missing_section", severity: "error", offset: mainEnd,
+        message: `No "${required.name}" section, which ${venue.name} requires`,
+      });
+      continue;
+    }
+    const section = sections.find((s) => s.start === found.offset);
+    if (section) excluded.push([section.start, section.start + section.text.length]);
+  }
+
+  // Abstract length.
+  let abstractWords: number | undefined;
+  const abstract = /\\begin\{abstract\}([\s\S]*?)\\end\{abstract\}/.exec(source);
+  if (abstract) {
+    abstractWords = wordCount(text.slice(abstract.index, abstract.index + abstract[0].length));
+    if (venue.abstractWords && abstractWords > venue.abstractWords) {
+      issue({
+        type: "abstract_length", severity: "error", offset: abstract.index,
+        message: `Abstract has ${abstractWords} words; ${venue.name} allows ${venue.abstractWords}`,
+      });
+    }
+  }
+
+  // Pages of main text, estimated section by section so the issue points where the limit is passed.
+  let mainWords = 0;
+  let estimatedPages: number | undefined;
+  if (venue.wordsPerPage) {
+    let pages = 0;
+    let passedAt: number | undefined;
+    const bodyStart = abstract ? abstract.index + abstract[0].length : begin;
+    for (const section of sections) {
+      const start = Math.max(section.start, bodyStart);
+      const end = Math.min(section.start + section.text.length, mainEnd);
+      if (end <= start || excluded.some(([s, e]) => section.start >= s && section.start < e)) continue;
+      const words = wordCount(text.slice(start, end));
+      const floats = [...source.slice(start, end).matchAll(FLOAT_RE)];
+      mainWords += words;
+      pages += words / venue.wordsPerPage + floats.reduce((n, f) => n + (f[2] ? FLOAT_PAGES.wide : FLOAT_PAGES.single), 0);
+      if (venue.pageLimit && passedAt === undefined && pages > venue.pageLimit) passedAt = start;
+    }
+    estimatedPages = Math.round(pages * 10) / 10;
+    if (venue.pageLimit && passedAt !== undefined) {
+      issue({
+        type: "page_limit", severity: "warning", offset: passedAt,
+        message: `Main text is about ${estimatedPages} pages (${mainWords} words plus floats) against the ${venue.pageLimit}-page limit of ${venue.name}; ` +
+          "it passes the limit in this section. Compile the paper to confirm",
+      });
+    }
+  } else {
+    for (const section of sections) {
+      const end = Math.min(section.start + section.text.length, mainEnd);
+      if (end > section.start) mainWords += wordCount(text.slice(section.start, end));
+    }
+  }
+
+  // Camera-ready switches and acknowledgements reveal the authors of an anonymous submission.
+  if (venue.anonymous) {
+    for (const pattern of venue.deanonymizing ?? []) {
+      const m = new RegExp(pattern).exec(source);
+      if (m) {
+        issue({
+          type: "anonymity", severity: "error", offset: m.index,
+          message: `"${m[0]}" selects the camera-ready version, which shows author names; ${venue.name} reviews are anonymous`,
+        });
+      }
+    }
+    const thanks = structure.find((s) => /^acknowledge?ments?$/i.test(s.name.trim()));
+    if (thanks) {
+      issue({
+        type: "anonymity", severity: "error", offset: thanks.offset,
+        message: `Acknowledgements can identify the authors; leave them out of the ${venue.name} submission`,
+      });
+    }
+  }
+
+  // Citation style.
+  if (venue.citationStyle === "numeric") {
+    const m = AUTHOR_YEAR_CITE_RE.exec(source);
+    AUTHOR_YEAR_CITE_RE.lastIndex = 0;
+    if (m) {
+      issue({
+        type: "citation_style", severity: "warning", offset: m.index,
+        message: `${m[0].replace(/\s*\{$/, "")} gives an author-year citation; ${venue.name} uses numeric citations (\\cite)`,
+      });
+    }
+  } else if (venue.citationStyle === "author-year") {
+    const m = NUMERIC_BIBSTYLE_RE.exec(source) ?? NUMBERS_NATBIB_RE.exec(source);
+    if (m) {
+      issue({
+        type: "citation_style", severity: "warning", offset: m.index,
+        message: `"${m[0]}" gives numeric citations; ${venue.name} uses author-year citations (the style file of its template)`,
+      });
+    }
+  }
+
+  issues.sort((a, b) => a.offset - b.offset);
+  return { venue: venue.name, issues, mainWords, estimatedPages, abstractWords };
+}
+
+// ============================================================================
+// Prompting
+// ============================================================================
+
+/** One line on a venue's rules, for agent goals. */
+export function describeVenue(venue: VenueProfile): string {
+  const rules = [
+    venue.pageLimit ? `${venue.pageLimit} pages of main text` : "",
+    venue.abstractWords ? `abstract of at most ${venue.abstractWords} words` : "",
+    venue.requiredSections?.length ? `required: ${venue.requiredSections.map((s) => s.name).join(", ")}` : "",
+    venue.anonymous === undefined ? "" : venue.anonymous ? "double-blind" : "not anonymous",
+    venue.citationStyle ? `${venue.citationStyle} citations` : "",
+  ].filter(Boolean);
+  return rules.length > 0 ? `${venue.name} (${rules.join("; ")})` : venue.name;
+}
+
+/** Instructions that make a review follow the venue's reviewer form. */
+export function formatReviewForm(venue: VenueProfile): string {
+  const fields = (venue.reviewForm ?? []).map((f) =>
+    `## ${f.field}${f.scale ? ` (${f.scale})` : ""}\n<${f.guidance}>`);
+  return (
+    `Write the review in the ${venue.name} reviewer form, in place of the output format in your instructions. ` +
+    "Use exactly these headings, in this order, and give every scored field a value on its scale:\n\n" +
+    fields.join("\n\n")
+  );
+}